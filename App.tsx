@@ -1,106 +1,731 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Deal, UserPreferences, PriceDataPoint, DealVerification, GroundingMetadata, GroundingChunk } from './types';
-import { APP_TITLE, DEAL_CATEGORIES, MOCK_API_KEY_NOTICE, GEMINI_ERROR_MESSAGE, INITIAL_DEALS_COUNT } from './constants';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Deal, UserPreferences, PriceDataPoint, DealVerification, GroundingMetadata, GroundingChunk, DealValidationReport, WatchlistItem, WatchlistAlert, PreferenceProfile, MerchantOverrides, MerchantReputation, CacheInfo, RetryInfo, RequestOptions, SearchRequestOptions, DealFilters, DealSortKey, DealLink, UrlState, SavedSearch, DealChange, StatusMessage, ComparedDeal, DealComparisonResult, LocaleCode } from './types';
+import { APP_TITLE, SUPPORTED_LOCALES, DEFAULT_PROVIDER_IDS, MOCK_PROVIDER_ID, DEMO_MODE, WATCHLIST_CHECK_INTERVAL_MS, SAVED_SEARCH_CHECK_INTERVAL_MS, INITIAL_DEALS_COUNT, IMPORTED_PROVIDER_ID, MIN_COMPARED_DEALS, MAX_COMPARED_DEALS } from './constants';
 import * as geminiService from './services/geminiService';
+import { searchDeals, getProviderLabel, listDealProviders } from './services/dealProviders';
+import { getPriceHistory } from './services/priceHistoryStore';
+import { analyzePriceHistory } from './services/priceForecast';
+import * as watchlistService from './services/watchlistService';
+import * as savedSearchService from './services/savedSearchService';
+import * as preferenceProfile from './services/preferenceProfile';
+import { ChatToolHandlers } from './services/chatTools';
+import * as merchantRegistry from './services/merchantRegistry';
+import { describeRetry, isAbortError } from './services/requestControl';
+import { excludeShownDeals } from './services/dealIdentity';
+import { isSafeUrl } from './services/groundingSources';
+import { dealDistanceKm, withResolvedPlace } from './services/locationService';
+import { EMPTY_DEAL_FILTERS, applyFilters, computeFacets, sortDeals } from './services/dealFacets';
+import { combineVerification, runLocalChecks } from './services/dealVerification';
+import { decodeUrlState, encodeUrlState, isSameDealLink, isSameSearch } from './services/urlState';
+import * as dataTransfer from './services/dataTransfer';
+import { loadImportedDeals, parseImportedDealFile, saveImportedDeals } from './services/localFeedProvider';
+import { formatDateTime, translate } from './services/i18n';
+import { generateDemoPriceHistory } from './services/demoService';
 import DealCard from './components/DealCard';
 import SearchBarAndFilters from './components/SearchBarAndFilters';
 import PriceHistoryModal from './components/PriceHistoryModal';
 import DealVerificationModal from './components/DealVerificationModal';
+import ComparisonModal from './components/ComparisonModal';
+import ResultFilters from './components/ResultFilters';
 import LoadingSpinner from './components/LoadingSpinner';
-import { SparklesIcon, TagIcon, MapPinIcon, LinkIcon } from './components/icons';
+import WatchlistPanel from './components/WatchlistPanel';
+import SavedSearchesPanel from './components/SavedSearchesPanel';
+import DataPanel from './components/DataPanel';
+import AlertToasts from './components/AlertToasts';
+import ChatPanel from './components/ChatPanel';
+import { useI18n } from './components/I18nProvider';
+import { SparklesIcon, TagIcon, MapPinIcon, LinkIcon, EyeIcon, ChatBubbleIcon, StopIcon, BookmarkIcon, ArrowsUpDownIcon, ScaleIcon } from './components/icons';
+
+const readUrlState = (search: string = window.location.search): UrlState => decodeUrlState(search, listDealProviders().map(provider => provider.id));
+
+const isDemoDeal = (deal: Deal): boolean => DEMO_MODE || deal.providerId === MOCK_PROVIDER_ID;
+
+const loadPriceHistory = async (deal: Deal): Promise<PriceDataPoint[]> =>
+  isDemoDeal(deal) ? generateDemoPriceHistory(deal) : getPriceHistory(deal);
 
 const App: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+  // A bookmarked or shared link restores its search, sorting and filters, and opens the deal it points to once the results are in.
+  const [initialUrlState] = useState<UrlState>(readUrlState);
   const [deals, setDeals] = useState<Deal[]>([]);
-  const [userPreferences, setUserPreferences] = useState<UserPreferences>({
-    keywords: '',
-    categories: [],
-    location: '',
-  });
+  const [userPreferences, setUserPreferences] = useState<UserPreferences>(initialUrlState.preferences);
+  const [selectedProviderIds, setSelectedProviderIds] = useState<string[]>(initialUrlState.providerIds);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [apiKeyMissing, setApiKeyMissing] = useState<boolean>(false);
 
   const [selectedDealForHistory, setSelectedDealForHistory] = useState<Deal | null>(null);
   const [priceHistoryData, setPriceHistoryData] = useState<PriceDataPoint[]>([]);
+  const [isDemoPriceHistory, setIsDemoPriceHistory] = useState<boolean>(false);
   
   const [selectedDealForVerification, setSelectedDealForVerification] = useState<Deal | null>(null);
   const [verificationData, setVerificationData] = useState<DealVerification | null>(null);
   const [isVerifying, setIsVerifying] = useState<boolean>(false);
   const [groundingMetadata, setGroundingMetadata] = useState<GroundingMetadata | undefined>(undefined);
+  const [validationReport, setValidationReport] = useState<DealValidationReport | undefined>(undefined);
+  const [cacheInfo, setCacheInfo] = useState<CacheInfo | undefined>(undefined);
+  const [searchRetry, setSearchRetry] = useState<RetryInfo | null>(null);
+  const [isStreamingDeals, setIsStreamingDeals] = useState<boolean>(false); // Deals of a running search are already shown
+  const [isSearchStopped, setIsSearchStopped] = useState<boolean>(false);
+  const [pageSize, setPageSize] = useState<number>(initialUrlState.pageSize);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+  const [hasMoreDeals, setHasMoreDeals] = useState<boolean>(true);
+  const [resultFilters, setResultFilters] = useState<DealFilters>(initialUrlState.filters);
+  const [sortKey, setSortKey] = useState<DealSortKey>(initialUrlState.sortKey);
+  const [pendingDealLink, setPendingDealLink] = useState<DealLink | null>(initialUrlState.dealLink);
+  const [verificationScores, setVerificationScores] = useState<Record<string, number | null>>({});
+  const [verificationRetry, setVerificationRetry] = useState<RetryInfo | null>(null);
+  const [comparedDealIds, setComparedDealIds] = useState<string[]>([]);
+  const [isComparisonOpen, setIsComparisonOpen] = useState<boolean>(false);
+  const [comparedDeals, setComparedDeals] = useState<ComparedDeal[]>([]);
+  const [comparisonResult, setComparisonResult] = useState<DealComparisonResult | null>(null);
+  const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [comparisonRetry, setComparisonRetry] = useState<RetryInfo | null>(null);
+
+  const [watchlist, setWatchlist] = useState<WatchlistItem[]>(() => watchlistService.loadWatchlist());
+  const [isWatchlistOpen, setIsWatchlistOpen] = useState<boolean>(false);
+  const [isCheckingWatchlist, setIsCheckingWatchlist] = useState<boolean>(false);
+  const [alerts, setAlerts] = useState<WatchlistAlert[]>([]);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+  const [isChatOpen, setIsChatOpen] = useState<boolean>(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>(() => savedSearchService.loadSavedSearches());
+  const [isSavedSearchesOpen, setIsSavedSearchesOpen] = useState<boolean>(false);
+  const [dealChanges, setDealChanges] = useState<Record<string, DealChange>>({}); // Badges for a saved search's results, against its last run
+  const [isDataPanelOpen, setIsDataPanelOpen] = useState<boolean>(false);
+  const [dataMessage, setDataMessage] = useState<StatusMessage | null>(null);
+  const [importedDealCount, setImportedDealCount] = useState<number>(() => loadImportedDeals().length);
+  const [profile, setProfile] = useState<PreferenceProfile>(() => preferenceProfile.loadProfile());
+  const profileRef = useRef(profile);
+  const [merchantOverrides, setMerchantOverrides] = useState<MerchantOverrides>(() => merchantRegistry.loadMerchantOverrides());
+  const [showHiddenDeals, setShowHiddenDeals] = useState<boolean>(false);
 
+  // The interval callback reads these through refs so it always sees the latest list and sources.
+  const watchlistRef = useRef(watchlist);
+  const savedSearchesRef = useRef(savedSearches);
+  const isRunningSavedSearchesRef = useRef(false);
+  const selectedProviderIdsRef = useRef(selectedProviderIds);
+  // Read by the chat assistant's tool handlers, which outlive the render that created them.
+  const dealsRef = useRef(deals);
+  const userPreferencesRef = useRef(userPreferences);
+  const resultFiltersRef = useRef(resultFilters);
+  const pageSizeRef = useRef(pageSize);
+  const comparedDealIdsRef = useRef(comparedDealIds);
+  const localeRef = useRef(locale);
+  // A new search aborts the one before it, and background refreshes of cached results only apply while their search is still the latest one.
+  const searchIdRef = useRef(0);
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const verifyAbortRef = useRef<AbortController | null>(null);
+  const compareAbortRef = useRef<AbortController | null>(null);
+  // What the address bar shows; back/forward compares against it to tell whether the search itself changed.
+  const urlStateRef = useRef<UrlState>(initialUrlState);
 
-  const fetchDeals = useCallback(async (prefs: UserPreferences, useSearchGrounding: boolean = false) => {
-    setIsLoading(true);
+  // Resolves to the deals now shown, so callers such as the chat assistant can report on them.
+  // With `append`, the next page is fetched (leaving out the deals already shown) and added below them.
+  // A new search starts with `filters` applied, by default none.
+  const fetchDeals = useCallback(async (
+    prefs: UserPreferences,
+    providerIds: string[] = DEFAULT_PROVIDER_IDS,
+    { bypassCache = false, pageSize = INITIAL_DEALS_COUNT, append = false, filters = EMPTY_DEAL_FILTERS }: { bypassCache?: boolean; pageSize?: number; append?: boolean; filters?: DealFilters } = {}
+  ): Promise<Deal[]> => {
+    const searchId = ++searchIdRef.current;
+    const isLatest = () => searchId === searchIdRef.current;
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    const shownDeals = append ? dealsRef.current : [];
+    const setBusy = append ? setIsLoadingMore : setIsLoading;
+    setBusy(true);
     setError(null);
-    setGroundingMetadata(undefined);
+    if (!append) {
+      setIsLoadingMore(false); // A "Load more" still running was just aborted
+      setResultFilters(filters);
+      setDealChanges({});
+      setComparedDealIds([]);
+      setGroundingMetadata(undefined);
+      setValidationReport(undefined);
+      setCacheInfo(undefined);
+      setHasMoreDeals(true);
+    }
+    setSearchRetry(null);
+    setIsStreamingDeals(false);
+    setIsSearchStopped(false);
+    const currentProfile = profileRef.current;
+    const currentLocale = localeRef.current;
+    let streamedDeals: Deal[] = [];
+    let isFinished = false; // A background refresh of a cached search streams too, but only the running search shows progress
     try {
-      const { deals: fetchedDeals, groundingMetadata: newGroundingMetadata } = await geminiService.generateDeals(prefs, useSearchGrounding);
-      setDeals(fetchedDeals);
+      const { deals: fetchedDeals, groundingMetadata: newGroundingMetadata, errors, validation, cache } = await searchDeals(providerIds, prefs, {
+        preferenceHint: preferenceProfile.describeProfileForPrompt(currentProfile) || undefined,
+        bypassCache,
+        maxResults: pageSize,
+        excludeDeals: append ? shownDeals : undefined,
+        signal: controller.signal,
+        locale: currentLocale,
+        onRetry: (info) => {
+          if (isLatest()) setSearchRetry(info);
+        },
+        onProgress: (deals) => {
+          if (!isLatest() || isFinished || deals.length === 0) return;
+          streamedDeals = preferenceProfile.rankDeals(deals, currentProfile, currentLocale);
+          setDeals([...shownDeals, ...streamedDeals]);
+          setIsStreamingDeals(true);
+        },
+        onRevalidated: (fresh) => {
+          if (!isLatest()) return;
+          setDeals([...shownDeals, ...preferenceProfile.rankDeals(fresh.deals, profileRef.current, localeRef.current)]);
+          if (!append) setGroundingMetadata(fresh.groundingMetadata);
+          setValidationReport(fresh.validation);
+          setCacheInfo(fresh.cache);
+        },
+      });
+      isFinished = true;
+      if (!isLatest()) return []; // A newer search owns the results area now
+      const pageDeals = preferenceProfile.rankDeals(excludeShownDeals(fetchedDeals, shownDeals), currentProfile, currentLocale);
+      const rankedDeals = [...shownDeals, ...pageDeals];
+      setDeals(rankedDeals);
+      setHasMoreDeals(pageDeals.length > 0);
+      setValidationReport(validation);
+      setCacheInfo(cache);
       if (newGroundingMetadata) {
-        setGroundingMetadata(newGroundingMetadata);
+        setGroundingMetadata(prev => append && prev ? {
+          groundingChunks: [...(prev.groundingChunks ?? []), ...(newGroundingMetadata.groundingChunks ?? [])],
+          searchQueries: [...(prev.searchQueries ?? []), ...(newGroundingMetadata.searchQueries ?? [])],
+        } : newGroundingMetadata);
+      }
+      // Stopped after some sources had answered: their deals are the result, the rest were not failures.
+      if (controller.signal.aborted) setIsSearchStopped(true);
+      if (errors.some(e => e.message === "API_KEY_MISSING")) {
+        setApiKeyMissing(true);
       }
+      const otherErrors = errors.filter(e => e.message !== "API_KEY_MISSING");
+      if (otherErrors.length > 0) {
+        setError(translate(currentLocale, 'app.sourcesFailed', { sources: otherErrors.map(e => `${getProviderLabel(e.providerId, currentLocale)} (${e.message})`).join('; ') }));
+      }
+      return rankedDeals;
     } catch (err) {
+      isFinished = true;
+      if (!isLatest()) return [];
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep whatever had streamed in.
+        const keptDeals = [...shownDeals, ...streamedDeals];
+        setDeals(keptDeals);
+        setIsSearchStopped(true);
+        return keptDeals;
+      }
       const errorMessage = (err as Error).message;
       if (errorMessage === "API_KEY_MISSING") {
         setApiKeyMissing(true);
-        setError(MOCK_API_KEY_NOTICE);
-        // Load some placeholder deals if API key is missing
-        setDeals(Array.from({ length: INITIAL_DEALS_COUNT }).map((_, i) => ({
-          id: `mock-${i}`,
-          title: `Mock Deal Title ${i + 1}`,
-          description: "This is a placeholder deal because the AI service is unavailable. Please configure API_KEY.",
-          originalPrice: `$${(Math.random() * 100 + 50).toFixed(2)}`,
-          discountedPrice: `$${(Math.random() * 50 + 20).toFixed(2)}`,
-          merchant: "Mock Merchant",
-          category: DEAL_CATEGORIES[i % DEAL_CATEGORIES.length],
-          imageUrl: `https://picsum.photos/seed/mockdeal${i}/300/200`
-        })));
-      } else {
-        setError(GEMINI_ERROR_MESSAGE + ` Details: ${errorMessage}`);
-        setDeals([]); // Clear deals on other errors
+        setError(translate(currentLocale, 'app.apiKeyMissing'));
+        // Without an API key the offline demo catalog answers instead
+        const { deals: mockDeals } = await searchDeals([MOCK_PROVIDER_ID], prefs, { maxResults: pageSize, excludeDeals: append ? shownDeals : undefined, locale: currentLocale });
+        const rankedMockDeals = [...shownDeals, ...preferenceProfile.rankDeals(mockDeals, currentProfile, currentLocale)];
+        setDeals(rankedMockDeals);
+        console.error(err);
+        return rankedMockDeals;
       }
+      setError(translate(currentLocale, 'app.aiError', { details: errorMessage }));
+      setDeals(shownDeals); // Clear deals on other errors, except pages that were already shown
       console.error(err);
+      return shownDeals;
     } finally {
-      setIsLoading(false);
+      if (isLatest()) {
+        setBusy(false);
+        setSearchRetry(null);
+        setIsStreamingDeals(false);
+      }
     }
   }, []);
 
   useEffect(() => {
     // Initial fetch of deals
-    fetchDeals(userPreferences);
+    fetchDeals(userPreferences, selectedProviderIds, { pageSize, filters: resultFilters });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [fetchDeals]); // fetchDeals is memoized with useCallback. It's stable.
 
-  const handleSearch = (newPreferences: UserPreferences, useSearchGrounding: boolean) => {
+  useEffect(() => {
+    watchlistRef.current = watchlist;
+    watchlistService.saveWatchlist(watchlist);
+  }, [watchlist]);
+
+  useEffect(() => {
+    selectedProviderIdsRef.current = selectedProviderIds;
+  }, [selectedProviderIds]);
+
+  useEffect(() => {
+    dealsRef.current = deals;
+  }, [deals]);
+
+  useEffect(() => {
+    userPreferencesRef.current = userPreferences;
+  }, [userPreferences]);
+
+  useEffect(() => {
+    resultFiltersRef.current = resultFilters;
+  }, [resultFilters]);
+
+  useEffect(() => {
+    pageSizeRef.current = pageSize;
+  }, [pageSize]);
+
+  useEffect(() => {
+    comparedDealIdsRef.current = comparedDealIds;
+  }, [comparedDealIds]);
+
+  useEffect(() => {
+    localeRef.current = locale;
+  }, [locale]);
+
+  const checkWatchlist = useCallback(async () => {
+    const items = watchlistRef.current;
+    if (items.length === 0) return;
+    setIsCheckingWatchlist(true);
+    try {
+      const result = await watchlistService.checkWatchlist(items, selectedProviderIdsRef.current, localeRef.current);
+      const checkedById = new Map(result.items.map(item => [item.dealId, item]));
+      // Keep edits and removals made while the check was running.
+      setWatchlist(prev => prev.map(item => {
+        const checked = checkedById.get(item.dealId);
+        return checked ? { ...item, lastPrice: checked.lastPrice, lastCheckedAt: checked.lastCheckedAt, alertedAt: checked.alertedAt } : item;
+      }));
+      if (result.alerts.length > 0) {
+        setAlerts(prev => [...prev, ...result.alerts]);
+        result.alerts.forEach(alert => watchlistService.showBrowserNotification(alert, localeRef.current));
+      }
+    } finally {
+      setIsCheckingWatchlist(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const intervalId = window.setInterval(checkWatchlist, WATCHLIST_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [checkWatchlist]);
+
+  useEffect(() => {
+    savedSearchesRef.current = savedSearches;
+    savedSearchService.saveSavedSearches(savedSearches);
+  }, [savedSearches]);
+
+  const runDueSavedSearches = useCallback(async () => {
+    if (isRunningSavedSearchesRef.current || !savedSearchesRef.current.some(search => savedSearchService.isSavedSearchDue(search))) return;
+    isRunningSavedSearchesRef.current = true;
+    try {
+      const result = await savedSearchService.runDueSavedSearches(savedSearchesRef.current, {
+        preferenceHint: preferenceProfile.describeProfileForPrompt(profileRef.current) || undefined,
+        locale: localeRef.current,
+      });
+      const ranById = new Map(result.searches.map(search => [search.id, search]));
+      // Keep edits and removals made while the searches were running, and searches the user opened in the meantime.
+      setSavedSearches(prev => prev.map(search => {
+        const ran = ranById.get(search.id);
+        if (!ran || (search.lastRunAt ?? '') > (ran.lastRunAt ?? '')) return search;
+        return { ...search, lastRunAt: ran.lastRunAt, unseenCount: ran.unseenCount, seenDeals: search.seenDeals ?? ran.seenDeals };
+      }));
+      if (result.alerts.length > 0) {
+        setAlerts(prev => [...prev, ...result.alerts]);
+        result.alerts.forEach(alert => watchlistService.showBrowserNotification(alert, localeRef.current));
+      }
+    } finally {
+      isRunningSavedSearchesRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    const intervalId = window.setInterval(runDueSavedSearches, SAVED_SEARCH_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [runDueSavedSearches]);
+
+  useEffect(() => {
+    profileRef.current = profile;
+    preferenceProfile.saveProfile(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    merchantRegistry.saveMerchantOverrides(merchantOverrides);
+  }, [merchantOverrides]);
+
+  // Feedback updates the profile straight away; the grid is only re-ranked on the next search so cards do not jump around.
+  const handleFeedback = (deal: Deal, liked: boolean | undefined) => {
+    setProfile(prev => preferenceProfile.recordFeedback(prev, deal, liked));
+    setDeals(prev => prev.map(d => d.id === deal.id ? { ...d, userLiked: liked } : d));
+  };
+
+  const handleResetProfile = () => {
+    setProfile(preferenceProfile.emptyProfile());
+    setDeals(prev => preferenceProfile.rankDeals(prev, preferenceProfile.emptyProfile(), locale));
+  };
+
+  const handleSetMerchantTrust = (reputation: MerchantReputation, tier: 'trusted' | 'blocked' | undefined) => {
+    setMerchantOverrides(prev => merchantRegistry.setMerchantOverride(prev, reputation.key, tier));
+  };
+
+  const handleToggleWatch = (deal: Deal) => {
+    setWatchlist(prev => prev.some(item => item.dealId === deal.id)
+      ? prev.filter(item => item.dealId !== deal.id)
+      : [...prev, watchlistService.createWatchlistItem(deal)]);
+  };
+
+  const handleUpdateWatchThresholds = (dealId: string, thresholds: Pick<WatchlistItem, 'targetPrice' | 'dropPercent'>) => {
+    setWatchlist(prev => prev.map(item => item.dealId === dealId ? { ...item, ...thresholds, alertedAt: undefined } : item));
+  };
+
+  const handleEnableNotifications = async () => {
+    setNotificationPermission(await watchlistService.requestNotificationPermission());
+  };
+
+  const handleStopSearch = () => {
+    searchAbortRef.current?.abort();
+  };
+
+  const handleSearch = (newPreferences: UserPreferences, providerIds: string[], options: SearchRequestOptions) => {
     setUserPreferences(newPreferences);
-    fetchDeals(newPreferences, useSearchGrounding);
+    setSelectedProviderIds(providerIds);
+    setPageSize(options.pageSize);
+    fetchDeals(newPreferences, providerIds, options);
   };
 
-  const handleShowPriceHistory = (deal: Deal) => {
-    setSelectedDealForHistory(deal);
-    setPriceHistoryData(geminiService.generateMockPriceHistory(deal.discountedPrice));
+  // The deals on screen are what the user has seen of the new saved search, so its first run is compared with them.
+  const handleSaveCurrentSearch = (name: string) => {
+    const search = savedSearchService.createSavedSearch(
+      name.trim() || savedSearchService.describeSearch(userPreferences, locale),
+      userPreferences,
+      selectedProviderIds,
+      pageSize
+    );
+    setSavedSearches(prev => [...prev, deals.length > 0 ? savedSearchService.markSeen(search, deals) : search]);
+  };
+
+  // An empty result (failed, stopped before any deal arrived, or replaced by a newer search) keeps the previous baseline.
+  const handleRunSavedSearch = async (search: SavedSearch) => {
+    setIsSavedSearchesOpen(false);
+    const preferences = withResolvedPlace(search.preferences); // Searches saved before locations were resolved have no place
+    setUserPreferences(preferences);
+    setSelectedProviderIds(search.providerIds);
+    setPageSize(search.pageSize);
+    const fetchedDeals = await fetchDeals(preferences, search.providerIds, { pageSize: search.pageSize });
+    if (fetchedDeals.length === 0) return;
+    setDealChanges(savedSearchService.compareWithSeen(fetchedDeals, search.seenDeals));
+    setSavedSearches(prev => prev.map(s => s.id === search.id ? savedSearchService.markSeen(s, fetchedDeals) : s));
+  };
+
+  const handleSetSavedSearchAutoRun = (searchId: string, autoRunMinutes: number | undefined) => {
+    setSavedSearches(prev => prev.map(search => search.id === searchId ? { ...search, autoRunMinutes } : search));
   };
 
-  const handleVerifyDeal = async (deal: Deal) => {
+  const handleLoadMore = () => {
+    fetchDeals(userPreferences, selectedProviderIds, { pageSize, append: true });
+  };
+
+  // Simulated demo history would make the price check meaningless, so demo deals are verified without one.
+  // Scores are kept per deal so the results can be sorted by them.
+  const verifyWithHistory = useCallback(async (deal: Deal, options: RequestOptions = {}): Promise<DealVerification> => {
+    const history = isDemoDeal(deal) ? [] : await getPriceHistory(deal).catch(() => []);
+    const reputation = merchantRegistry.lookupMerchant(deal.merchant, merchantOverrides);
+    const verification = await geminiService.verifyDeal(deal, history, { ...options, locale }, reputation);
+    setVerificationScores(prev => ({ ...prev, [deal.id]: verification.score }));
+    return verification;
+  }, [locale, merchantOverrides]);
+
+  const handleShowPriceHistory = useCallback(async (deal: Deal) => {
+    setSelectedDealForHistory(deal);
+    setPriceHistoryData([]);
+    setIsDemoPriceHistory(isDemoDeal(deal));
+    try {
+      setPriceHistoryData(await loadPriceHistory(deal));
+    } catch (err) {
+      console.error("Failed to load price history:", err);
+    }
+  }, []);
+
+  const handleVerifyDeal = useCallback(async (deal: Deal) => {
+    verifyAbortRef.current?.abort();
+    const controller = new AbortController();
+    verifyAbortRef.current = controller;
     setSelectedDealForVerification(deal);
     setIsVerifying(true);
     setVerificationData(null);
-    if (apiKeyMissing) {
-        setVerificationData({ summary: "AI Verification is unavailable. API_KEY is missing.", score: 0 });
+    setVerificationRetry(null);
+    try {
+      setVerificationData(await verifyWithHistory(deal, { signal: controller.signal, onRetry: setVerificationRetry }));
+    } catch (err) {
+      if (!isAbortError(err)) console.error("Failed to verify deal:", err);
+    } finally {
+      if (verifyAbortRef.current === controller) {
         setIsVerifying(false);
-        return;
+        setVerificationRetry(null);
+      }
     }
+  }, [verifyWithHistory]);
+
+  const handleCloseVerification = useCallback(() => {
+    verifyAbortRef.current?.abort();
+    verifyAbortRef.current = null;
+    setSelectedDealForVerification(null);
+    setIsVerifying(false);
+    setVerificationRetry(null);
+  }, []);
+
+  const handleToggleCompare = (deal: Deal) => {
+    setComparedDealIds(prev => prev.includes(deal.id)
+      ? prev.filter(id => id !== deal.id)
+      : prev.length < MAX_COMPARED_DEALS ? [...prev, deal.id] : prev);
+  };
+
+  const describeForComparison = async (deal: Deal): Promise<ComparedDeal> => {
+    const history = isDemoDeal(deal) ? [] : await getPriceHistory(deal).catch(() => []);
+    return {
+      deal,
+      merchant: merchantRegistry.lookupMerchant(deal.merchant, merchantOverrides),
+      verificationScore: scoreOf(deal),
+      isVerified: deal.id in verificationScores,
+      priceTrend: analyzePriceHistory(history)?.trend ?? null,
+      historyPoints: history.length,
+    };
+  };
+
+  // The table is shown as soon as the price histories are read; the AI verdict fills in below it.
+  const handleCompareDeals = async () => {
+    compareAbortRef.current?.abort();
+    const controller = new AbortController();
+    compareAbortRef.current = controller;
+    const selectedDeals = comparedDealIds.map(id => deals.find(deal => deal.id === id)).filter((deal): deal is Deal => !!deal);
+    setIsComparisonOpen(true);
+    setComparedDeals([]);
+    setComparisonResult(null);
+    setComparisonRetry(null);
+    setIsComparing(true);
     try {
-      const verification = await geminiService.verifyDeal(deal);
-      setVerificationData(verification);
+      const rows = await Promise.all(selectedDeals.map(describeForComparison));
+      if (controller.signal.aborted) return;
+      setComparedDeals(rows);
+      setComparisonResult(await geminiService.compareDeals(rows, { signal: controller.signal, onRetry: setComparisonRetry, locale }));
     } catch (err) {
-      setVerificationData({ summary: "Failed to get verification from AI.", score: 0 });
+      if (!isAbortError(err)) console.error("Failed to compare deals:", err);
     } finally {
-      setIsVerifying(false);
+      if (compareAbortRef.current === controller) {
+        setIsComparing(false);
+        setComparisonRetry(null);
+      }
+    }
+  };
+
+  const handleCloseComparison = () => {
+    compareAbortRef.current?.abort();
+    compareAbortRef.current = null;
+    setIsComparisonOpen(false);
+    setIsComparing(false);
+    setComparisonRetry(null);
+  };
+
+  // The open modal is part of the URL; a deep-linked deal keeps its place there until the results it is looked up in arrive.
+  const openDealLink: DealLink | null = selectedDealForVerification
+    ? { dealId: selectedDealForVerification.id, view: 'verify' }
+    : selectedDealForHistory ? { dealId: selectedDealForHistory.id, view: 'history' } : pendingDealLink;
+  const urlState: UrlState = { preferences: userPreferences, providerIds: selectedProviderIds, pageSize, sortKey, filters: resultFilters, dealLink: openDealLink };
+  const urlQuery = encodeUrlState(urlState);
+
+  // A new search or a newly opened deal gets its own history entry; sorting, filtering and closing a modal replace the current one.
+  // urlState is a new object every render, so the effect works from its query string and only runs when that changes.
+  useEffect(() => {
+    const previous = urlStateRef.current;
+    const next = readUrlState(urlQuery);
+    urlStateRef.current = next;
+    if (urlQuery === window.location.search) return;
+    const url = `${window.location.pathname}${urlQuery}${window.location.hash}`;
+    const isNewEntry = !isSameSearch(previous, next) || (!!next.dealLink && !isSameDealLink(previous.dealLink, next.dealLink));
+    if (isNewEntry) window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+  }, [urlQuery]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const next = readUrlState();
+      const current = urlStateRef.current;
+      if (!isSameSearch(current, next)) {
+        setUserPreferences(next.preferences);
+        setSelectedProviderIds(next.providerIds);
+        setPageSize(next.pageSize);
+        fetchDeals(next.preferences, next.providerIds, { pageSize: next.pageSize, filters: next.filters });
+      } else {
+        setResultFilters(next.filters);
+      }
+      setSortKey(next.sortKey);
+      if (!isSameDealLink(current.dealLink, next.dealLink)) {
+        setSelectedDealForHistory(null);
+        handleCloseVerification();
+        setPendingDealLink(next.dealLink);
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [fetchDeals, handleCloseVerification]);
+
+  // A deep link is resolved once the search has finished; a watched deal opens even if the search no longer returns it.
+  useEffect(() => {
+    if (!pendingDealLink || isLoading) return;
+    setPendingDealLink(null);
+    const deal = deals.find(d => d.id === pendingDealLink.dealId) ?? watchlist.find(item => item.dealId === pendingDealLink.dealId)?.deal;
+    if (!deal) {
+      setError(prev => prev ?? t('app.linkedDealMissing'));
+      return;
+    }
+    if (pendingDealLink.view === 'history') {
+      handleShowPriceHistory(deal);
+    } else {
+      handleVerifyDeal(deal);
+    }
+  }, [pendingDealLink, isLoading, deals, watchlist, t, handleShowPriceHistory, handleVerifyDeal]);
+
+  const exportFileName = (kind: string, extension: string): string => `dealdigger-${kind}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  const handleExportResults = (format: 'csv' | 'json') => {
+    const exported = dataTransfer.toExportedDeals(visibleDeals, verificationScores);
+    if (format === 'csv') {
+      dataTransfer.downloadText(exportFileName('deals', 'csv'), dataTransfer.exportedDealsToCsv(exported), 'text/csv');
+    } else {
+      dataTransfer.downloadText(exportFileName('deals', 'json'), JSON.stringify(exported, null, 2), 'application/json');
+    }
+    setDataMessage({ tone: 'success', text: t('data.exported', { count: exported.length, format: format.toUpperCase() }) });
+  };
+
+  const handleExportBackup = () => {
+    const backup = dataTransfer.createBackup({ savedSearches, watchlist, profile, merchantOverrides });
+    dataTransfer.downloadText(exportFileName('backup', 'json'), JSON.stringify(backup, null, 2), 'application/json');
+    setDataMessage({ tone: 'success', text: t('data.backupDownloaded') });
+  };
+
+  const handleImportBackup = async (file: File) => {
+    try {
+      const data = dataTransfer.parseBackup(await file.text(), locale);
+      setSavedSearches(data.savedSearches);
+      setWatchlist(data.watchlist);
+      setProfile(data.profile);
+      setMerchantOverrides(data.merchantOverrides);
+      setDataMessage({
+        tone: 'success',
+        text: t('data.restored', {
+          searches: data.savedSearches.length,
+          watched: data.watchlist.length,
+          ratings: preferenceProfile.feedbackCount(data.profile),
+          merchants: Object.keys(data.merchantOverrides).length,
+        }),
+      });
+    } catch (err) {
+      console.error("Failed to restore backup:", err);
+      setDataMessage({ tone: 'error', text: (err as Error).message });
+    }
+  };
+
+  // The imported list becomes a selected source straight away; the next search includes it.
+  const handleImportDeals = async (file: File) => {
+    try {
+      const { deals: importedDeals, validation } = parseImportedDealFile(await file.text(), file.name, file.type);
+      if (importedDeals.length === 0) {
+        setDataMessage({ tone: 'error', text: t('data.noUsableDeals', { file: file.name }) });
+        return;
+      }
+      saveImportedDeals(importedDeals);
+      setImportedDealCount(importedDeals.length);
+      setSelectedProviderIds(prev => prev.includes(IMPORTED_PROVIDER_ID) ? prev : [...prev, IMPORTED_PROVIDER_ID]);
+      const skipped = validation?.rejected.length ?? 0;
+      setDataMessage({
+        tone: 'success',
+        text: t('data.imported', { count: importedDeals.length, skipped: skipped > 0 ? t('data.importSkipped', { count: skipped }) : '' }),
+      });
+    } catch (err) {
+      console.error("Failed to import deals:", err);
+      setDataMessage({ tone: 'error', text: t('data.importFailed', { file: file.name, message: (err as Error).message }) });
     }
   };
 
+  const handleClearImportedDeals = () => {
+    saveImportedDeals([]);
+    setImportedDealCount(0);
+    setSelectedProviderIds(prev => prev.length > 1 ? prev.filter(id => id !== IMPORTED_PROVIDER_ID) : prev);
+    setDataMessage(null);
+  };
+
+  // Every assistant action that changes what the user sees hands back an undo that restores the previous state.
+  const chatToolHandlers: ChatToolHandlers = {
+    findDeal: (dealId) => dealsRef.current.find(deal => deal.id === dealId) ?? watchlistRef.current.find(item => item.dealId === dealId)?.deal,
+    // The search replaces the results like one the user started, so undo also restores their filters and compare selection.
+    searchDeals: async (prefs) => {
+      const previousPreferences = userPreferencesRef.current;
+      const previousDeals = dealsRef.current;
+      const previousProviderIds = selectedProviderIdsRef.current;
+      const previousPageSize = pageSizeRef.current;
+      const previousFilters = resultFiltersRef.current;
+      const previousComparedDealIds = comparedDealIdsRef.current;
+      setUserPreferences(prefs);
+      const fetchedDeals = await fetchDeals(prefs, previousProviderIds, { pageSize: previousPageSize });
+      dealsRef.current = fetchedDeals; // A follow-up tool call in the same reply may refer to the new deals before the next render.
+      return {
+        deals: fetchedDeals,
+        undo: () => {
+          setUserPreferences(previousPreferences);
+          setSelectedProviderIds(previousProviderIds);
+          setPageSize(previousPageSize);
+          setResultFilters(previousFilters);
+          setComparedDealIds(previousComparedDealIds);
+          setDeals(previousDeals);
+          setError(null);
+          setGroundingMetadata(undefined);
+          setValidationReport(undefined);
+        },
+      };
+    },
+    verifyDeal: verifyWithHistory,
+    getPriceHistory: async (deal) => ({ history: await loadPriceHistory(deal), simulated: isDemoDeal(deal) }),
+    addToWatchlist: (deal) => {
+      if (watchlistRef.current.some(item => item.dealId === deal.id)) return null;
+      setWatchlist(prev => [...prev, watchlistService.createWatchlistItem(deal)]);
+      return { undo: () => setWatchlist(prev => prev.filter(item => item.dealId !== deal.id)) };
+    },
+  };
+
+  // Deals from blocked merchants stay in state so unblocking brings them straight back.
+  const merchantReputations = useMemo(
+    () => new Map(deals.map(deal => [deal.id, merchantRegistry.lookupMerchant(deal.merchant, merchantOverrides)])),
+    [deals, merchantOverrides]
+  );
+  const hiddenDealCount = deals.filter(deal => merchantReputations.get(deal.id)?.hidden).length;
+  const unhiddenDeals = showHiddenDeals ? deals : deals.filter(deal => !merchantReputations.get(deal.id)?.hidden);
+  const searchOrigin = userPreferences.place?.coordinates;
+  const facets = computeFacets(unhiddenDeals, searchOrigin);
+  // Deals that were never verified are sorted by what the local checks alone say about them, worked out once per result set.
+  const localScores = useMemo(
+    () => new Map(deals.map(deal => [deal.id, combineVerification(runLocalChecks(deal, [], merchantReputations.get(deal.id)), null).score])),
+    [deals, merchantReputations]
+  );
+  const scoreOf = (deal: Deal): number | null =>
+    deal.id in verificationScores ? verificationScores[deal.id] : localScores.get(deal.id) ?? null;
+  const visibleDeals = sortDeals(applyFilters(unhiddenDeals, resultFilters, searchOrigin), sortKey, scoreOf);
+
+  const renderValidationNotice = () => {
+    if (!validationReport || validationReport.rejected.length === 0) return null;
+    const { received, accepted, rejected } = validationReport;
+    return (
+      <div className="my-4 p-3 bg-orange-50 border-l-4 border-orange-400 text-orange-800 rounded-md">
+        <p className="font-semibold">{t('app.validation.usable', { accepted, received })}</p>
+        <details className="text-sm mt-1">
+          <summary className="cursor-pointer">{t('app.validation.why', { count: rejected.length })}</summary>
+          <ul className="list-disc list-inside mt-1 space-y-0.5">
+            {rejected.map(issue => (
+              <li key={`${issue.providerId}-${issue.index}`}>
+                {issue.title ? `"${issue.title}"` : t('app.validation.item', { number: issue.index + 1 })}
+                {issue.providerId && <span className="text-orange-600"> ({getProviderLabel(issue.providerId, locale)})</span>}
+                : {issue.reasons.join(', ')}
+              </li>
+            ))}
+          </ul>
+        </details>
+      </div>
+    );
+  };
+
   const renderGroundingSources = () => {
     if (!groundingMetadata || !groundingMetadata.groundingChunks || groundingMetadata.groundingChunks.length === 0) {
       return null;
@@ -112,33 +737,18 @@ const App: React.FC = () => {
     );
   
     if (validChunks.length === 0) return null;
-  
-    const allowedSchemes = ['http:', 'https:', '/']; // Allow http, https, and relative paths starting with /
 
     return (
       <div className="my-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
         <h3 className="text-md font-semibold text-blue-700 mb-2 flex items-center">
           <LinkIcon className="w-5 h-5 mr-2" />
-          Sources (from Google Search):
+          {t('app.sources.title')}
         </h3>
         <ul className="list-disc list-inside space-y-1">
           {validChunks.map((chunk, index) => {
             const source = chunk.web || chunk.retrievedContext!; // Filter ensures one part is valid and has uri & title
             
-            let isSafeUri = false;
-            try {
-              if (source.uri.startsWith('/')) { // Relative path
-                isSafeUri = true;
-              } else {
-                const url = new URL(source.uri); // Check if it's a valid URL structure
-                isSafeUri = allowedSchemes.includes(url.protocol);
-              }
-            } catch (e) {
-              // Invalid URL structure, so not safe by default
-              isSafeUri = false;
-            }
-            
-            if (isSafeUri) {
+            if (isSafeUrl(source.uri!)) {
               return (
                 <li key={index} className="text-sm">
                   <a
@@ -157,10 +767,10 @@ const App: React.FC = () => {
               return (
                 <li key={index} className="text-sm">
                   <span 
-                    title={`Blocked URI: Scheme not allowed or invalid URL. Original URI: ${source.uri}`}
+                    title={t('app.sources.blocked', { uri: source.uri ?? '' })}
                     className="cursor-help"
                   >
-                    {source.title} <em className="text-gray-500 text-xs">(Link restricted for security)</em>
+                    {source.title} <em className="text-gray-500 text-xs">{t('app.sources.restricted')}</em>
                   </span>
                 </li>
               );
@@ -180,69 +790,256 @@ const App: React.FC = () => {
             <SparklesIcon className="w-10 h-10 text-transparent bg-clip-text bg-gradient-to-r from-purple-500 to-pink-500 mr-3" />
             <h1 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-600 to-blue-600">{APP_TITLE}</h1>
           </div>
-          {/* Could add a small chat icon or settings here later */}
+          <div className="flex items-center space-x-2">
+            <select
+              aria-label={t('app.language')}
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as LocaleCode)}
+              className="px-2 py-2 rounded-lg text-sm font-semibold text-purple-700 bg-purple-100 hover:bg-purple-200 focus:outline-none focus:ring-2 focus:ring-purple-400"
+            >
+              {SUPPORTED_LOCALES.map(option => <option key={option.code} value={option.code}>{option.label}</option>)}
+            </select>
+            <button
+              onClick={() => setIsChatOpen(!isChatOpen)}
+              className="flex items-center px-3 py-2 rounded-lg text-sm font-semibold text-purple-700 bg-purple-100 hover:bg-purple-200 transition duration-150"
+            >
+              <ChatBubbleIcon className="w-5 h-5 mr-1" /> {t('app.assistant')}
+            </button>
+            <button
+              onClick={() => setIsDataPanelOpen(true)}
+              className="flex items-center px-3 py-2 rounded-lg text-sm font-semibold text-purple-700 bg-purple-100 hover:bg-purple-200 transition duration-150"
+            >
+              <ArrowsUpDownIcon className="w-5 h-5 mr-1" /> {t('app.data')}
+            </button>
+            <button
+              onClick={() => setIsSavedSearchesOpen(true)}
+              className="flex items-center px-3 py-2 rounded-lg text-sm font-semibold text-purple-700 bg-purple-100 hover:bg-purple-200 transition duration-150"
+            >
+              <BookmarkIcon className="w-5 h-5 mr-1" /> {t('app.saved', { count: savedSearches.length })}
+            </button>
+            <button
+              onClick={() => setIsWatchlistOpen(true)}
+              className="flex items-center px-3 py-2 rounded-lg text-sm font-semibold text-purple-700 bg-purple-100 hover:bg-purple-200 transition duration-150"
+            >
+              <EyeIcon className="w-5 h-5 mr-1" /> {t('app.watchlist', { count: watchlist.length })}
+            </button>
+          </div>
         </div>
       </header>
 
       <main className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <p className="text-center text-lg text-gray-300 mb-8 max-w-2xl mx-auto">
-          Your intelligent assistant for discovering personalized, high-value deals from across the web. 
-          Use the filters below to find exactly what you're looking for!
+          {t('app.tagline')}
         </p>
 
-        <SearchBarAndFilters onSearch={handleSearch} initialPreferences={userPreferences} isLoading={isLoading} />
+        <SearchBarAndFilters
+          onSearch={handleSearch}
+          initialPreferences={userPreferences}
+          initialProviderIds={selectedProviderIds}
+          initialPageSize={pageSize}
+          isLoading={isLoading || isLoadingMore}
+        />
 
         {apiKeyMissing && (
           <div className="my-4 p-3 bg-yellow-100 border-l-4 border-yellow-500 text-yellow-700 rounded-md">
-            <p className="font-semibold">Notice:</p>
-            <p>{MOCK_API_KEY_NOTICE}</p>
+            <p className="font-semibold">{t('app.notice')}</p>
+            <p>{t('app.apiKeyMissing')}</p>
           </div>
         )}
         {error && !apiKeyMissing && (
           <div className="my-4 p-3 bg-red-100 border-l-4 border-red-500 text-red-700 rounded-md">
-            <p className="font-semibold">Error:</p>
+            <p className="font-semibold">{t('app.error')}</p>
             <p>{error}</p>
           </div>
         )}
 
+        {cacheInfo && !isLoading && (
+          <div className="my-4 p-3 bg-blue-50 border-l-4 border-blue-400 text-blue-800 text-sm rounded-md">
+            {t(cacheInfo.stale ? 'app.cachedResultsStale' : 'app.cachedResults', { date: formatDateTime(cacheInfo.storedAt, locale) })}
+          </div>
+        )}
+        {renderValidationNotice()}
         {renderGroundingSources()}
 
-        {isLoading ? (
-          <LoadingSpinner />
-        ) : deals.length === 0 && !error ? (
+        {isLoading && (
+          <div className="flex items-center justify-center space-x-4">
+            {isStreamingDeals ? (
+              <p className="text-sm text-gray-300">{t('app.streaming', { count: deals.length })}</p>
+            ) : (
+              <LoadingSpinner message={searchRetry ? describeRetry(searchRetry, locale) : undefined} />
+            )}
+            <button onClick={handleStopSearch} className="flex items-center text-sm text-gray-300 hover:text-white border border-gray-500 rounded-md px-3 py-1">
+              <StopIcon className="w-4 h-4 mr-1" /> {t('common.stop')}
+            </button>
+          </div>
+        )}
+        {isSearchStopped && !isLoading && (
+          <div className="my-4 p-3 bg-blue-50 border-l-4 border-blue-400 text-blue-800 text-sm rounded-md">
+            {t('app.stopped', { count: deals.length })}
+          </div>
+        )}
+
+        {isLoading && !isStreamingDeals ? null : unhiddenDeals.length === 0 && hiddenDealCount === 0 && !error ? (
           <div className="text-center py-12">
             <TagIcon className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-            <p className="text-xl text-gray-400">No deals found matching your criteria. Try adjusting your search!</p>
+            <p className="text-xl text-gray-400">{t('app.noDeals')}</p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {deals.map(deal => (
-              <DealCard 
-                key={deal.id} 
-                deal={deal} 
-                onVerify={handleVerifyDeal}
-                onShowPriceHistory={handleShowPriceHistory}
+          <>
+            {preferenceProfile.feedbackCount(profile) > 0 && (
+              <div className="mb-4 flex items-center justify-end text-sm text-gray-300">
+                {t('app.rankedBy', { count: preferenceProfile.feedbackCount(profile) })}
+                <button onClick={handleResetProfile} className="ml-2 text-purple-300 hover:text-white underline">
+                  {t('app.resetProfile')}
+                </button>
+              </div>
+            )}
+            {hiddenDealCount > 0 && (
+              <div className="mb-4 flex items-center justify-end text-sm text-gray-300">
+                {t(showHiddenDeals ? 'app.blockedShown' : 'app.blockedHidden', { count: hiddenDealCount })}
+                <button onClick={() => setShowHiddenDeals(!showHiddenDeals)} className="ml-2 text-purple-300 hover:text-white underline">
+                  {showHiddenDeals ? t('app.hideThem') : t('app.showThem')}
+                </button>
+              </div>
+            )}
+            {unhiddenDeals.length > 0 && (
+              <ResultFilters
+                facets={facets}
+                filters={resultFilters}
+                onFiltersChange={setResultFilters}
+                sortKey={sortKey}
+                onSortChange={setSortKey}
+                shownCount={visibleDeals.length}
+                totalCount={unhiddenDeals.length}
               />
-            ))}
-          </div>
+            )}
+            {unhiddenDeals.length > 0 && visibleDeals.length === 0 && (
+              <p className="text-center text-gray-400 py-8">{t('app.noFilterMatches')}</p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {visibleDeals.map(deal => (
+                <DealCard 
+                  key={deal.id} 
+                  deal={deal} 
+                  onVerify={handleVerifyDeal}
+                  onShowPriceHistory={handleShowPriceHistory}
+                  isWatched={watchlist.some(item => item.dealId === deal.id)}
+                  onToggleWatch={handleToggleWatch}
+                  onFeedback={handleFeedback}
+                  merchantReputation={merchantReputations.get(deal.id)!}
+                  onSetMerchantTrust={handleSetMerchantTrust}
+                  change={dealChanges[deal.id]}
+                  isCompared={comparedDealIds.includes(deal.id)}
+                  canCompare={comparedDealIds.length < MAX_COMPARED_DEALS}
+                  onToggleCompare={handleToggleCompare}
+                  distanceKm={dealDistanceKm(deal, searchOrigin)}
+                />
+              ))}
+            </div>
+            {!isLoading && deals.length > 0 && (
+              <div className="mt-8 flex items-center justify-center space-x-4">
+                {isLoadingMore ? (
+                  <>
+                    <p className="text-sm text-gray-300">{t('app.loadingMore')}</p>
+                    <button onClick={handleStopSearch} className="flex items-center text-sm text-gray-300 hover:text-white border border-gray-500 rounded-md px-3 py-1">
+                      <StopIcon className="w-4 h-4 mr-1" /> {t('common.stop')}
+                    </button>
+                  </>
+                ) : hasMoreDeals ? (
+                  <button onClick={handleLoadMore} className="px-6 py-2.5 rounded-lg text-white font-medium bg-purple-600 hover:bg-purple-700 transition duration-150">
+                    {t('app.loadMore')}
+                  </button>
+                ) : (
+                  <p className="text-sm text-gray-400">{t('app.noMoreDeals')}</p>
+                )}
+              </div>
+            )}
+          </>
         )}
       </main>
 
       <PriceHistoryModal 
         deal={selectedDealForHistory} 
         priceHistory={priceHistoryData} 
+        isDemoData={isDemoPriceHistory}
         onClose={() => setSelectedDealForHistory(null)} 
       />
+      {comparedDealIds.length > 0 && !isComparisonOpen && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 bg-white rounded-full shadow-2xl px-5 py-3 flex items-center space-x-4 text-sm">
+          <span className="text-gray-700">{t('app.compare.selected', { count: comparedDealIds.length, max: MAX_COMPARED_DEALS })}</span>
+          <button
+            onClick={handleCompareDeals}
+            disabled={comparedDealIds.length < MIN_COMPARED_DEALS}
+            title={comparedDealIds.length < MIN_COMPARED_DEALS ? t('app.compare.minimum', { min: MIN_COMPARED_DEALS }) : undefined}
+            className="flex items-center px-4 py-1.5 rounded-full font-semibold text-white bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition duration-150"
+          >
+            <ScaleIcon className="w-4 h-4 mr-1" /> {t('app.compare.button')}
+          </button>
+          <button onClick={() => setComparedDealIds([])} className="text-gray-500 hover:text-gray-700 underline">{t('common.clear')}</button>
+        </div>
+      )}
+      <ComparisonModal
+        isOpen={isComparisonOpen}
+        comparedDeals={comparedDeals}
+        result={comparisonResult}
+        isLoading={isComparing}
+        loadingMessage={comparisonRetry ? describeRetry(comparisonRetry, locale) : undefined}
+        onClose={handleCloseComparison}
+      />
       <DealVerificationModal 
         deal={selectedDealForVerification}
         verification={verificationData}
         isLoading={isVerifying}
-        onClose={() => setSelectedDealForVerification(null)}
+        loadingMessage={verificationRetry ? describeRetry(verificationRetry, locale) : undefined}
+        onClose={handleCloseVerification}
+      />
+
+      <WatchlistPanel
+        isOpen={isWatchlistOpen}
+        items={watchlist}
+        isChecking={isCheckingWatchlist}
+        notificationPermission={notificationPermission}
+        onUpdateThresholds={handleUpdateWatchThresholds}
+        onRemove={(dealId) => setWatchlist(prev => prev.filter(item => item.dealId !== dealId))}
+        onCheckNow={checkWatchlist}
+        onEnableNotifications={handleEnableNotifications}
+        onClose={() => setIsWatchlistOpen(false)}
+      />
+      <SavedSearchesPanel
+        isOpen={isSavedSearchesOpen}
+        searches={savedSearches}
+        currentPreferences={userPreferences}
+        onSaveCurrent={handleSaveCurrentSearch}
+        onRun={handleRunSavedSearch}
+        onSetAutoRun={handleSetSavedSearchAutoRun}
+        onRemove={(searchId) => setSavedSearches(prev => prev.filter(search => search.id !== searchId))}
+        onClose={() => setIsSavedSearchesOpen(false)}
+      />
+      <DataPanel
+        isOpen={isDataPanelOpen}
+        resultCount={visibleDeals.length}
+        importedDealCount={importedDealCount}
+        message={dataMessage}
+        onExportResults={handleExportResults}
+        onExportBackup={handleExportBackup}
+        onImportBackup={handleImportBackup}
+        onImportDeals={handleImportDeals}
+        onClearImportedDeals={handleClearImportedDeals}
+        onClose={() => { setIsDataPanelOpen(false); setDataMessage(null); }}
+      />
+      <ChatPanel
+        isOpen={isChatOpen}
+        deals={visibleDeals}
+        onVerify={handleVerifyDeal}
+        onShowPriceHistory={handleShowPriceHistory}
+        toolHandlers={chatToolHandlers}
+        onClose={() => setIsChatOpen(false)}
       />
+      <AlertToasts alerts={alerts} onDismiss={(alertId) => setAlerts(prev => prev.filter(a => a.id !== alertId))} />
 
       <footer className="bg-slate-800 text-gray-400 py-8 mt-12 text-center">
-        <p>&copy; {new Date().getFullYear()} {APP_TITLE}. All deals generated by AI for demonstration.</p>
-        <p className="text-xs mt-1">Powered by React, Tailwind CSS, and Google Gemini API.</p>
+        <p>&copy; {new Date().getFullYear()} {APP_TITLE}. {t('app.footer.disclaimer')}</p>
+        <p className="text-xs mt-1">{t('app.footer.poweredBy')}</p>
       </footer>
     </div>
   );
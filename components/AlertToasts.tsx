@@ -0,0 +1,33 @@
+import React from 'react';
+import { WatchlistAlert } from '../types';
+import { BellIcon, XCircleIcon } from './icons';
+import { useI18n } from './I18nProvider';
+
+interface AlertToastsProps {
+  alerts: WatchlistAlert[];
+  onDismiss: (alertId: string) => void;
+}
+
+const AlertToasts: React.FC<AlertToastsProps> = ({ alerts, onDismiss }) => {
+  const { t } = useI18n();
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="fixed top-20 right-4 z-50 space-y-2 w-full max-w-sm" role="status" aria-live="polite">
+      {alerts.map(alert => (
+        <div key={alert.id} className="bg-white border-l-4 border-green-500 rounded-lg shadow-lg p-3 flex items-start">
+          <BellIcon className="w-5 h-5 text-green-600 mr-2 flex-shrink-0 mt-0.5" />
+          <div className="flex-grow">
+            <p className="text-sm font-semibold text-gray-800">{t(alert.kind === 'saved-search' ? 'alerts.newDeals' : 'alerts.priceAlert', { title: alert.title })}</p>
+            <p className="text-xs text-gray-600">{alert.message}</p>
+          </div>
+          <button onClick={() => onDismiss(alert.id)} className="text-gray-400 hover:text-gray-600 ml-2">
+            <XCircleIcon className="w-5 h-5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AlertToasts;
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { render, screen, cleanup, fireEvent, waitFor } from '@testing-library/react';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import ChatPanel from './ChatPanel';
+import * as geminiService from '../services/geminiService';
+import { ChatToolHandlers } from '../services/chatTools';
+import { Deal } from '../types';
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  window.sessionStorage.clear();
+});
+
+const laptop: Deal = {
+  id: 'deal-laptop',
+  title: 'Acer Swift 3 Laptop',
+  description: 'Lightweight laptop.',
+  originalPrice: { amount: 899, currency: 'USD', raw: '$899' },
+  discountedPrice: { amount: 749, currency: 'USD', raw: '$749' },
+  merchant: 'BestBuy',
+  category: 'Electronics',
+};
+
+const createHandlers = (overrides: Partial<ChatToolHandlers> = {}): ChatToolHandlers => ({
+  findDeal: (dealId) => (dealId === laptop.id ? laptop : undefined),
+  searchDeals: async () => ({ deals: [], undo: () => {} }),
+  verifyDeal: async () => ({ summary: 'Looks fine.', status: 'complete', score: 4, factors: [] }),
+  getPriceHistory: async () => ({ history: [], simulated: false }),
+  addToWatchlist: () => null,
+  ...overrides,
+});
+
+describe('ChatPanel', () => {
+  it('streams the reply and turns deal references into links to the deal modals', async () => {
+    const streamSpy = vi.spyOn(geminiService, 'sendMessageToChatStream').mockImplementation(async (_message, _deals, onText) => {
+      onText('The best pick is');
+      const reply = 'The best pick is [[deal:deal-laptop]].';
+      onText(reply);
+      return reply;
+    });
+    const onVerify = vi.fn();
+
+    render(<ChatPanel isOpen deals={[laptop]} onVerify={onVerify} onShowPriceHistory={() => {}} toolHandlers={createHandlers()} onClose={() => {}} />);
+    fireEvent.change(screen.getByPlaceholderText(/ask about these deals/i), { target: { value: 'Best laptop under $800?' } });
+    fireEvent.click(screen.getByText('Send'));
+
+    await waitFor(() => expect(screen.getByText('Acer Swift 3 Laptop')).toBeDefined());
+    expect(streamSpy).toHaveBeenCalledWith('Best laptop under $800?', [laptop], expect.any(Function), [], expect.any(Function), expect.objectContaining({ signal: expect.any(AbortSignal) }));
+
+    await waitFor(() => expect(JSON.parse(window.sessionStorage.getItem('dealdigger.chat') ?? '[]')).toHaveLength(2));
+
+    fireEvent.click(screen.getByTitle('Verify this deal'));
+    expect(onVerify).toHaveBeenCalledWith(laptop);
+  });
+
+  it('shows the actions the assistant took and lets the user undo them', async () => {
+    const undo = vi.fn();
+    const addToWatchlist = vi.fn(() => ({ undo }));
+    vi.spyOn(geminiService, 'sendMessageToChatStream').mockImplementation(async (_message, _deals, onText, _history, executeTool) => {
+      const response = await executeTool!({ name: 'add_to_watchlist', args: { dealId: 'deal-laptop' } });
+      expect(response).toEqual({ added: true });
+      onText('Done.');
+      return 'Done.';
+    });
+
+    render(<ChatPanel isOpen deals={[laptop]} onVerify={() => {}} onShowPriceHistory={() => {}} toolHandlers={createHandlers({ addToWatchlist })} onClose={() => {}} />);
+    fireEvent.change(screen.getByPlaceholderText(/ask about these deals/i), { target: { value: 'Watch the laptop' } });
+    fireEvent.click(screen.getByText('Send'));
+
+    await waitFor(() => expect(screen.getByText('Added "Acer Swift 3 Laptop" to your watchlist')).toBeDefined());
+    expect(addToWatchlist).toHaveBeenCalledWith(laptop);
+
+    fireEvent.click(screen.getByText('Undo'));
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('Undone')).toBeDefined();
+    expect(screen.queryByText('Undo')).toBeNull();
+  });
+
+  it('stops the streaming reply when the panel is closed', async () => {
+    let signal: AbortSignal | undefined;
+    vi.spyOn(geminiService, 'sendMessageToChatStream').mockImplementation(async (_message, _deals, onText, _history, _executeTool, options) => {
+      signal = options?.signal;
+      onText('Thinking');
+      return 'Thinking';
+    });
+    const props = { deals: [laptop], onVerify: () => {}, onShowPriceHistory: () => {}, toolHandlers: createHandlers(), onClose: () => {} };
+
+    const { rerender } = render(<ChatPanel isOpen {...props} />);
+    fireEvent.change(screen.getByPlaceholderText(/ask about these deals/i), { target: { value: 'Best laptop?' } });
+    fireEvent.click(screen.getByText('Send'));
+    await waitFor(() => expect(signal).toBeDefined());
+    expect(signal!.aborted).toBe(false);
+
+    rerender(<ChatPanel isOpen={false} {...props} />);
+    expect(signal!.aborted).toBe(true);
+  });
+});
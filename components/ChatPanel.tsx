@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatAction, ChatMessage, ChatToolCall, Deal, RetryInfo } from '../types';
+import { CHAT_SESSION_STORAGE_KEY } from '../constants';
+import * as geminiService from '../services/geminiService';
+import { ChatToolHandlers, executeChatTool } from '../services/chatTools';
+import { readJson, writeJson } from '../services/storage';
+import { describeRetry } from '../services/requestControl';
+import { XCircleIcon, ChatBubbleIcon, CheckBadgeIcon, ChartBarIcon, BoltIcon } from './icons';
+import { useI18n } from './I18nProvider';
+
+interface ChatPanelProps {
+  isOpen: boolean;
+  deals: Deal[]; // Currently displayed deals, sent to the model as context
+  onVerify: (deal: Deal) => void;
+  onShowPriceHistory: (deal: Deal) => void;
+  toolHandlers: ChatToolHandlers; // What the assistant's tool calls run against
+  onClose: () => void;
+}
+
+const DEAL_REFERENCE_REGEX = /\[\[deal:([^\]\s]+)\]\]/g;
+
+const createId = (): string => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createMessage = (role: ChatMessage['role'], text: string): ChatMessage => ({
+  id: createId(),
+  role,
+  text,
+  createdAt: new Date().toISOString(),
+});
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ isOpen, deals, onVerify, onShowPriceHistory, toolHandlers, onClose }) => {
+  const { locale, t } = useI18n();
+  const [messages, setMessages] = useState<ChatMessage[]>(() => readJson<ChatMessage[]>(CHAT_SESSION_STORAGE_KEY, [], 'session'));
+  const [input, setInput] = useState('');
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [pendingActions, setPendingActions] = useState<ChatAction[]>([]);
+  const [retryInfo, setRetryInfo] = useState<RetryInfo | null>(null);
+  const undoCallbacks = useRef(new Map<string, () => void>());
+  const abortRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    writeJson(CHAT_SESSION_STORAGE_KEY, messages, 'session');
+  }, [messages]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView?.({ behavior: 'smooth' });
+  }, [messages, streamingText, pendingActions]);
+
+  // Stop a reply that is still streaming when the panel is closed or goes away; closing only hides it.
+  useEffect(() => {
+    if (!isOpen) abortRef.current?.abort();
+  }, [isOpen]);
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const isSending = streamingText !== null;
+
+  const handleSend = async (event?: React.FormEvent<HTMLFormElement>) => {
+    event?.preventDefault();
+    const text = input.trim();
+    if (!text || isSending) return;
+    const userMessage = createMessage('user', text);
+    const history = messages;
+    setMessages(prev => [...prev, userMessage]);
+    setInput('');
+    setStreamingText('');
+    setPendingActions([]);
+    const actions: ChatAction[] = [];
+    const executeTool = async (call: ChatToolCall) => {
+      const outcome = await executeChatTool(call, toolHandlers, locale);
+      const action: ChatAction = { id: createId(), toolName: call.name, summary: outcome.summary, status: outcome.failed ? 'failed' : 'done' };
+      if (outcome.undo) undoCallbacks.current.set(action.id, outcome.undo);
+      actions.push(action);
+      setPendingActions([...actions]);
+      return outcome.response;
+    };
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const onText = (textSoFar: string) => {
+      setRetryInfo(null);
+      setStreamingText(textSoFar);
+    };
+    const reply = await geminiService.sendMessageToChatStream(text, deals, onText, history, executeTool, { signal: controller.signal, onRetry: setRetryInfo, locale });
+    setMessages(prev => [...prev, actions.length > 0 ? { ...createMessage('model', reply), actions } : createMessage('model', reply)]);
+    setStreamingText(null);
+    setPendingActions([]);
+    setRetryInfo(null);
+  };
+
+  const handleReset = () => {
+    geminiService.resetChat();
+    undoCallbacks.current.clear();
+    setMessages([]);
+  };
+
+  const handleUndo = (messageId: string, actionId: string) => {
+    const undo = undoCallbacks.current.get(actionId);
+    if (!undo) return;
+    undo();
+    undoCallbacks.current.delete(actionId);
+    setMessages(prev => prev.map(message => message.id === messageId
+      ? { ...message, actions: message.actions?.map(action => action.id === actionId ? { ...action, status: 'undone' as const } : action) }
+      : message));
+  };
+
+  const renderActions = (actions: ChatAction[], messageId?: string) => (
+    <ul className="mb-2 space-y-1">
+      {actions.map(action => (
+        <li key={action.id} className={`flex items-center text-xs rounded px-2 py-1 bg-white border ${action.status === 'failed' ? 'border-red-200 text-red-700' : 'border-gray-200 text-gray-600'}`}>
+          <BoltIcon className="w-3.5 h-3.5 mr-1 flex-shrink-0 text-purple-500" />
+          <span className={`flex-grow ${action.status === 'undone' ? 'line-through text-gray-400' : ''}`}>{action.summary}</span>
+          {messageId && action.status === 'done' && undoCallbacks.current.has(action.id) && (
+            <button onClick={() => handleUndo(messageId, action.id)} className="ml-2 text-purple-600 hover:text-purple-800 font-medium">
+              {t('chat.undo')}
+            </button>
+          )}
+          {action.status === 'undone' && <span className="ml-2 text-gray-400">{t('chat.undone')}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+
+  // Turns [[deal:ID]] markers in a reply into chips that open the matching card's modals.
+  const renderText = (text: string) => {
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    for (const match of text.matchAll(DEAL_REFERENCE_REGEX)) {
+      const index = match.index ?? 0;
+      parts.push(text.slice(lastIndex, index));
+      const deal = deals.find(d => d.id === match[1]);
+      parts.push(deal ? (
+        <span key={`${index}-${deal.id}`} className="inline-flex items-center bg-purple-100 text-purple-800 rounded px-1 mx-0.5">
+          <span className="font-medium">{deal.title}</span>
+          <button onClick={() => onVerify(deal)} className="ml-1 hover:text-green-700" title={t('chat.verifyDeal')}>
+            <CheckBadgeIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => onShowPriceHistory(deal)} className="ml-0.5 hover:text-indigo-700" title={t('chat.showHistory')}>
+            <ChartBarIcon className="w-4 h-4" />
+          </button>
+        </span>
+      ) : (
+        <span key={`${index}-missing`} className="text-gray-400 italic" title={match[1]}>{t('chat.dealGone')}</span>
+      ));
+      lastIndex = index + match[0].length;
+    }
+    parts.push(text.slice(lastIndex));
+    return parts;
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-full max-w-md h-[32rem] bg-white rounded-xl shadow-2xl flex flex-col">
+      <div className="flex justify-between items-center p-3 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+          <ChatBubbleIcon className="w-6 h-6 mr-2 text-purple-600" /> {t('chat.title')}
+        </h2>
+        <div className="flex items-center space-x-2">
+          <button onClick={handleReset} disabled={isSending || messages.length === 0} className="text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50">
+            {t('chat.newConversation')}
+          </button>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <XCircleIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-grow overflow-y-auto p-3 space-y-3">
+        {messages.length === 0 && !isSending && (
+          <p className="text-sm text-gray-500 text-center mt-8">{t('chat.intro')}</p>
+        )}
+        {messages.map(message => (
+          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap ${message.role === 'user' ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-800'}`}>
+              {message.actions && renderActions(message.actions, message.id)}
+              {message.role === 'model' ? renderText(message.text) : message.text}
+            </div>
+          </div>
+        ))}
+        {isSending && (
+          <div className="flex justify-start">
+            <div className="max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap bg-gray-100 text-gray-800">
+              {pendingActions.length > 0 && renderActions(pendingActions)}
+              {streamingText ? renderText(streamingText) : <span className="text-gray-400">{retryInfo ? describeRetry(retryInfo, locale) : t('chat.thinking')}</span>}
+            </div>
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSend} className="p-3 border-t border-gray-200 flex space-x-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={t('chat.placeholder')}
+          className="flex-grow px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          type="submit"
+          disabled={isSending || input.trim() === ''}
+          className={`px-4 py-2 rounded-lg text-sm font-semibold text-white ${isSending || input.trim() === '' ? 'bg-gray-400 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700'} transition duration-150`}
+        >
+          {t('chat.send')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
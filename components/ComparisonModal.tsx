@@ -0,0 +1,134 @@
+import React from 'react';
+import { ComparedDeal, DealComparisonResult, MerchantTrustTier } from '../types';
+import { XCircleIcon, ScaleIcon } from './icons';
+import LoadingSpinner from './LoadingSpinner';
+import { discountPercentage, formatAmount, formatMoney, savingsAmount } from '../services/money';
+import { MessageKey, formatNumber } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface ComparisonModalProps {
+  isOpen: boolean;
+  comparedDeals: ComparedDeal[];
+  result: DealComparisonResult | null;
+  isLoading: boolean;
+  loadingMessage?: string; // e.g. while a failed request is retried
+  onClose: () => void;
+}
+
+const TIER_STYLES: Record<MerchantTrustTier, { label: MessageKey; className: string }> = {
+  trusted: { label: 'merchant.trusted', className: 'text-green-700' },
+  unknown: { label: 'merchant.unknown', className: 'text-gray-500' },
+  suspicious: { label: 'merchant.suspicious', className: 'text-orange-700' },
+  blocked: { label: 'merchant.blocked', className: 'text-red-700' },
+};
+
+const TREND_LABELS: Record<NonNullable<ComparedDeal['priceTrend']>['direction'], MessageKey> = { rising: 'trend.rising', falling: 'trend.falling', flat: 'trend.flat' };
+
+const ComparisonModal: React.FC<ComparisonModalProps> = ({ isOpen, comparedDeals, result, isLoading, loadingMessage, onClose }) => {
+  const { locale, t } = useI18n();
+  if (!isOpen) return null;
+
+  const verdict = result?.verdict ?? null;
+  const tradeOffsOf = (dealId: string) => verdict?.tradeOffs.find(tradeOff => tradeOff.dealId === dealId);
+  const rows: { label: MessageKey; render: (compared: ComparedDeal) => React.ReactNode }[] = [
+    { label: 'compare.price', render: ({ deal }) => <span className="font-bold text-blue-600">{formatMoney(deal.discountedPrice, locale)}</span> },
+    { label: 'compare.originalPrice', render: ({ deal }) => formatMoney(deal.originalPrice, locale) },
+    { label: 'compare.discount', render: ({ deal }) => { const percent = discountPercentage(deal.originalPrice, deal.discountedPrice); return percent === null ? '–' : `${percent}%`; } },
+    { label: 'compare.savings', render: ({ deal }) => { const savings = savingsAmount(deal.originalPrice, deal.discountedPrice); return savings === null ? '–' : formatAmount(savings, deal.discountedPrice.currency, locale); } },
+    {
+      label: 'compare.merchant',
+      render: ({ deal, merchant }) => (
+        <>
+          {deal.merchant} <span className={`text-xs font-semibold ${TIER_STYLES[merchant.tier].className}`}>({t(TIER_STYLES[merchant.tier].label)})</span>
+        </>
+      ),
+    },
+    {
+      label: 'compare.verification',
+      render: ({ verificationScore, isVerified }) => verificationScore === null ? t('compare.unknown') : (
+        <>{verificationScore}/5 {!isVerified && <span className="text-xs text-gray-500">{t('compare.localChecksOnly')}</span>}</>
+      ),
+    },
+    {
+      label: 'compare.priceTrend',
+      render: ({ priceTrend, historyPoints }) => priceTrend === null ? <span className="text-gray-500">{t('compare.noHistory')}</span> : (
+        <>{t(TREND_LABELS[priceTrend.direction])} <span className="text-xs text-gray-500">{t('compare.trendDetail', { percent: formatNumber(priceTrend.percentPerWeek, locale, 1), count: historyPoints })}</span></>
+      ),
+    },
+  ];
+  if (verdict) {
+    rows.push(
+      { label: 'compare.pros', render: ({ deal }) => <ul className="list-disc list-inside text-green-700">{tradeOffsOf(deal.id)?.pros.map(pro => <li key={pro}>{pro}</li>)}</ul> },
+      { label: 'compare.cons', render: ({ deal }) => <ul className="list-disc list-inside text-red-700">{tradeOffsOf(deal.id)?.cons.map(con => <li key={con}>{con}</li>)}</ul> },
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 transition-opacity duration-300">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-semibold text-gray-800 flex items-center">
+            <ScaleIcon className="w-7 h-7 mr-2 text-purple-600" /> {t('compare.title')}
+          </h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <XCircleIcon className="w-7 h-7" />
+          </button>
+        </div>
+
+        {comparedDeals.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-gray-700 table-fixed">
+              <thead>
+                <tr>
+                  <th className="w-32"></th>
+                  {comparedDeals.map(({ deal }) => (
+                    <th key={deal.id} className={`p-2 text-left align-top font-medium ${verdict?.recommendedDealId === deal.id ? 'bg-green-50' : ''}`}>
+                      {verdict?.recommendedDealId === deal.id && (
+                        <span className="inline-block mb-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-green-600 text-white">{t('compare.recommended')}</span>
+                      )}
+                      <p className="text-gray-800 line-clamp-3">{deal.title}</p>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.label}>
+                    <th className="p-2 text-left align-top text-xs font-semibold text-gray-500 uppercase">{t(row.label)}</th>
+                    {comparedDeals.map(compared => (
+                      <td key={compared.deal.id} className={`p-2 align-top ${verdict?.recommendedDealId === compared.deal.id ? 'bg-green-50' : ''}`}>
+                        {row.render(compared)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {isLoading && <LoadingSpinner message={loadingMessage ?? t('compare.loading')} />}
+
+        {!isLoading && verdict && (
+          <div className="mt-4 bg-gray-50 p-4 rounded-lg">
+            <h3 className="font-semibold text-gray-800 mb-1">{t(verdict.offline ? 'compare.demoVerdict' : 'compare.verdict')}</h3>
+            <p className="text-sm text-gray-700 leading-relaxed">{verdict.summary}</p>
+            {!verdict.recommendedDealId && <p className="text-xs text-gray-500 mt-2">{t('compare.noClearWinner')}</p>}
+          </div>
+        )}
+        {!isLoading && result && !verdict && (
+          <p className="mt-4 text-sm text-orange-600">{t('compare.noVerdict', { reason: result.unavailableReason ?? t('common.unknownReason') })}</p>
+        )}
+
+        <button
+          onClick={onClose}
+          className="mt-6 w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-150 ease-in-out"
+        >
+          {t('common.close')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonModal;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { StatusMessage } from '../types';
+import { XCircleIcon, ArrowsUpDownIcon } from './icons';
+import { useI18n } from './I18nProvider';
+
+interface DataPanelProps {
+  isOpen: boolean;
+  resultCount: number;
+  importedDealCount: number;
+  message: StatusMessage | null; // Outcome of the last import or export
+  onExportResults: (format: 'csv' | 'json') => void;
+  onExportBackup: () => void;
+  onImportBackup: (file: File) => void;
+  onImportDeals: (file: File) => void;
+  onClearImportedDeals: () => void;
+  onClose: () => void;
+}
+
+const buttonClass = 'px-4 py-2 rounded-lg text-sm font-semibold text-purple-700 bg-purple-100 hover:bg-purple-200 transition duration-150 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// A file input styled as a button; the input is cleared after each pick so the same file can be chosen again.
+const FileButton: React.FC<{ label: string; accept: string; onFile: (file: File) => void }> = ({ label, accept, onFile }) => (
+  <label className={`${buttonClass} cursor-pointer inline-block`}>
+    {label}
+    <input
+      type="file"
+      accept={accept}
+      className="sr-only"
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onFile(file);
+      }}
+    />
+  </label>
+);
+
+const DataPanel: React.FC<DataPanelProps> = ({
+  isOpen,
+  resultCount,
+  importedDealCount,
+  message,
+  onExportResults,
+  onExportBackup,
+  onImportBackup,
+  onImportDeals,
+  onClearImportedDeals,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  if (!isOpen) return null;
+
+  return (
+    <aside className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-50 flex flex-col">
+      <div className="flex justify-between items-center p-4 border-b border-gray-200">
+        <h2 className="text-2xl font-semibold text-gray-800 flex items-center">
+          <ArrowsUpDownIcon className="w-7 h-7 mr-2 text-purple-600" /> {t('data.title')}
+        </h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <XCircleIcon className="w-7 h-7" />
+        </button>
+      </div>
+
+      <div className="flex-grow overflow-y-auto p-4 space-y-6">
+        {message && (
+          <p className={`p-3 rounded-md text-sm border-l-4 ${message.tone === 'error' ? 'bg-red-50 border-red-500 text-red-700' : 'bg-green-50 border-green-500 text-green-800'}`} role="status">
+            {message.text}
+          </p>
+        )}
+
+        <section className="space-y-2">
+          <h3 className="font-semibold text-gray-800">{t('data.results.title')}</h3>
+          <p className="text-sm text-gray-600">{t('data.results.description', { count: resultCount })}</p>
+          <div className="flex gap-2">
+            <button onClick={() => onExportResults('csv')} disabled={resultCount === 0} className={buttonClass}>{t('data.exportCsv')}</button>
+            <button onClick={() => onExportResults('json')} disabled={resultCount === 0} className={buttonClass}>{t('data.exportJson')}</button>
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="font-semibold text-gray-800">{t('data.backup.title')}</h3>
+          <p className="text-sm text-gray-600">{t('data.backup.description')}</p>
+          <div className="flex gap-2">
+            <button onClick={onExportBackup} className={buttonClass}>{t('data.backup.download')}</button>
+            <FileButton label={t('data.backup.restore')} accept=".json,application/json" onFile={onImportBackup} />
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="font-semibold text-gray-800">{t('data.import.title')}</h3>
+          <p className="text-sm text-gray-600">{t('data.import.description')}</p>
+          <div className="flex items-center gap-2">
+            <FileButton label={t('data.import.button')} accept=".csv,.json,text/csv,application/json" onFile={onImportDeals} />
+            {importedDealCount > 0 && (
+              <>
+                <span className="text-sm text-gray-600">{t('data.import.count', { count: importedDealCount })}</span>
+                <button onClick={onClearImportedDeals} className="text-xs text-red-500 hover:text-red-700">{t('common.remove')}</button>
+              </>
+            )}
+          </div>
+        </section>
+      </div>
+    </aside>
+  );
+};
+
+export default DataPanel;
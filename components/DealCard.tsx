@@ -1,25 +1,63 @@
 
-import React from 'react';
-import { Deal } from '../types';
-import { TagIcon, CheckBadgeIcon, ChartBarIcon } from './icons';
+import React, { useState } from 'react';
+import { Deal, DealChange, DealFulfillment, MerchantReputation } from '../types';
+import { TagIcon, MapPinIcon, CheckBadgeIcon, ChartBarIcon, EyeIcon, HandThumbUpIcon, HandThumbDownIcon, ArrowTopRightOnSquareIcon } from './icons';
+import { discountPercentage, formatMoney, hasAmount } from '../services/money';
+import { getProviderLabel } from '../services/dealProviders';
+import { isSafeUrl } from '../services/groundingSources';
+import { MessageKey, formatNumber } from '../services/i18n';
+import { useI18n } from './I18nProvider';
 
 interface DealCardProps {
   deal: Deal;
   onVerify: (deal: Deal) => void;
   onShowPriceHistory: (deal: Deal) => void;
+  isWatched: boolean;
+  onToggleWatch: (deal: Deal) => void;
+  onFeedback: (deal: Deal, liked: boolean | undefined) => void;
+  merchantReputation: MerchantReputation;
+  onSetMerchantTrust: (reputation: MerchantReputation, tier: 'trusted' | 'blocked' | undefined) => void;
+  change?: DealChange; // Set when the deal is new or repriced since the last run of a saved search
+  isCompared: boolean;
+  canCompare: boolean; // False once the comparison is full, for deals not already in it
+  onToggleCompare: (deal: Deal) => void;
+  distanceKm: number | null; // From the search location to the store, when both are known
 }
 
-const DealCard: React.FC<DealCardProps> = ({ deal, onVerify, onShowPriceHistory }) => {
-  const discountPercentage = () => {
-    const original = parseFloat(deal.originalPrice?.replace('$', ''));
-    const discounted = parseFloat(deal.discountedPrice?.replace('$', ''));
-    if (isNaN(original) || isNaN(discounted) || original <= 0 || discounted >= original) {
-      return null;
-    }
-    return Math.round(((original - discounted) / original) * 100);
-  };
+const MERCHANT_BADGES: Record<MerchantReputation['tier'], { label: MessageKey; className: string }> = {
+  trusted: { label: 'merchant.trusted', className: 'bg-green-100 text-green-700' },
+  unknown: { label: 'merchant.unknown', className: 'bg-gray-100 text-gray-600' },
+  suspicious: { label: 'merchant.suspicious', className: 'bg-orange-100 text-orange-700' },
+  blocked: { label: 'merchant.blocked', className: 'bg-red-100 text-red-700' },
+};
+
+const FULFILLMENT_LABELS: Record<DealFulfillment, MessageKey> = { online: 'card.online', 'in-store': 'card.inStore', both: 'card.onlineAndInStore' };
+
+const CHANGE_BADGES: Record<DealChange['kind'], { label: MessageKey; className: string }> = {
+  new: { label: 'card.new', className: 'bg-purple-100 text-purple-700' },
+  'price-drop': { label: 'card.priceDown', className: 'bg-green-100 text-green-700' },
+  'price-rise': { label: 'card.priceUp', className: 'bg-orange-100 text-orange-700' },
+};
+
+const DealCard: React.FC<DealCardProps> = ({ deal, onVerify, onShowPriceHistory, isWatched, onToggleWatch, onFeedback, merchantReputation, onSetMerchantTrust, change, isCompared, canCompare, onToggleCompare, distanceKm }) => {
+  const [showRelevance, setShowRelevance] = useState(false);
+  const [showMerchantMenu, setShowMerchantMenu] = useState(false);
+  const { locale, t } = useI18n();
+  const badge = MERCHANT_BADGES[merchantReputation.tier];
+  const merchantTitle = [
+    merchantReputation.source === 'user' ? t('card.yourRating') : merchantReputation.source === 'registry' ? t('card.fromRegistry') : undefined,
+    merchantReputation.notes,
+    ...merchantReputation.flags,
+  ].filter(Boolean).join('\n');
 
-  const currentDiscount = discountPercentage();
+  const setMerchantTrust = (tier: 'trusted' | 'blocked' | undefined) => {
+    onSetMerchantTrust(merchantReputation, tier);
+    setShowMerchantMenu(false);
+  };
+  const currentDiscount = discountPercentage(deal.originalPrice, deal.discountedPrice);
+  // Stored deals (watchlist, imports, backups) are not trusted to have been checked when they were saved.
+  const merchantUrl = deal.sourceUrl && isSafeUrl(deal.sourceUrl) ? deal.sourceUrl : undefined;
+  const formatDistance = (km: number): string => t('card.distance', { km: formatNumber(km, locale, km < 10 ? 1 : 0) });
 
   return (
     <div className="bg-white rounded-lg shadow-lg overflow-hidden flex flex-col transition-all duration-300 hover:shadow-xl">
@@ -34,23 +72,94 @@ const DealCard: React.FC<DealCardProps> = ({ deal, onVerify, onShowPriceHistory
         
         <div className="mb-3">
           <p className="text-2xl font-bold text-blue-600">
-            {deal.discountedPrice}
-            {deal.originalPrice && <span className="text-sm text-gray-500 line-through ml-2">{deal.originalPrice}</span>}
+            {formatMoney(deal.discountedPrice, locale)}
+            {hasAmount(deal.originalPrice) && <span className="text-sm text-gray-500 line-through ml-2">{formatMoney(deal.originalPrice, locale)}</span>}
           </p>
-          {currentDiscount && (
+          {currentDiscount !== null && currentDiscount > 0 && (
             <span className="bg-red-100 text-red-700 text-xs font-semibold px-2 py-1 rounded-full ml-2">
-              {currentDiscount}% OFF
+              {t('card.percentOff', { percent: currentDiscount })}
+            </span>
+          )}
+          {change && (
+            <span className={`${CHANGE_BADGES[change.kind].className} text-xs font-semibold px-2 py-1 rounded-full ml-2`}>
+              {t(CHANGE_BADGES[change.kind].label)}
+              {change.previousPrice && <> {t('card.was', { price: formatMoney(change.previousPrice, locale) })}</>}
             </span>
           )}
         </div>
 
-        <div className="text-sm text-gray-500 mb-3">
-          <span className="font-medium">Merchant:</span> {deal.merchant}
+        <div className="text-sm text-gray-500 mb-3 relative">
+          <span className="font-medium">{t('card.merchant')}</span> {deal.merchant}
+          <button
+            onClick={() => setShowMerchantMenu(!showMerchantMenu)}
+            className={`ml-2 text-xs font-semibold px-2 py-0.5 rounded-full ${badge.className}`}
+            title={merchantTitle || t('card.rateMerchant')}
+          >
+            {t(badge.label)}
+          </button>
+          {showMerchantMenu && (
+            <div className="absolute z-10 mt-1 right-0 bg-white border border-gray-200 rounded-md shadow-lg text-xs py-1 w-44">
+              {merchantReputation.tier !== 'trusted' && (
+                <button onClick={() => setMerchantTrust('trusted')} className="block w-full text-left px-3 py-1.5 hover:bg-gray-100">{t('card.markTrusted')}</button>
+              )}
+              {merchantReputation.tier !== 'blocked' && (
+                <button onClick={() => setMerchantTrust('blocked')} className="block w-full text-left px-3 py-1.5 text-red-600 hover:bg-gray-100">{t('card.blockMerchant')}</button>
+              )}
+              {merchantReputation.source === 'user' && (
+                <button onClick={() => setMerchantTrust(undefined)} className="block w-full text-left px-3 py-1.5 text-gray-500 hover:bg-gray-100">{t('card.clearRating')}</button>
+              )}
+            </div>
+          )}
         </div>
+        {merchantReputation.flags.length > 0 && (
+          <div className="text-xs text-orange-700 bg-orange-50 rounded-md px-2 py-1 mb-3 -mt-2">
+            {merchantReputation.flags.join('; ')}
+          </div>
+        )}
         <div className="text-sm text-gray-500 mb-4 flex items-center">
           <TagIcon className="w-4 h-4 mr-1 text-blue-500" />
-          <span className="font-medium">Category:</span> {deal.category}
+          <span className="font-medium">{t('card.category')}</span> {deal.category}
         </div>
+        {(deal.fulfillment || deal.storeLocation) && (
+          <div className="text-sm text-gray-500 mb-4 -mt-2 flex items-start">
+            <MapPinIcon className="w-4 h-4 mr-1 mt-0.5 text-blue-500 flex-shrink-0" />
+            <span>
+              {deal.fulfillment && <span className="font-medium">{t(FULFILLMENT_LABELS[deal.fulfillment])}</span>}
+              {deal.fulfillment && deal.storeLocation && ' · '}
+              {deal.storeLocation?.label}
+              {distanceKm !== null && <span className="text-blue-600"> · {formatDistance(distanceKm)}</span>}
+            </span>
+          </div>
+        )}
+        {deal.sources && deal.sources.length > 1 && (
+          <div className="text-xs text-gray-500 mb-4 -mt-2" title={deal.sources.map(s => `${getProviderLabel(s.providerId, locale)}: ${formatMoney(s.discountedPrice, locale)}`).join('\n')}>
+            {t('card.reportedBy', { count: deal.sources.length })}
+          </div>
+        )}
+        {(merchantUrl || deal.sourceRefs?.length === 0) && (
+          <div className="text-xs mb-4 -mt-2 flex items-center justify-between">
+            {merchantUrl && (
+              <a
+                href={merchantUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center text-blue-600 hover:text-blue-800 hover:underline"
+                title={deal.sourceRefs?.map(ref => ref.title).join('\n') || merchantUrl}
+              >
+                <ArrowTopRightOnSquareIcon className="w-4 h-4 mr-1" />
+                {t('card.viewAtMerchant')}
+              </a>
+            )}
+            {deal.sourceRefs?.length === 0 && (
+              <span
+                className="font-semibold px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800"
+                title={t('card.unverifiedSourceHint')}
+              >
+                {t('card.unverifiedSource')}
+              </span>
+            )}
+          </div>
+        )}
         
         <div className="mt-auto grid grid-cols-2 gap-3">
           <button
@@ -58,16 +167,63 @@ const DealCard: React.FC<DealCardProps> = ({ deal, onVerify, onShowPriceHistory
             className="flex items-center justify-center w-full bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-4 rounded-lg transition duration-150 ease-in-out text-sm"
           >
             <CheckBadgeIcon className="w-5 h-5 mr-2" />
-            Verify Deal
+            {t('card.verify')}
           </button>
           <button
             onClick={() => onShowPriceHistory(deal)}
             className="flex items-center justify-center w-full bg-indigo-500 hover:bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg transition duration-150 ease-in-out text-sm"
           >
             <ChartBarIcon className="w-5 h-5 mr-2" />
-            Price History
+            {t('card.priceHistory')}
           </button>
         </div>
+        <div className="mt-3 flex items-center justify-between text-sm">
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => onFeedback(deal, deal.userLiked === true ? undefined : true)}
+              className={`p-1.5 rounded-full ${deal.userLiked === true ? 'bg-green-100 text-green-700' : 'text-gray-400 hover:text-green-600'}`}
+              title={t('card.moreLikeThis')}
+              aria-pressed={deal.userLiked === true}
+            >
+              <HandThumbUpIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => onFeedback(deal, deal.userLiked === false ? undefined : false)}
+              className={`p-1.5 rounded-full ${deal.userLiked === false ? 'bg-red-100 text-red-700' : 'text-gray-400 hover:text-red-600'}`}
+              title={t('card.lessLikeThis')}
+              aria-pressed={deal.userLiked === false}
+            >
+              <HandThumbDownIcon className="w-5 h-5" />
+            </button>
+          </div>
+          {deal.relevance && (
+            <button onClick={() => setShowRelevance(!showRelevance)} className="text-xs text-blue-600 hover:underline">
+              {t('card.whyShown')}
+            </button>
+          )}
+        </div>
+        {showRelevance && deal.relevance && (
+          <ul className="mt-2 p-2 bg-blue-50 rounded-md text-xs text-blue-800 list-disc list-inside space-y-0.5">
+            {deal.relevance.reasons.map(reason => <li key={reason}>{reason}</li>)}
+          </ul>
+        )}
+        <button
+          onClick={() => onToggleWatch(deal)}
+          className={`mt-3 flex items-center justify-center w-full font-semibold py-2 px-4 rounded-lg transition duration-150 ease-in-out text-sm ${isWatched ? 'bg-purple-100 text-purple-700 hover:bg-purple-200' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+        >
+          <EyeIcon className="w-5 h-5 mr-2" />
+          {isWatched ? t('card.watching') : t('card.watch')}
+        </button>
+        <label className={`mt-2 flex items-center justify-center text-sm ${isCompared || canCompare ? 'text-gray-600 cursor-pointer' : 'text-gray-400 cursor-not-allowed'}`}>
+          <input
+            type="checkbox"
+            checked={isCompared}
+            disabled={!isCompared && !canCompare}
+            onChange={() => onToggleCompare(deal)}
+            className="mr-2 accent-purple-600"
+          />
+          {t('card.compare')}
+        </label>
       </div>
     </div>
   );
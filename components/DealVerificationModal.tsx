@@ -1,19 +1,39 @@
 
 import React from 'react';
-import { Deal, DealVerification } from '../types';
+import { Deal, DealVerification, VerificationFactor } from '../types';
 import { XCircleIcon, CheckBadgeIcon } from './icons';
 import LoadingSpinner from './LoadingSpinner';
+import { formatMoney } from '../services/money';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
 
 interface DealVerificationModalProps {
   deal: Deal | null;
   verification: DealVerification | null;
   isLoading: boolean;
+  loadingMessage?: string; // e.g. while a failed request is retried
   onClose: () => void;
 }
 
-const ScoreDisplay: React.FC<{ score: number }> = ({ score }) => {
+const FACTOR_STATUS_STYLES: Record<VerificationFactor['status'], { badge: string; label: MessageKey }> = {
+  pass: { badge: 'bg-green-100 text-green-700', label: 'verify.status.pass' },
+  warn: { badge: 'bg-yellow-100 text-yellow-700', label: 'verify.status.warn' },
+  fail: { badge: 'bg-red-100 text-red-700', label: 'verify.status.fail' },
+  unknown: { badge: 'bg-gray-100 text-gray-500', label: 'verify.status.unknown' },
+};
+
+const ScoreDisplay: React.FC<{ score: number | null }> = ({ score }) => {
+  const { t } = useI18n();
+  if (score === null) {
+    return (
+      <div className="text-center my-3">
+        <p className="text-3xl font-bold text-gray-400">?/5</p>
+        <p className="text-sm font-medium text-gray-500">{t('verify.couldNotVerify')}</p>
+      </div>
+    );
+  }
   const scoreColor = score >= 4 ? 'text-green-500' : score >= 2 ? 'text-yellow-500' : 'text-red-500';
-  const scoreText = score >= 4 ? 'Excellent' : score >=3 ? 'Good' : score >= 2 ? 'Fair' : 'Poor/Risky';
+  const scoreText = t(score >= 4 ? 'verify.excellent' : score >=3 ? 'verify.good' : score >= 2 ? 'verify.fair' : 'verify.poor');
 
   return (
     <div className="text-center my-3">
@@ -23,15 +43,36 @@ const ScoreDisplay: React.FC<{ score: number }> = ({ score }) => {
   );
 };
 
-const DealVerificationModal: React.FC<DealVerificationModalProps> = ({ deal, verification, isLoading, onClose }) => {
+const FactorRow: React.FC<{ factor: VerificationFactor }> = ({ factor }) => {
+  const { t } = useI18n();
+  const style = FACTOR_STATUS_STYLES[factor.status];
+  return (
+    <li className="py-2">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-700">{factor.label}</span>
+        <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${style.badge}`}>
+          {t(style.label)}{factor.score !== null && ` · ${factor.score}/5`}
+        </span>
+      </div>
+      <ul className="mt-1 space-y-0.5">
+        {factor.evidence.map((line, index) => (
+          <li key={index} className="text-xs text-gray-500">{line}</li>
+        ))}
+      </ul>
+    </li>
+  );
+};
+
+const DealVerificationModal: React.FC<DealVerificationModalProps> = ({ deal, verification, isLoading, loadingMessage, onClose }) => {
+  const { locale, t } = useI18n();
   if (!deal) return null;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 transition-opacity duration-300">
-      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md transform transition-all duration-300 scale-100">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto transform transition-all duration-300 scale-100">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-2xl font-semibold text-gray-800 flex items-center">
-            <CheckBadgeIcon className="w-7 h-7 mr-2 text-green-600" /> AI Deal Verification
+            <CheckBadgeIcon className="w-7 h-7 mr-2 text-green-600" /> {t('verify.title')}
           </h2>
           <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
             <XCircleIcon className="w-7 h-7" />
@@ -40,29 +81,39 @@ const DealVerificationModal: React.FC<DealVerificationModalProps> = ({ deal, ver
 
         <div className="mb-3">
           <h3 className="text-lg font-medium text-gray-700">{deal.title}</h3>
-          <p className="text-sm text-gray-500">Merchant: {deal.merchant}</p>
-          <p className="text-sm text-gray-500">Price: {deal.discountedPrice} (Original: {deal.originalPrice})</p>
+          <p className="text-sm text-gray-500">{t('verify.merchant', { merchant: deal.merchant })}</p>
+          <p className="text-sm text-gray-500">{t('verify.price', { price: formatMoney(deal.discountedPrice, locale), original: formatMoney(deal.originalPrice, locale) })}</p>
         </div>
 
-        {isLoading && <LoadingSpinner />}
+        {isLoading && <LoadingSpinner message={loadingMessage} />}
         
         {!isLoading && verification && (
           <div className="bg-gray-50 p-4 rounded-lg">
             <ScoreDisplay score={verification.score} />
             <p className="text-sm text-gray-700 leading-relaxed">{verification.summary}</p>
-            {verification.score === 0 && <p className="text-xs text-red-500 mt-2">AI verification encountered an issue. Please try again or assess manually.</p>}
+            {verification.status === 'partial' && (
+              <p className="text-xs text-orange-600 mt-2">
+                {t('verify.partial', { reason: verification.unavailableReason ?? t('common.unknownReason') })}
+              </p>
+            )}
+            {verification.status === 'unverified' && (
+              <p className="text-xs text-red-500 mt-2">{t('verify.unverified')}</p>
+            )}
+            <ul className="mt-3 divide-y divide-gray-200 border-t border-gray-200">
+              {verification.factors.map(factor => <FactorRow key={factor.id} factor={factor} />)}
+            </ul>
           </div>
         )}
         
         {!isLoading && !verification && (
-            <p className="text-red-500 text-center">Could not retrieve verification at this time.</p>
+            <p className="text-red-500 text-center">{t('verify.failed')}</p>
         )}
 
         <button
           onClick={onClose}
           className="mt-6 w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-150 ease-in-out"
         >
-          Close
+          {t('common.close')}
         </button>
       </div>
     </div>
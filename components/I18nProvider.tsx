@@ -0,0 +1,35 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { LocaleCode, MessageParams } from '../types';
+import { DEFAULT_LOCALE } from '../constants';
+import { MessageKey, loadLocale, saveLocale, translate } from '../services/i18n';
+
+interface I18nContextValue {
+  locale: LocaleCode;
+  setLocale: (locale: LocaleCode) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+// Components rendered without the provider (as in tests) get English.
+const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+});
+
+export const useI18n = (): I18nContextValue => useContext(I18nContext);
+
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<LocaleCode>(loadLocale);
+
+  useEffect(() => {
+    saveLocale(locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(locale, key, params), [locale]);
+  const value = useMemo(() => ({ locale, setLocale, t }), [locale, t]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -1,11 +1,17 @@
 
 import React from 'react';
+import { useI18n } from './I18nProvider';
 
-const LoadingSpinner: React.FC = () => {
+interface LoadingSpinnerProps {
+  message?: string;
+}
+
+const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ message }) => {
+  const { t } = useI18n();
   return (
     <div className="flex justify-center items-center my-8">
       <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
-      <p className="ml-3 text-gray-300">Loading...</p>
+      <p className="ml-3 text-gray-300" role="status">{message ?? t('common.loading')}</p>
     </div>
   );
 };
@@ -3,6 +3,8 @@ import { render, screen, cleanup } from '@testing-library/react';
 import { afterEach, describe, it, expect, vi } from 'vitest';
 import React from 'react';
 import PriceHistoryModal from './PriceHistoryModal';
+import I18nProvider from './I18nProvider';
+import { saveLocale } from '../services/i18n';
 import { Deal, PriceDataPoint } from '../types';
 
 global.ResizeObserver = class ResizeObserver {
@@ -14,54 +16,64 @@ global.ResizeObserver = class ResizeObserver {
 afterEach(() => {
   cleanup();
   vi.restoreAllMocks();
+  window.localStorage.clear();
 });
 
 const mockDeal: Deal = {
   id: 'deal-123',
   title: 'Test Deal',
   description: 'A test deal description',
-  originalPrice: '$100',
-  discountedPrice: '$80',
+  originalPrice: { amount: 100, currency: 'USD', raw: '$100' },
+  discountedPrice: { amount: 80, currency: 'USD', raw: '$80' },
   merchant: 'TestMerchant',
   category: 'TestCategory',
 };
 
 const mockPriceHistory: PriceDataPoint[] = [
-  { date: '2023-01-01', price: 90 },
-  { date: '2023-01-02', price: 80 },
+  { date: '2023-01-01', price: 100 },
+  { date: '2023-01-02', price: 96 },
+  { date: '2023-01-03', price: 93 },
+  { date: '2023-01-04', price: 90 },
 ];
 
 describe('PriceHistoryModal', () => {
-  it('should be stable and NOT change prediction on re-render', () => {
-    // 1. Mock Math.random to return > 0.5 -> "likely to remain stable"
+  it('recommends from the recorded prices and does not change on re-render', () => {
     const randomSpy = vi.spyOn(Math, 'random');
-    randomSpy.mockReturnValue(0.6);
-
     const { rerender } = render(
       <PriceHistoryModal
-        deal={mockDeal}
+        deal={{ ...mockDeal, discountedPrice: { amount: 90, currency: 'USD', raw: '$90' } }}
         priceHistory={mockPriceHistory}
         onClose={() => {}}
       />
     );
 
-    // Initial check: Should show "stable"
-    expect(screen.getByText(/likely to remain stable/i)).toBeDefined();
-
-    // 2. Mock Math.random to return < 0.5 -> "showing good value" (if it were called)
-    randomSpy.mockReturnValue(0.4);
+    expect(screen.getByText('Wait')).toBeDefined();
+    expect(screen.getByText(/Prices have been falling about .* per week/)).toBeDefined();
 
-    // 3. Rerender with same props
     rerender(
-        <PriceHistoryModal
-        deal={mockDeal}
+      <PriceHistoryModal
+        deal={{ ...mockDeal, discountedPrice: { amount: 90, currency: 'USD', raw: '$90' } }}
         priceHistory={mockPriceHistory}
         onClose={() => {}}
       />
     );
 
-    // Verify: Expect text to REMAIN "likely to remain stable".
-    expect(screen.getByText(/likely to remain stable/i)).toBeDefined();
-    expect(screen.queryByText(/showing good value/i)).toBeNull();
+    expect(screen.getByText('Wait')).toBeDefined();
+    expect(randomSpy).not.toHaveBeenCalled();
+  });
+
+  it('says when there is not enough history to recommend anything', () => {
+    render(<PriceHistoryModal deal={mockDeal} priceHistory={mockPriceHistory.slice(0, 2)} onClose={() => {}} />);
+
+    expect(screen.getByText('Not enough data yet')).toBeDefined();
+    expect(screen.getByText(/Only 2 recorded prices/)).toBeDefined();
+  });
+
+  it('writes the trend and volatility figures in the UI language', () => {
+    saveLocale('de-DE');
+    render(<I18nProvider><PriceHistoryModal deal={mockDeal} priceHistory={mockPriceHistory} onClose={() => {}} /></I18nProvider>);
+
+    expect(screen.getByText(/-\d+,\d %\/Woche/)).toBeDefined();
+    expect(screen.getByText(/^±\d+,\d %$/)).toBeDefined();
   });
 });
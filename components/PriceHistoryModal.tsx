@@ -1,68 +1,126 @@
 
 import React from 'react';
-import { Deal, PriceDataPoint } from '../types';
+import { Deal, PriceAnalysis, PriceDataPoint } from '../types';
 import { XCircleIcon, ChartBarIcon } from './icons';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { formatAmount } from '../services/money';
+import { analyzePriceHistory } from '../services/priceForecast';
+import { MessageKey, formatDate, formatNumber } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceDot } from 'recharts';
 
 interface PriceHistoryModalProps {
   deal: Deal | null;
   priceHistory: PriceDataPoint[];
+  isDemoData?: boolean; // Simulated history shown in demo mode
   onClose: () => void;
 }
 
-const PriceHistoryModal: React.FC<PriceHistoryModalProps> = ({ deal, priceHistory, onClose }) => {
-  if (!deal) return null;
+interface ChartPoint {
+  date: string;
+  price?: number;
+  average?: number | null;
+  forecast?: number;
+  band?: [number, number];
+}
+
+const RECOMMENDATION_STYLES: Record<PriceAnalysis['recommendation']['action'], { label: MessageKey; className: string }> = {
+  buy: { label: 'history.buy', className: 'text-green-700' },
+  wait: { label: 'history.wait', className: 'text-orange-700' },
+  'insufficient-data': { label: 'history.insufficientData', className: 'text-gray-600' },
+};
 
-  const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
+const TREND_LABELS: Record<PriceAnalysis['trend']['direction'], MessageKey> = { rising: 'trend.rising', falling: 'trend.falling', flat: 'trend.flat' };
+
+// History, its moving average and the forecast on one date axis; the forecast starts at the last recorded price.
+const toChartData = (history: PriceDataPoint[], analysis: PriceAnalysis | null): ChartPoint[] => {
+  const points: ChartPoint[] = history.map((point, index) => ({ date: point.date, price: point.price, average: analysis?.movingAverageSeries[index] }));
+  if (!analysis || analysis.forecast.length === 0) return points;
+  const last = points[points.length - 1];
+  points[points.length - 1] = { ...last, forecast: last.price, band: [last.price!, last.price!] };
+  return [...points, ...analysis.forecast.map(point => ({ date: point.date, forecast: point.price, band: [point.lower, point.upper] as [number, number] }))];
+};
+
+const PriceHistoryModal: React.FC<PriceHistoryModalProps> = ({ deal, priceHistory, isDemoData = false, onClose }) => {
+  const { locale, t } = useI18n();
+  if (!deal) return null;
 
-  const prediction = React.useMemo(() => {
-    return Math.random() > 0.5
-      ? " likely to remain stable in the short term."
-      : " showing good value. Consider purchasing soon if interested.";
-  }, [deal.id]);
+  const formatCurrency = (value: number) => formatAmount(value, deal.discountedPrice.currency, locale);
+  const formatDay = (date: string) => formatDate(date, locale);
+  const analysis = analyzePriceHistory(priceHistory, { currentPrice: deal.discountedPrice.amount, formatPrice: formatCurrency, locale });
+  const chartData = toChartData(priceHistory, analysis);
+  const recommendationStyle = analysis && RECOMMENDATION_STYLES[analysis.recommendation.action];
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 transition-opacity duration-300">
-      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-2xl transform transition-all duration-300 scale-100">
+      <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto transform transition-all duration-300 scale-100">
         <div className="flex justify-between items-center mb-4">
           <h2 className="text-2xl font-semibold text-gray-800 flex items-center">
-            <ChartBarIcon className="w-7 h-7 mr-2 text-indigo-600" /> Price History: {deal.title}
+            <ChartBarIcon className="w-7 h-7 mr-2 text-indigo-600" /> {t('history.title', { title: deal.title })}
           </h2>
           <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
             <XCircleIcon className="w-7 h-7" />
           </button>
         </div>
 
+        {isDemoData ? (
+          <p className="mb-3 inline-block bg-yellow-100 text-yellow-800 text-xs font-semibold px-2 py-1 rounded-full">
+            {t('history.demoData')}
+          </p>
+        ) : priceHistory.length > 0 && (
+          <p className="mb-3 text-xs text-gray-500">
+            {t('history.observed', { count: priceHistory.length })}
+          </p>
+        )}
+
         {priceHistory.length > 0 ? (
           <div className="h-72 w-full mb-4">
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={priceHistory} margin={{ top: 5, right: 20, left: -20, bottom: 5 }}>
+              <ComposedChart data={chartData} margin={{ top: 5, right: 20, left: -20, bottom: 5 }}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="date" stroke="#4B5563" />
+                <XAxis dataKey="date" stroke="#4B5563" tickFormatter={formatDay} />
                 <YAxis stroke="#4B5563" tickFormatter={formatCurrency} domain={['dataMin - 10', 'dataMax + 10']} />
-                <Tooltip formatter={(value: number) => [formatCurrency(value), "Price"]} />
+                <Tooltip labelFormatter={formatDay} formatter={(value: number | [number, number]) => Array.isArray(value) ? value.map(formatCurrency).join(' – ') : formatCurrency(value)} />
                 <Legend />
-                <Line type="monotone" dataKey="price" stroke="#4f46e5" strokeWidth={2} activeDot={{ r: 8 }} />
-              </LineChart>
+                <Area type="monotone" dataKey="band" name={t('history.forecastRange')} stroke="none" fill="#c7d2fe" fillOpacity={0.6} />
+                <Line type="monotone" dataKey="price" name={t('history.price')} stroke="#4f46e5" strokeWidth={2} activeDot={{ r: 8 }} />
+                <Line type="monotone" dataKey="average" name={t('history.movingAverage')} stroke="#9ca3af" strokeDasharray="4 4" dot={false} connectNulls />
+                <Line type="monotone" dataKey="forecast" name={t('history.forecast')} stroke="#6366f1" strokeDasharray="6 3" dot={false} />
+                {analysis && <ReferenceDot x={analysis.low.date} y={analysis.low.price} r={5} fill="#16a34a" stroke="none" label={{ value: t('history.low'), position: 'bottom', fontSize: 11 }} />}
+                {analysis && analysis.high.date !== analysis.low.date && (
+                  <ReferenceDot x={analysis.high.date} y={analysis.high.price} r={5} fill="#dc2626" stroke="none" label={{ value: t('history.high'), position: 'top', fontSize: 11 }} />
+                )}
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
         ) : (
-          <p className="text-gray-600 mb-4">Price history data is not available for this item.</p>
+          <p className="text-gray-600 mb-4">{t('history.empty')}</p>
         )}
 
-        <div className="bg-indigo-50 p-4 rounded-lg">
-          <p className="text-sm text-indigo-700">
-            <strong>AI Prediction:</strong> Based on current trends, the price for "{deal.title}" is 
-            {prediction}
-          </p>
-          <p className="text-xs text-indigo-500 mt-1">(Note: This is a simulated prediction for demonstration purposes.)</p>
-        </div>
+        {analysis && recommendationStyle && (
+          <div className="bg-indigo-50 p-4 rounded-lg">
+            <p className="text-sm text-indigo-700">
+              <strong>{t('history.recommendation')}</strong> <span className={`font-semibold ${recommendationStyle.className}`}>{t(recommendationStyle.label)}</span>
+            </p>
+            <ul className="list-disc list-inside text-sm text-indigo-700 mt-1 space-y-0.5">
+              {analysis.recommendation.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+            <dl className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-1 text-xs text-indigo-600 mt-3">
+              <div><dt className="inline font-medium">{t('history.trend')}</dt><dd className="inline">{t(TREND_LABELS[analysis.trend.direction])} ({t('history.perWeek', { percent: `${analysis.trend.percentPerWeek > 0 ? '+' : ''}${formatNumber(analysis.trend.percentPerWeek, locale, 1)}` })})</dd></div>
+              <div><dt className="inline font-medium">{t('history.lowLabel')}</dt><dd className="inline">{t('history.onDate', { price: formatCurrency(analysis.low.price), date: formatDay(analysis.low.date) })}</dd></div>
+              <div><dt className="inline font-medium">{t('history.highLabel')}</dt><dd className="inline">{t('history.onDate', { price: formatCurrency(analysis.high.price), date: formatDay(analysis.high.date) })}</dd></div>
+              <div><dt className="inline font-medium">{t('history.shortAverage')}</dt><dd className="inline">{analysis.movingAverages.short === null ? t('common.notAvailable') : formatCurrency(analysis.movingAverages.short)}</dd></div>
+              <div><dt className="inline font-medium">{t('history.longAverage')}</dt><dd className="inline">{analysis.movingAverages.long === null ? t('common.notAvailable') : formatCurrency(analysis.movingAverages.long)}</dd></div>
+              <div><dt className="inline font-medium">{t('history.volatility')}</dt><dd className="inline">{t('history.volatilityValue', { percent: formatNumber(analysis.volatility, locale, 1) })}</dd></div>
+            </dl>
+            {isDemoData && <p className="text-xs text-indigo-500 mt-2">{t('history.demoCalculation')}</p>}
+          </div>
+        )}
 
         <button
           onClick={onClose}
           className="mt-6 w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-150 ease-in-out"
         >
-          Close
+          {t('common.close')}
         </button>
       </div>
     </div>
@@ -0,0 +1,126 @@
+import React from 'react';
+import { DealAvailability, DealFacets, DealFilters, DealSortKey, FacetCount } from '../types';
+import { EMPTY_DEAL_FILTERS, countActiveFilters } from '../services/dealFacets';
+import { MessageKey, formatNumber } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface ResultFiltersProps {
+  facets: DealFacets;
+  filters: DealFilters;
+  onFiltersChange: (filters: DealFilters) => void;
+  sortKey: DealSortKey;
+  onSortChange: (sortKey: DealSortKey) => void;
+  shownCount: number;
+  totalCount: number;
+}
+
+const SORT_OPTIONS: { value: DealSortKey; label: MessageKey }[] = [
+  { value: 'relevance', label: 'filters.sort.relevance' },
+  { value: 'discount', label: 'filters.sort.discount' },
+  { value: 'price', label: 'filters.sort.price' },
+  { value: 'savings', label: 'filters.sort.savings' },
+  { value: 'score', label: 'filters.sort.score' },
+  { value: 'merchant', label: 'filters.sort.merchant' },
+];
+
+const AVAILABILITY_LABELS: Record<DealAvailability, MessageKey> = {
+  online: 'filters.availability.online',
+  local: 'filters.availability.local',
+  both: 'filters.availability.both',
+  unknown: 'filters.availability.unknown',
+};
+
+const toggle = <T,>(values: T[], value: T): T[] => (values.includes(value) ? values.filter(v => v !== value) : [...values, value]);
+
+const ResultFilters: React.FC<ResultFiltersProps> = ({ facets, filters, onFiltersChange, sortKey, onSortChange, shownCount, totalCount }) => {
+  const { locale, t } = useI18n();
+  const update = (changes: Partial<DealFilters>) => onFiltersChange({ ...filters, ...changes });
+  const bounds = facets.priceBounds;
+  const range = filters.priceRange ?? bounds;
+  const activeCount = countActiveFilters(filters);
+
+  const setPrice = (edge: 'min' | 'max', value: number) => {
+    if (!bounds || !range) return;
+    const next = edge === 'min' ? { min: Math.min(value, range.max), max: range.max } : { min: range.min, max: Math.max(value, range.min) };
+    update({ priceRange: next.min === bounds.min && next.max === bounds.max ? null : next });
+  };
+
+  const renderChips = (label: string, options: FacetCount[], selected: string[], onToggle: (value: string) => void, format: (value: string) => string = v => v) => (
+    <div>
+      <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{label}</p>
+      <div className="flex flex-wrap gap-1.5">
+        {options.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onToggle(option.value)}
+            aria-pressed={selected.includes(option.value)}
+            className={`px-2 py-0.5 rounded-full text-xs border transition duration-150 ${selected.includes(option.value) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+          >
+            {format(option.value)} <span className="opacity-70">({option.count})</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-lg mb-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-sm text-gray-600">
+          {t('filters.showing', { shown: shownCount, count: totalCount })}
+          {activeCount > 0 && (
+            <button type="button" onClick={() => onFiltersChange(EMPTY_DEAL_FILTERS)} className="ml-2 text-blue-600 hover:text-blue-800 underline">
+              {t('filters.clear', { count: activeCount })}
+            </button>
+          )}
+        </p>
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>{t('filters.sortBy')}</span>
+          <select
+            value={sortKey}
+            onChange={(e) => onSortChange(e.target.value as DealSortKey)}
+            className="border border-gray-300 rounded-md px-2 py-1 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{t(option.label)}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderChips(t('filters.merchant'), facets.merchants, filters.merchants, value => update({ merchants: toggle(filters.merchants, value) }))}
+        {renderChips(t('filters.category'), facets.categories, filters.categories, value => update({ categories: toggle(filters.categories, value) }))}
+        {renderChips(t('filters.minDiscount'), facets.discounts, filters.minDiscount > 0 ? [String(filters.minDiscount)] : [], value => update({ minDiscount: filters.minDiscount === Number(value) ? 0 : Number(value) }), value => t('filters.discountOrMore', { percent: value }))}
+        {renderChips(t('filters.availability'), facets.availability, filters.availability, value => update({ availability: toggle(filters.availability, value as DealAvailability) }), value => t(AVAILABILITY_LABELS[value as DealAvailability]))}
+        {facets.distances.length > 0 && renderChips(t('filters.distance'), facets.distances, filters.maxDistanceKm !== null ? [String(filters.maxDistanceKm)] : [], value => update({ maxDistanceKm: filters.maxDistanceKm === Number(value) ? null : Number(value) }), value => t('common.withinKm', { km: value }))}
+        {bounds && range && bounds.max > bounds.min && (
+          <div className="md:col-span-2">
+            <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{t('filters.price', { min: formatNumber(range.min, locale, 2), max: formatNumber(range.max, locale, 2) })}</p>
+            <div className="flex items-center gap-3">
+              <input
+                type="range"
+                aria-label={t('filters.minPrice')}
+                min={bounds.min}
+                max={bounds.max}
+                value={range.min}
+                onChange={(e) => setPrice('min', Number(e.target.value))}
+                className="w-full accent-blue-600"
+              />
+              <input
+                type="range"
+                aria-label={t('filters.maxPrice')}
+                min={bounds.min}
+                max={bounds.max}
+                value={range.max}
+                onChange={(e) => setPrice('max', Number(e.target.value))}
+                className="w-full accent-blue-600"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResultFilters;
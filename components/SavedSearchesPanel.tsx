@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { SavedSearch, UserPreferences } from '../types';
+import { SAVED_SEARCH_AUTO_RUN_MINUTES } from '../constants';
+import { XCircleIcon, BookmarkIcon } from './icons';
+import { describeSearch } from '../services/savedSearchService';
+import { getProviderLabel } from '../services/dealProviders';
+import { formatDateTime } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface SavedSearchesPanelProps {
+  isOpen: boolean;
+  searches: SavedSearch[];
+  currentPreferences: UserPreferences;
+  onSaveCurrent: (name: string) => void;
+  onRun: (search: SavedSearch) => void;
+  onSetAutoRun: (searchId: string, autoRunMinutes: number | undefined) => void;
+  onRemove: (searchId: string) => void;
+  onClose: () => void;
+}
+
+const SavedSearchesPanel: React.FC<SavedSearchesPanelProps> = ({
+  isOpen,
+  searches,
+  currentPreferences,
+  onSaveCurrent,
+  onRun,
+  onSetAutoRun,
+  onRemove,
+  onClose,
+}) => {
+  const { locale, t } = useI18n();
+  const [name, setName] = useState('');
+
+  if (!isOpen) return null;
+
+  const formatInterval = (minutes: number): string =>
+    minutes % 1440 === 0
+      ? t('savedSearches.days', { count: minutes / 1440 })
+      : minutes % 60 === 0 ? t('savedSearches.hours', { count: minutes / 60 }) : t('savedSearches.minutes', { count: minutes });
+
+  const handleSave = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    onSaveCurrent(name);
+    setName('');
+  };
+
+  return (
+    <aside className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-50 flex flex-col">
+      <div className="flex justify-between items-center p-4 border-b border-gray-200">
+        <h2 className="text-2xl font-semibold text-gray-800 flex items-center">
+          <BookmarkIcon className="w-7 h-7 mr-2 text-purple-600" /> {t('savedSearches.title')}
+        </h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <XCircleIcon className="w-7 h-7" />
+        </button>
+      </div>
+
+      <form onSubmit={handleSave} className="p-4 border-b border-gray-200 space-y-2">
+        <p className="text-sm text-gray-600">{t('savedSearches.current')}<span className="font-medium text-gray-800">{describeSearch(currentPreferences, locale)}</span></p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('savedSearches.namePlaceholder')}
+            className="flex-grow px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <button type="submit" className="px-4 py-2 rounded-lg text-sm font-semibold text-white bg-purple-600 hover:bg-purple-700 transition duration-150">
+            {t('savedSearches.save')}
+          </button>
+        </div>
+      </form>
+
+      <div className="flex-grow overflow-y-auto p-4 space-y-4">
+        {searches.length === 0 && (
+          <p className="text-gray-500 text-center mt-8">{t('savedSearches.empty')}</p>
+        )}
+        {searches.map(search => (
+          <div key={search.id} className={`p-3 rounded-lg border ${search.unseenCount ? 'border-green-400 bg-green-50' : 'border-gray-200 bg-gray-50'}`}>
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="font-medium text-gray-800">{search.name}</h3>
+                <p className="text-xs text-gray-500">
+                  {describeSearch(search.preferences, locale)} · {search.providerIds.map(id => getProviderLabel(id, locale)).join(', ')}
+                </p>
+              </div>
+              <button onClick={() => onRemove(search.id)} className="text-xs text-red-500 hover:text-red-700 ml-2">{t('common.remove')}</button>
+            </div>
+            {search.lastRunAt && (
+              <p className="text-xs text-gray-400 mt-1">{t('savedSearches.lastRun', { date: formatDateTime(search.lastRunAt, locale) })}</p>
+            )}
+            {!!search.unseenCount && (
+              <p className="text-xs font-semibold text-green-700 mt-1">{t('savedSearches.unseen', { count: search.unseenCount })}</p>
+            )}
+            <div className="flex items-center justify-between mt-2">
+              <label className="text-xs text-gray-600 flex items-center space-x-2">
+                <span>{t('savedSearches.rerunEvery')}</span>
+                <select
+                  value={search.autoRunMinutes ?? ''}
+                  onChange={(e) => onSetAutoRun(search.id, e.target.value ? Number(e.target.value) : undefined)}
+                  className="border border-gray-300 rounded-md px-2 py-1 text-gray-900"
+                >
+                  <option value="">{t('savedSearches.never')}</option>
+                  {SAVED_SEARCH_AUTO_RUN_MINUTES.map(minutes => <option key={minutes} value={minutes}>{formatInterval(minutes)}</option>)}
+                </select>
+              </label>
+              <button
+                onClick={() => onRun(search)}
+                className="px-3 py-1.5 rounded-lg text-sm font-semibold text-purple-700 bg-purple-100 hover:bg-purple-200 transition duration-150"
+              >
+                {t('savedSearches.runNow')}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default SavedSearchesPanel;
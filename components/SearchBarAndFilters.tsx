@@ -1,21 +1,50 @@
 
-import React, { useState, useCallback } from 'react';
-import { UserPreferences } from '../types';
-import { DEAL_CATEGORIES } from '../constants';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { SearchRequestOptions, UserPreferences } from '../types';
+import { DEAL_CATEGORIES, DEAL_PAGE_SIZE_OPTIONS, GEMINI_SEARCH_PROVIDER_ID, SEARCH_RADIUS_OPTIONS_KM } from '../constants';
+import { listDealProviders } from '../services/dealProviders';
+import { formatLocation, listPlaceNames, resolveLocation } from '../services/locationService';
 import { SearchIcon, TagIcon, MapPinIcon, SparklesIcon, ChevronDownIcon } from './icons';
+import { useI18n } from './I18nProvider';
 
 interface SearchBarAndFiltersProps {
-  onSearch: (preferences: UserPreferences, useSearchGrounding: boolean) => void;
+  onSearch: (preferences: UserPreferences, providerIds: string[], options: SearchRequestOptions) => void;
   initialPreferences: UserPreferences;
+  initialProviderIds: string[];
+  initialPageSize: number;
   isLoading: boolean;
 }
 
-const SearchBarAndFilters: React.FC<SearchBarAndFiltersProps> = ({ onSearch, initialPreferences, isLoading }) => {
+const SearchBarAndFilters: React.FC<SearchBarAndFiltersProps> = ({ onSearch, initialPreferences, initialProviderIds, initialPageSize, isLoading }) => {
   const [keywords, setKeywords] = useState(initialPreferences.keywords);
   const [selectedCategories, setSelectedCategories] = useState<string[]>(initialPreferences.categories);
   const [location, setLocation] = useState(initialPreferences.location);
+  const [radiusKm, setRadiusKm] = useState<number | undefined>(initialPreferences.radiusKm);
   const [showCategories, setShowCategories] = useState(false);
-  const [useSearchGrounding, setUseSearchGrounding] = useState(false);
+  const [selectedProviderIds, setSelectedProviderIds] = useState<string[]>(initialProviderIds);
+  const [isWebSearch, setIsWebSearch] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [pageSize, setPageSize] = useState(initialPageSize);
+  const { t } = useI18n();
+  const providers = listDealProviders();
+  const place = useMemo(() => resolveLocation(location), [location]);
+
+  // The chat assistant can change the search from outside the form; keep the fields showing what was searched.
+  useEffect(() => {
+    setKeywords(initialPreferences.keywords);
+    setSelectedCategories(initialPreferences.categories);
+    setLocation(initialPreferences.location);
+    setRadiusKm(initialPreferences.radiusKm);
+  }, [initialPreferences]);
+
+  // Going back or forward in the browser can switch the sources and page size too.
+  useEffect(() => {
+    setSelectedProviderIds(initialProviderIds);
+  }, [initialProviderIds]);
+
+  useEffect(() => {
+    setPageSize(initialPageSize);
+  }, [initialPageSize]);
 
   const handleCategoryToggle = (category: string) => {
     setSelectedCategories(prev =>
@@ -23,11 +52,20 @@ const SearchBarAndFilters: React.FC<SearchBarAndFiltersProps> = ({ onSearch, ini
     );
   };
 
-  const handleSubmit = useCallback((event?: React.FormEvent<HTMLFormElement>, searchGroundingOverride?: boolean) => {
+  const handleProviderToggle = (providerId: string) => {
+    setSelectedProviderIds(prev =>
+      prev.includes(providerId) ? prev.filter(id => id !== providerId) : [...prev, providerId]
+    );
+  };
+
+  const handleSubmit = useCallback((event?: React.FormEvent<HTMLFormElement>, providerIdsOverride?: string[]) => {
     event?.preventDefault();
-    const isGroundingSearch = typeof searchGroundingOverride === 'boolean' ? searchGroundingOverride : useSearchGrounding;
-    onSearch({ keywords, categories: selectedCategories, location }, isGroundingSearch);
-  }, [keywords, selectedCategories, location, onSearch, useSearchGrounding]);
+    const providerIds = providerIdsOverride ?? selectedProviderIds;
+    setIsWebSearch(providerIds.includes(GEMINI_SEARCH_PROVIDER_ID));
+    const preferences: UserPreferences = { keywords, categories: selectedCategories, location, place: place ?? undefined };
+    if (location.trim() && radiusKm) preferences.radiusKm = radiusKm;
+    onSearch(preferences, providerIds, { bypassCache, pageSize });
+  }, [keywords, selectedCategories, location, place, radiusKm, onSearch, selectedProviderIds, bypassCache, pageSize]);
 
 
   return (
@@ -36,7 +74,7 @@ const SearchBarAndFilters: React.FC<SearchBarAndFiltersProps> = ({ onSearch, ini
         {/* Keywords Search */}
         <div>
           <label htmlFor="keywords" className="block text-sm font-medium text-gray-700 mb-1">
-            Search Deals (Keywords)
+            {t('search.keywords')}
           </label>
           <div className="relative">
             <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -47,7 +85,7 @@ const SearchBarAndFilters: React.FC<SearchBarAndFiltersProps> = ({ onSearch, ini
               id="keywords"
               value={keywords}
               onChange={(e) => setKeywords(e.target.value)}
-              placeholder="e.g., 'laptop', 'running shoes'"
+              placeholder={t('search.keywordsPlaceholder')}
               className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-150 text-gray-900 placeholder:text-gray-400"
             />
           </div>
@@ -56,21 +94,43 @@ const SearchBarAndFilters: React.FC<SearchBarAndFiltersProps> = ({ onSearch, ini
         {/* Location Search */}
         <div>
           <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-1">
-            Location (Optional)
+            {t('search.location')}
           </label>
-          <div className="relative">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <MapPinIcon className="h-5 w-5 text-gray-400" />
+          <div className="flex gap-2">
+            <div className="relative flex-grow">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <MapPinIcon className="h-5 w-5 text-gray-400" />
+              </div>
+              <input
+                type="text"
+                id="location"
+                list="location-suggestions"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder={t('search.locationPlaceholder')}
+                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-150 text-gray-900 placeholder:text-gray-400"
+              />
+              <datalist id="location-suggestions">
+                {listPlaceNames().map(name => <option key={name} value={name} />)}
+              </datalist>
             </div>
-            <input
-              type="text"
-              id="location"
-              value={location}
-              onChange={(e) => setLocation(e.target.value)}
-              placeholder="e.g., 'New York', 'Online'"
-              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-150 text-gray-900 placeholder:text-gray-400"
-            />
+            <select
+              aria-label={t('search.radius')}
+              value={radiusKm ?? ''}
+              onChange={(e) => setRadiusKm(e.target.value ? Number(e.target.value) : undefined)}
+              disabled={!location.trim()}
+              className="border border-gray-300 rounded-lg px-2 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:text-gray-400"
+            >
+              <option value="">{t('search.anyDistance')}</option>
+              {SEARCH_RADIUS_OPTIONS_KM.map(km => <option key={km} value={km}>{t('common.withinKm', { km })}</option>)}
+            </select>
           </div>
+          {location.trim() && (
+            <p className="text-xs text-gray-500 mt-1">
+              {place ? t('search.resolvedTo', { place: formatLocation(place) }) : t('search.unresolved')}
+              {place && !place.coordinates && radiusKm && t('search.noCoordinates')}
+            </p>
+          )}
         </div>
       </div>
       
@@ -83,7 +143,7 @@ const SearchBarAndFilters: React.FC<SearchBarAndFiltersProps> = ({ onSearch, ini
           >
             <span className="text-sm font-medium text-gray-700 flex items-center">
               <TagIcon className="h-5 w-5 text-gray-400 mr-2" />
-              Filter by Categories ({selectedCategories.length} selected)
+              {t('search.categories', { count: selectedCategories.length })}
             </span>
             <ChevronDownIcon className={`h-5 w-5 text-gray-400 transition-transform ${showCategories ? 'rotate-180' : ''}`} />
           </button>
@@ -106,43 +166,68 @@ const SearchBarAndFilters: React.FC<SearchBarAndFiltersProps> = ({ onSearch, ini
           )}
         </div>
 
-      {/* Search Grounding Toggle */}
-      <div className="flex items-center justify-between mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
-        <label htmlFor="searchGroundingToggle" className="flex items-center cursor-pointer">
+      {/* Deal Sources */}
+      <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+        <p className="flex items-center text-sm font-medium text-blue-700 mb-2">
           <SparklesIcon className="h-5 w-5 text-blue-500 mr-2" />
-          <span className="text-sm font-medium text-blue-700">Use Google Search for latest deals (slower, more current)</span>
-        </label>
-        <div className="relative">
-            <input 
-                type="checkbox" 
-                id="searchGroundingToggle" 
-                className="sr-only peer"
-                checked={useSearchGrounding}
-                onChange={(e) => setUseSearchGrounding(e.target.checked)}
-            />
-            <div className="w-11 h-6 bg-gray-200 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          {t('search.sources')}
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {providers.map(provider => (
+            <label key={provider.id} className="flex items-start space-x-2 p-2 rounded-md hover:bg-blue-100 cursor-pointer" title={t(provider.descriptionKey)}>
+              <input
+                type="checkbox"
+                checked={selectedProviderIds.includes(provider.id)}
+                onChange={() => handleProviderToggle(provider.id)}
+                className="form-checkbox h-4 w-4 mt-0.5 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">
+                {t(provider.labelKey)}
+                {provider.capabilities.searchGrounding && <span className="text-xs text-blue-500 ml-1">{t('search.sourceSlower')}</span>}
+              </span>
+            </label>
+          ))}
         </div>
       </div>
 
 
       {/* Action Buttons */}
       <div className="flex flex-col sm:flex-row items-center justify-end space-y-3 sm:space-y-0 sm:space-x-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-600 cursor-pointer sm:mr-auto">
+          <input
+            type="checkbox"
+            checked={bypassCache}
+            onChange={() => setBypassCache(!bypassCache)}
+            className="form-checkbox h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span>{t('search.skipCache')}</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>{t('search.pageSize')}</span>
+          <select
+            value={pageSize}
+            onChange={(e) => setPageSize(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-2 py-1 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {DEAL_PAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size}</option>)}
+          </select>
+        </label>
          <button
           type="button"
-          onClick={() => handleSubmit(undefined, true)}
+          onClick={() => handleSubmit(undefined, [GEMINI_SEARCH_PROVIDER_ID])}
           disabled={isLoading}
           className={`w-full sm:w-auto flex items-center justify-center px-6 py-2.5 border border-transparent text-base font-medium rounded-lg shadow-sm text-white ${isLoading ? 'bg-yellow-400 cursor-not-allowed' : 'bg-yellow-500 hover:bg-yellow-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500'} transition duration-150`}
         >
           <SparklesIcon className="h-5 w-5 mr-2" />
-          {isLoading && useSearchGrounding ? 'Searching Web...' : 'Find Latest Deals (Web)'}
+          {isLoading && isWebSearch ? t('search.searchingWeb') : t('search.findWeb')}
         </button>
         <button
           type="submit"
-          disabled={isLoading}
-          className={`w-full sm:w-auto flex items-center justify-center px-6 py-2.5 border border-transparent text-base font-medium rounded-lg shadow-sm text-white ${isLoading ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'} transition duration-150`}
+          disabled={isLoading || selectedProviderIds.length === 0}
+          className={`w-full sm:w-auto flex items-center justify-center px-6 py-2.5 border border-transparent text-base font-medium rounded-lg shadow-sm text-white ${isLoading || selectedProviderIds.length === 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'} transition duration-150`}
         >
           <SearchIcon className="h-5 w-5 mr-2" />
-          {isLoading && !useSearchGrounding ? 'Searching...' : 'Find Deals (AI Generated)'}
+          {isLoading && !isWebSearch ? t('search.searching') : t('search.findSelected')}
         </button>
       </div>
     </form>
@@ -0,0 +1,126 @@
+import React from 'react';
+import { WatchlistItem } from '../types';
+import { XCircleIcon, EyeIcon, BellIcon } from './icons';
+import { formatMoney } from '../services/money';
+import { formatDateTime } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface WatchlistPanelProps {
+  isOpen: boolean;
+  items: WatchlistItem[];
+  isChecking: boolean;
+  notificationPermission: NotificationPermission | 'unsupported';
+  onUpdateThresholds: (dealId: string, thresholds: Pick<WatchlistItem, 'targetPrice' | 'dropPercent'>) => void;
+  onRemove: (dealId: string) => void;
+  onCheckNow: () => void;
+  onEnableNotifications: () => void;
+  onClose: () => void;
+}
+
+const parseThreshold = (value: string): number | undefined => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) || parsed < 0 ? undefined : parsed;
+};
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({
+  isOpen,
+  items,
+  isChecking,
+  notificationPermission,
+  onUpdateThresholds,
+  onRemove,
+  onCheckNow,
+  onEnableNotifications,
+  onClose,
+}) => {
+  const { locale, t } = useI18n();
+  if (!isOpen) return null;
+
+  return (
+    <aside className="fixed top-0 right-0 h-full w-full max-w-md bg-white shadow-2xl z-50 flex flex-col">
+      <div className="flex justify-between items-center p-4 border-b border-gray-200">
+        <h2 className="text-2xl font-semibold text-gray-800 flex items-center">
+          <EyeIcon className="w-7 h-7 mr-2 text-purple-600" /> {t('watchlist.title')}
+        </h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <XCircleIcon className="w-7 h-7" />
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-gray-200 flex flex-wrap gap-2 items-center">
+        <button
+          onClick={onCheckNow}
+          disabled={isChecking || items.length === 0}
+          className={`px-4 py-2 rounded-lg text-sm font-semibold text-white ${isChecking || items.length === 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700'} transition duration-150`}
+        >
+          {t(isChecking ? 'watchlist.checking' : 'watchlist.checkNow')}
+        </button>
+        {notificationPermission === 'default' && (
+          <button
+            onClick={onEnableNotifications}
+            className="flex items-center px-4 py-2 rounded-lg text-sm font-semibold text-purple-700 bg-purple-100 hover:bg-purple-200 transition duration-150"
+          >
+            <BellIcon className="w-4 h-4 mr-1" /> {t('watchlist.enableNotifications')}
+          </button>
+        )}
+        {notificationPermission === 'denied' && (
+          <span className="text-xs text-gray-500">{t('watchlist.notificationsBlocked')}</span>
+        )}
+      </div>
+
+      <div className="flex-grow overflow-y-auto p-4 space-y-4">
+        {items.length === 0 && (
+          <p className="text-gray-500 text-center mt-8">{t('watchlist.empty')}</p>
+        )}
+        {items.map(item => (
+          <div key={item.dealId} className={`p-3 rounded-lg border ${item.alertedAt ? 'border-green-400 bg-green-50' : 'border-gray-200 bg-gray-50'}`}>
+            <div className="flex justify-between items-start">
+              <div>
+                <h3 className="font-medium text-gray-800 line-clamp-2">{item.deal.title}</h3>
+                <p className="text-xs text-gray-500">{item.deal.merchant}</p>
+              </div>
+              <button onClick={() => onRemove(item.dealId)} className="text-xs text-red-500 hover:text-red-700 ml-2">{t('common.remove')}</button>
+            </div>
+            <p className="text-sm text-gray-700 mt-1">
+              {t('watchlist.watchedAt', { price: formatMoney(item.baselinePrice, locale) })}
+              {item.lastPrice && t('watchlist.latest', { price: formatMoney(item.lastPrice, locale) })}
+            </p>
+            {item.lastCheckedAt && (
+              <p className="text-xs text-gray-400">{t('watchlist.lastChecked', { date: formatDateTime(item.lastCheckedAt, locale) })}</p>
+            )}
+            {item.alertedAt && <p className="text-xs font-semibold text-green-700 mt-1">{t('watchlist.thresholdReached')}</p>}
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <label className="text-xs text-gray-600">
+                {t('watchlist.targetPrice')}
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={item.targetPrice ?? ''}
+                  onChange={(e) => onUpdateThresholds(item.dealId, { targetPrice: parseThreshold(e.target.value), dropPercent: item.dropPercent })}
+                  placeholder={item.baselinePrice.currency ?? ''}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+                />
+              </label>
+              <label className="text-xs text-gray-600">
+                {t('watchlist.dropPercent')}
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="1"
+                  value={item.dropPercent ?? ''}
+                  onChange={(e) => onUpdateThresholds(item.dealId, { targetPrice: item.targetPrice, dropPercent: parseThreshold(e.target.value) })}
+                  placeholder={t('watchlist.dropPlaceholder')}
+                  className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default WatchlistPanel;
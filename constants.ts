@@ -1,3 +1,4 @@
+import { LocaleCode, LocaleInfo } from './types';
 
 export const APP_TITLE = "DealDigger AI";
 
@@ -16,7 +17,91 @@ export const DEAL_CATEGORIES = [
 
 export const GEMINI_MODEL_TEXT = "gemini-2.5-flash-preview-04-17";
 
-export const MOCK_API_KEY_NOTICE = "API_KEY environment variable not found. Using mock data. For live AI features, please ensure the API_KEY is configured in your environment.";
-export const GEMINI_ERROR_MESSAGE = "Could not connect to AI services. Please check your API key or network connection.";
 
-export const INITIAL_DEALS_COUNT = 6;
\ No newline at end of file
+export const INITIAL_DEALS_COUNT = 6;
+export const DISCOUNT_FACET_STEPS = [10, 25, 50, 75]; // "n% off or more" choices in the result filters
+export const DEAL_PAGE_SIZE_OPTIONS = [6, 12, 24]; // Choices for "Deals per page" in the search form
+export const SEARCH_RADIUS_OPTIONS_KM = [5, 10, 25, 50, 100, 250]; // Choices for "Within" next to the location
+export const DISTANCE_FACET_STEPS_KM = [5, 10, 25, 50, 100]; // "Within n km" choices in the result filters
+export const NEAREST_PLACE_MAX_KM = 50; // Coordinates farther than this from every gazetteer place get no city name
+export const MIN_COMPARED_DEALS = 2;
+export const MAX_COMPARED_DEALS = 4;
+export const MAX_EXCLUDED_DEALS_IN_PROMPT = 60; // Later pages list at most this many already-shown deals for the model to skip
+
+// Titles at least this similar (0-1) from the same merchant and category are treated as the same product
+export const DEAL_TITLE_SIMILARITY_THRESHOLD = 0.85;
+
+export const PRICE_HISTORY_DB_NAME = "dealdigger-price-history";
+
+export const WATCHLIST_STORAGE_KEY = "dealdigger.watchlist";
+export const PREFERENCE_PROFILE_STORAGE_KEY = "dealdigger.preferenceProfile";
+export const CHAT_SESSION_STORAGE_KEY = "dealdigger.chat"; // sessionStorage: the conversation lasts for the browser tab
+export const WATCHLIST_CHECK_INTERVAL_MS = 15 * 60 * 1000; // Background re-check of watched deals while the app is open
+export const SAVED_SEARCHES_STORAGE_KEY = "dealdigger.savedSearches";
+export const IMPORTED_DEALS_STORAGE_KEY = "dealdigger.importedDeals"; // Deal list imported from a CSV or JSON file
+export const BACKUP_FORMAT_VERSION = 1; // Bump, and add a migration in dataTransfer.ts, whenever the backup layout changes
+export const SAVED_SEARCH_CHECK_INTERVAL_MS = 60 * 1000; // How often to look for saved searches that are due to re-run
+export const SAVED_SEARCH_AUTO_RUN_MINUTES = [30, 60, 180, 720, 1440]; // Choices for "Re-run every" on a saved search
+export const MERCHANT_OVERRIDES_STORAGE_KEY = "dealdigger.merchantOverrides";
+export const LOCALE_STORAGE_KEY = "dealdigger.locale";
+// Response cache for Gemini calls (persisted in localStorage). Within the TTL a cached response is used as is; after it,
+// until the stale window ends, it is shown immediately while a fresh one is fetched in the background.
+export const DEAL_CACHE_STORAGE_KEY = "dealdigger.cache.deals";
+export const VERIFICATION_CACHE_STORAGE_KEY = "dealdigger.cache.verifications";
+export const DEAL_CACHE_TTL_MS = 10 * 60 * 1000;
+export const DEAL_CACHE_STALE_MS = 24 * 60 * 60 * 1000;
+export const VERIFICATION_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+export const COMPARISON_CACHE_STORAGE_KEY = "dealdigger.cache.comparisons"; // Kept as long as verifications
+export const RESPONSE_CACHE_MAX_ENTRIES = 30;
+export const MAX_CHAT_TOOL_ROUNDS = 4; // Tool call / response round trips allowed for a single chat message
+
+// Gemini requests (search, verify and chat share one limit) and how transient failures are retried.
+export const GEMINI_MAX_REQUESTS_PER_MINUTE = 12;
+export const RETRY_MAX_ATTEMPTS = 3;
+export const RETRY_BASE_DELAY_MS = 1000;
+export const RETRY_MAX_DELAY_MS = 10 * 1000;
+
+// Demo mode shows simulated price history; it is on when VITE_DEMO_MODE=true or when deals come from the mock provider.
+export const DEMO_MODE = import.meta.env.VITE_DEMO_MODE === 'true';
+// The offline demo catalog's prices, store locations and price histories all follow from this seed, so a demo looks
+// the same on every run. Set VITE_DEMO_SEED to get a different but equally repeatable set.
+export const DEMO_SEED = import.meta.env.VITE_DEMO_SEED || "dealdigger";
+export const DEMO_DISCOUNT_RANGE: [number, number] = [10, 40]; // Percent off the list price for catalog products without their own range
+export const DEMO_HISTORY_WEEKS = 12; // Weekly points of simulated price history, ending today
+export const DEMO_STORE_MAX_KM = 30; // In-store demo deals are placed this far from the searched city at most
+// The demo catalog is priced in US dollars; demo deals are shown in the UI language's currency at these fixed rates
+export const DEMO_EXCHANGE_RATES: Record<string, number> = { USD: 1, EUR: 0.92 };
+
+// Assumed for prices that carry no currency symbol or code, e.g. "199.99"
+export const DEFAULT_CURRENCY = "USD";
+
+// UI languages; each has a message catalog in locales/. The browser language picks one on the first visit.
+export const SUPPORTED_LOCALES: LocaleInfo[] = [
+  { code: 'en-US', label: 'English', language: 'English', currency: 'USD' },
+  { code: 'de-DE', label: 'Deutsch', language: 'German', currency: 'EUR' },
+];
+export const DEFAULT_LOCALE: LocaleCode = 'en-US';
+export const GEMINI_PROVIDER_ID = "gemini";
+export const GEMINI_SEARCH_PROVIDER_ID = "gemini-search";
+export const LOCAL_FEED_PROVIDER_ID = "local-feed";
+export const IMPORTED_PROVIDER_ID = "imported";
+export const MOCK_PROVIDER_ID = "mock";
+export const DEFAULT_PROVIDER_IDS = [GEMINI_PROVIDER_ID];
+
+// Typical and highest believable discount (%) per category, used by the local deal verification checks.
+export const CATEGORY_DISCOUNT_NORMS: Record<string, { typical: number; max: number }> = {
+  "Electronics": { typical: 30, max: 60 },
+  "Fashion": { typical: 50, max: 80 },
+  "Home & Kitchen": { typical: 40, max: 70 },
+  "Sports & Outdoors": { typical: 40, max: 70 },
+  "Books": { typical: 40, max: 75 },
+  "Groceries": { typical: 25, max: 50 },
+  "Beauty & Personal Care": { typical: 40, max: 70 },
+  "Toys & Games": { typical: 40, max: 70 },
+  "Automotive": { typical: 25, max: 50 },
+  "Travel": { typical: 35, max: 65 },
+};
+export const DEFAULT_DISCOUNT_NORM = { typical: 35, max: 65 };
+
+// JSON or CSV file served alongside the app (e.g. from /public). Override with VITE_LOCAL_DEALS_FEED_URL.
+export const DEFAULT_LOCAL_FEED_URL = "/deals-feed.json";
@@ -0,0 +1,68 @@
+import { DemoProduct } from '../types';
+
+// Bundled products for the offline demo, a few per deal category. Prices are USD; the deal price of each product is
+// drawn from its discount range by the demo seed. See services/demoService.ts.
+export const DEMO_CATALOG: DemoProduct[] = [
+  // Electronics
+  { id: 'sony-wh1000xm5', title: 'Sony WH-1000XM5 Wireless Noise Cancelling Headphones', description: 'Industry-leading noise cancellation, 30-hour battery life and multipoint Bluetooth pairing.', merchant: 'Best Buy', category: 'Electronics', listPrice: 399.99, typicalPrice: 348, fulfillment: 'both', tags: ['headphones', 'audio', 'bluetooth', 'anc'] },
+  { id: 'apple-ipad-10', title: 'Apple iPad 10.9-inch (10th Gen, 64GB, Wi-Fi)', description: 'Liquid Retina display, A14 Bionic chip and USB-C, in four colours.', merchant: 'Amazon', category: 'Electronics', listPrice: 349, typicalPrice: 329, fulfillment: 'online', tags: ['tablet', 'ipad', 'apple'], discountRange: [5, 20] },
+  { id: 'samsung-qn90c-55', title: 'Samsung 55" QN90C Neo QLED 4K Smart TV', description: 'Mini LED backlight with anti-glare screen and a 144Hz refresh rate for gaming.', merchant: 'Costco', category: 'Electronics', listPrice: 1599.99, typicalPrice: 1199, fulfillment: 'in-store', tags: ['tv', 'television', '4k', 'qled'] },
+  { id: 'anker-737-powerbank', title: 'Anker 737 Power Bank (24,000mAh, 140W)', description: 'Charges a laptop and a phone at once, with a smart display showing the remaining charge.', merchant: 'Amazon', category: 'Electronics', listPrice: 149.99, typicalPrice: 109.99, fulfillment: 'online', tags: ['charger', 'battery', 'usb-c', 'power bank'] },
+  { id: 'dell-xps-13', title: 'Dell XPS 13 Laptop (Intel Core Ultra 7, 16GB, 512GB SSD)', description: 'Thin and light 13.4" laptop with an InfinityEdge display and all-day battery.', merchant: 'Dell', category: 'Electronics', listPrice: 1299.99, typicalPrice: 1099.99, fulfillment: 'online', tags: ['laptop', 'notebook', 'computer', 'ultrabook'] },
+
+  // Fashion
+  { id: 'levis-501', title: "Levi's 501 Original Fit Men's Jeans", description: 'The classic straight-leg button-fly jean in a mid-weight rigid denim.', merchant: "Macy's", category: 'Fashion', listPrice: 79.5, typicalPrice: 59.99, fulfillment: 'both', tags: ['jeans', 'denim', 'pants', 'men'] },
+  { id: 'nike-pegasus-40', title: 'Nike Air Zoom Pegasus 40 Running Shoes', description: 'Responsive everyday trainer with Zoom Air cushioning and a breathable mesh upper.', merchant: 'Nike', category: 'Fashion', listPrice: 130, typicalPrice: 109.99, fulfillment: 'online', tags: ['shoes', 'sneakers', 'running', 'trainers'] },
+  { id: 'patagonia-nano-puff', title: 'Patagonia Nano Puff Jacket', description: 'Windproof, water-resistant insulated jacket that packs into its own pocket.', merchant: 'REI', category: 'Fashion', listPrice: 239, typicalPrice: 199, fulfillment: 'both', tags: ['jacket', 'coat', 'outerwear', 'winter'] },
+  { id: 'ray-ban-wayfarer', title: 'Ray-Ban Original Wayfarer Classic Sunglasses', description: 'Acetate frames with polarized G-15 lenses and full UV protection.', merchant: 'Nordstrom', category: 'Fashion', listPrice: 183, typicalPrice: 163, fulfillment: 'online', tags: ['sunglasses', 'glasses', 'eyewear'], discountRange: [5, 25] },
+  { id: 'fake-air-max', title: 'Air Max 90 Sneakers - 100% Authentic, Today Only!', description: 'Hurry, only 3 left! Brand new Air Max 90 in all sizes. Act now, limited time price.', merchant: 'sneaker-outlet-store.xyz', category: 'Fashion', listPrice: 140, typicalPrice: 130, fulfillment: 'online', tags: ['shoes', 'sneakers', 'nike'], discountRange: [82, 88] },
+
+  // Home & Kitchen
+  { id: 'instant-pot-duo', title: 'Instant Pot Duo 7-in-1 Electric Pressure Cooker (6 Quart)', description: 'Pressure cooker, slow cooker, rice cooker, steamer, sauté pan, yogurt maker and warmer in one.', merchant: 'Target', category: 'Home & Kitchen', listPrice: 99.99, typicalPrice: 79.99, fulfillment: 'both', tags: ['pressure cooker', 'kitchen', 'appliance'] },
+  { id: 'dyson-v15', title: 'Dyson V15 Detect Cordless Vacuum', description: 'Laser reveals microscopic dust and a piezo sensor counts particles as you clean.', merchant: 'The Home Depot', category: 'Home & Kitchen', listPrice: 749.99, typicalPrice: 649.99, fulfillment: 'both', tags: ['vacuum', 'cleaning', 'cordless'] },
+  { id: 'kitchenaid-artisan', title: 'KitchenAid Artisan 5-Quart Tilt-Head Stand Mixer', description: '10 speeds, a stainless steel bowl and attachments for pasta, grinding and more.', merchant: 'Walmart', category: 'Home & Kitchen', listPrice: 449.99, typicalPrice: 379.99, fulfillment: 'both', tags: ['mixer', 'baking', 'kitchen', 'appliance'] },
+  { id: 'ikea-kallax', title: 'IKEA KALLAX Shelf Unit (4x4, White)', description: 'Sturdy cube shelving that works as a room divider, bookcase or TV stand.', merchant: 'IKEA', category: 'Home & Kitchen', listPrice: 169.99, typicalPrice: 169.99, fulfillment: 'in-store', tags: ['shelf', 'furniture', 'storage', 'bookcase'], discountRange: [5, 15] },
+  { id: 'nespresso-vertuo', title: 'Nespresso Vertuo Next Coffee and Espresso Maker', description: 'One-touch brewing for five cup sizes, with an Aeroccino milk frother included.', merchant: 'Amazon', category: 'Home & Kitchen', listPrice: 209, typicalPrice: 159, fulfillment: 'online', tags: ['coffee', 'espresso', 'machine'] },
+
+  // Sports & Outdoors
+  { id: 'yeti-tundra-45', title: 'YETI Tundra 45 Hard Cooler', description: 'Rotomolded cooler with PermaFrost insulation that keeps ice for days.', merchant: 'REI', category: 'Sports & Outdoors', listPrice: 325, typicalPrice: 300, fulfillment: 'both', tags: ['cooler', 'camping', 'outdoor'], discountRange: [5, 20] },
+  { id: 'bowflex-552', title: 'Bowflex SelectTech 552 Adjustable Dumbbells (Pair)', description: 'Dial from 5 to 52.5 lbs per dumbbell; replaces 15 sets of weights.', merchant: "Dick's Sporting Goods", category: 'Sports & Outdoors', listPrice: 429, typicalPrice: 349, fulfillment: 'both', tags: ['dumbbells', 'weights', 'fitness', 'gym'] },
+  { id: 'coleman-sundome-4', title: 'Coleman Sundome 4-Person Camping Tent', description: 'Sets up in 10 minutes, with a WeatherTec system to keep you dry.', merchant: 'Walmart', category: 'Sports & Outdoors', listPrice: 99.99, typicalPrice: 79.99, fulfillment: 'both', tags: ['tent', 'camping', 'outdoor'] },
+  { id: 'garmin-forerunner-265', title: 'Garmin Forerunner 265 GPS Running Smartwatch', description: 'AMOLED display, training readiness and HRV status, up to 13 days of battery.', merchant: 'Amazon', category: 'Sports & Outdoors', listPrice: 449.99, typicalPrice: 399.99, fulfillment: 'online', tags: ['watch', 'gps', 'running', 'fitness tracker'] },
+
+  // Books
+  { id: 'atomic-habits', title: 'Atomic Habits by James Clear (Hardcover)', description: 'An easy and proven way to build good habits and break bad ones.', merchant: 'Amazon', category: 'Books', listPrice: 27, typicalPrice: 13.79, fulfillment: 'online', tags: ['book', 'self-help', 'habits', 'bestseller'], discountRange: [40, 55] },
+  { id: 'project-hail-mary', title: 'Project Hail Mary by Andy Weir (Paperback)', description: 'A lone astronaut must save the earth in this science fiction bestseller.', merchant: 'Barnes & Noble', category: 'Books', listPrice: 19.99, typicalPrice: 14.99, fulfillment: 'both', tags: ['book', 'novel', 'science fiction', 'sci-fi'] },
+  { id: 'kindle-paperwhite', title: 'Kindle Paperwhite (16GB, 6.8" Display)', description: 'Glare-free display, adjustable warm light and weeks of battery life.', merchant: 'Amazon', category: 'Books', listPrice: 149.99, typicalPrice: 124.99, fulfillment: 'online', tags: ['ereader', 'kindle', 'ebook', 'reader'] },
+  { id: 'salt-fat-acid-heat', title: 'Salt, Fat, Acid, Heat by Samin Nosrat (Hardcover)', description: 'Mastering the elements of good cooking, illustrated by Wendy MacNaughton.', merchant: 'Corner Bookshop', category: 'Books', listPrice: 40, typicalPrice: 28, fulfillment: 'in-store', tags: ['book', 'cookbook', 'cooking'] },
+
+  // Groceries
+  { id: 'kirkland-coffee', title: 'Kirkland Signature Colombian Supremo Whole Bean Coffee (3 lb)', description: 'Medium roast, 100% Colombian arabica beans.', merchant: 'Costco', category: 'Groceries', listPrice: 21.99, typicalPrice: 18.99, fulfillment: 'in-store', tags: ['coffee', 'beans', 'pantry'], discountRange: [10, 25] },
+  { id: 'olive-oil-california', title: 'California Olive Ranch Extra Virgin Olive Oil (1.4 L)', description: 'Cold-pressed everyday olive oil with a fruity, mild flavour.', merchant: 'Target', category: 'Groceries', listPrice: 24.99, typicalPrice: 21.49, fulfillment: 'both', tags: ['olive oil', 'pantry', 'cooking'], discountRange: [10, 25] },
+  { id: 'organic-produce-box', title: 'Organic Seasonal Produce Box (Medium)', description: 'About 12 lbs of local organic fruit and vegetables, picked this week.', merchant: 'Greenfield Market', category: 'Groceries', listPrice: 45, typicalPrice: 42, fulfillment: 'in-store', tags: ['vegetables', 'fruit', 'organic', 'produce'], discountRange: [10, 30] },
+  { id: 'oatly-barista', title: 'Oatly Barista Edition Oat Milk (6 x 32 oz)', description: 'Foams like dairy milk for lattes and cappuccinos.', merchant: 'Walmart', category: 'Groceries', listPrice: 29.94, typicalPrice: 26.94, fulfillment: 'online', tags: ['oat milk', 'dairy-free', 'drinks'], discountRange: [10, 25] },
+
+  // Beauty & Personal Care
+  { id: 'dyson-airwrap', title: 'Dyson Airwrap Multi-Styler Complete Long', description: 'Curls, waves, smooths and dries with no extreme heat.', merchant: 'Sephora', category: 'Beauty & Personal Care', listPrice: 599.99, typicalPrice: 549.99, fulfillment: 'both', tags: ['hair', 'styler', 'dryer'], discountRange: [5, 20] },
+  { id: 'cerave-moisturizing', title: 'CeraVe Moisturizing Cream (19 oz)', description: 'Fragrance-free daily moisturizer with ceramides and hyaluronic acid.', merchant: 'Ulta Beauty', category: 'Beauty & Personal Care', listPrice: 19.99, typicalPrice: 17.49, fulfillment: 'both', tags: ['skincare', 'moisturizer', 'cream'], discountRange: [10, 30] },
+  { id: 'oral-b-io', title: 'Oral-B iO Series 7 Electric Toothbrush', description: 'Magnetic drive, AI brushing recognition and a pressure sensor.', merchant: 'Target', category: 'Beauty & Personal Care', listPrice: 219.99, typicalPrice: 149.99, fulfillment: 'both', tags: ['toothbrush', 'dental', 'electric'] },
+  { id: 'philips-oneblade', title: 'Philips Norelco OneBlade Pro Face + Body', description: 'Trims, edges and shaves any length of hair, with 14 length settings.', merchant: 'Amazon', category: 'Beauty & Personal Care', listPrice: 79.99, typicalPrice: 59.99, fulfillment: 'online', tags: ['shaver', 'trimmer', 'grooming'] },
+
+  // Toys & Games
+  { id: 'lego-millennium-falcon', title: 'LEGO Star Wars Millennium Falcon 75257', description: '1,351 pieces with seven minifigures including Han Solo and Chewbacca.', merchant: 'Target', category: 'Toys & Games', listPrice: 169.99, typicalPrice: 135.99, fulfillment: 'both', tags: ['lego', 'star wars', 'building set'] },
+  { id: 'nintendo-switch-oled', title: 'Nintendo Switch OLED Model', description: '7-inch OLED screen, wide adjustable stand and 64GB of storage.', merchant: 'GameStop', category: 'Toys & Games', listPrice: 349.99, typicalPrice: 329.99, fulfillment: 'both', tags: ['console', 'gaming', 'nintendo', 'video games'], discountRange: [5, 15] },
+  { id: 'catan-board-game', title: 'Catan Board Game (Base Game)', description: 'Trade, build and settle the island of Catan; 3-4 players, ages 10 and up.', merchant: 'Amazon', category: 'Toys & Games', listPrice: 54.99, typicalPrice: 43.99, fulfillment: 'online', tags: ['board game', 'strategy', 'family'] },
+  { id: 'melissa-doug-kitchen', title: 'Melissa & Doug Wooden Chef\'s Pretend Play Kitchen', description: 'Sturdy wooden play kitchen with an oven, sink and storage shelves.', merchant: 'Walmart', category: 'Toys & Games', listPrice: 199.99, typicalPrice: 159.99, fulfillment: 'online', tags: ['toy', 'kids', 'pretend play'] },
+
+  // Automotive
+  { id: 'michelin-defender2', title: 'Michelin Defender2 All-Season Tires (Set of 4, 215/55R17)', description: '80,000-mile warranty, installation and balancing included.', merchant: 'Costco', category: 'Automotive', listPrice: 899.96, typicalPrice: 759.96, fulfillment: 'in-store', tags: ['tires', 'tyres', 'car', 'wheels'] },
+  { id: 'noco-gb40', title: 'NOCO Boost Plus GB40 1000A Jump Starter', description: 'Portable lithium jump starter for gas engines up to 6 litres; doubles as a power bank.', merchant: 'Amazon', category: 'Automotive', listPrice: 129.95, typicalPrice: 99.95, fulfillment: 'online', tags: ['jump starter', 'battery', 'car'] },
+  { id: 'chemical-guys-kit', title: 'Chemical Guys 16-Piece Car Wash and Detailing Kit', description: 'Soap, wax, tire shine, microfiber towels and a foam gun in a carry bag.', merchant: 'AutoZone', category: 'Automotive', listPrice: 149.99, typicalPrice: 119.99, fulfillment: 'both', tags: ['car wash', 'detailing', 'cleaning', 'car'] },
+  { id: 'garmin-dashcam', title: 'Garmin Dash Cam Mini 2', description: 'Car-key-sized 1080p dash cam with voice control and automatic incident detection.', merchant: 'Best Buy', category: 'Automotive', listPrice: 129.99, typicalPrice: 109.99, fulfillment: 'both', tags: ['dash cam', 'camera', 'car'] },
+
+  // Travel
+  { id: 'samsonite-freeform', title: 'Samsonite Freeform Hardside Carry-On Spinner', description: 'Lightweight expandable carry-on with TSA lock and double spinner wheels.', merchant: "Macy's", category: 'Travel', listPrice: 260, typicalPrice: 159.99, fulfillment: 'both', tags: ['luggage', 'suitcase', 'carry-on'], discountRange: [30, 50] },
+  { id: 'city-hotel-weekend', title: 'City Centre Hotel Weekend (2 Nights, Breakfast Included)', description: 'Double room for two nights in a 4-star downtown hotel, with late checkout.', merchant: 'Expedia', category: 'Travel', listPrice: 480, typicalPrice: 420, fulfillment: 'online', tags: ['hotel', 'weekend', 'city break', 'stay'] },
+  { id: 'bose-qc-earbuds', title: 'Bose QuietComfort Ultra Earbuds', description: 'Immersive audio and world-class noise cancellation for flights and commutes.', merchant: 'Apple', category: 'Travel', listPrice: 299, typicalPrice: 279, fulfillment: 'both', tags: ['earbuds', 'headphones', 'noise cancelling', 'flight'], discountRange: [5, 20] },
+  { id: 'travel-adapter', title: 'EPICKA Universal Travel Adapter with USB-C', description: 'One adapter for outlets in over 150 countries, with four USB ports.', merchant: 'Amazon', category: 'Travel', listPrice: 29.99, typicalPrice: 24.99, fulfillment: 'online', tags: ['adapter', 'plug', 'charger'] },
+];
@@ -0,0 +1,60 @@
+import { GazetteerPlace } from '../types';
+
+// Bundled offline gazetteer: major cities with the names people type for them. See services/locationService.ts.
+export const GAZETTEER: GazetteerPlace[] = [
+  { id: 'us-nyc', city: 'New York', region: 'New York', country: 'United States', aliases: ['NYC', 'New York City', 'Manhattan', 'Brooklyn'], coordinates: { lat: 40.7128, lon: -74.006 } },
+  { id: 'us-la', city: 'Los Angeles', region: 'California', country: 'United States', aliases: ['LA', 'L.A.'], coordinates: { lat: 34.0522, lon: -118.2437 } },
+  { id: 'us-chi', city: 'Chicago', region: 'Illinois', country: 'United States', aliases: [], coordinates: { lat: 41.8781, lon: -87.6298 } },
+  { id: 'us-hou', city: 'Houston', region: 'Texas', country: 'United States', aliases: [], coordinates: { lat: 29.7604, lon: -95.3698 } },
+  { id: 'us-phx', city: 'Phoenix', region: 'Arizona', country: 'United States', aliases: [], coordinates: { lat: 33.4484, lon: -112.074 } },
+  { id: 'us-phl', city: 'Philadelphia', region: 'Pennsylvania', country: 'United States', aliases: ['Philly'], coordinates: { lat: 39.9526, lon: -75.1652 } },
+  { id: 'us-sa', city: 'San Antonio', region: 'Texas', country: 'United States', aliases: [], coordinates: { lat: 29.4241, lon: -98.4936 } },
+  { id: 'us-sd', city: 'San Diego', region: 'California', country: 'United States', aliases: [], coordinates: { lat: 32.7157, lon: -117.1611 } },
+  { id: 'us-dal', city: 'Dallas', region: 'Texas', country: 'United States', aliases: [], coordinates: { lat: 32.7767, lon: -96.797 } },
+  { id: 'us-aus', city: 'Austin', region: 'Texas', country: 'United States', aliases: [], coordinates: { lat: 30.2672, lon: -97.7431 } },
+  { id: 'us-sf', city: 'San Francisco', region: 'California', country: 'United States', aliases: ['SF', 'San Fran'], coordinates: { lat: 37.7749, lon: -122.4194 } },
+  { id: 'us-sj', city: 'San Jose', region: 'California', country: 'United States', aliases: [], coordinates: { lat: 37.3382, lon: -121.8863 } },
+  { id: 'us-sea', city: 'Seattle', region: 'Washington', country: 'United States', aliases: [], coordinates: { lat: 47.6062, lon: -122.3321 } },
+  { id: 'us-den', city: 'Denver', region: 'Colorado', country: 'United States', aliases: [], coordinates: { lat: 39.7392, lon: -104.9903 } },
+  { id: 'us-dc', city: 'Washington', region: 'District of Columbia', country: 'United States', aliases: ['Washington DC', 'Washington D.C.', 'DC'], coordinates: { lat: 38.9072, lon: -77.0369 } },
+  { id: 'us-bos', city: 'Boston', region: 'Massachusetts', country: 'United States', aliases: [], coordinates: { lat: 42.3601, lon: -71.0589 } },
+  { id: 'us-mia', city: 'Miami', region: 'Florida', country: 'United States', aliases: [], coordinates: { lat: 25.7617, lon: -80.1918 } },
+  { id: 'us-atl', city: 'Atlanta', region: 'Georgia', country: 'United States', aliases: ['ATL'], coordinates: { lat: 33.749, lon: -84.388 } },
+  { id: 'us-las', city: 'Las Vegas', region: 'Nevada', country: 'United States', aliases: ['Vegas'], coordinates: { lat: 36.1699, lon: -115.1398 } },
+  { id: 'us-pdx', city: 'Portland', region: 'Oregon', country: 'United States', aliases: [], coordinates: { lat: 45.5152, lon: -122.6784 } },
+  { id: 'us-msp', city: 'Minneapolis', region: 'Minnesota', country: 'United States', aliases: [], coordinates: { lat: 44.9778, lon: -93.265 } },
+  { id: 'us-det', city: 'Detroit', region: 'Michigan', country: 'United States', aliases: [], coordinates: { lat: 42.3314, lon: -83.0458 } },
+  { id: 'ca-tor', city: 'Toronto', region: 'Ontario', country: 'Canada', aliases: [], coordinates: { lat: 43.6532, lon: -79.3832 } },
+  { id: 'ca-mtl', city: 'Montreal', region: 'Quebec', country: 'Canada', aliases: ['Montréal'], coordinates: { lat: 45.5019, lon: -73.5674 } },
+  { id: 'ca-van', city: 'Vancouver', region: 'British Columbia', country: 'Canada', aliases: [], coordinates: { lat: 49.2827, lon: -123.1207 } },
+  { id: 'mx-cdmx', city: 'Mexico City', region: 'Mexico City', country: 'Mexico', aliases: ['CDMX', 'Ciudad de México'], coordinates: { lat: 19.4326, lon: -99.1332 } },
+  { id: 'br-sp', city: 'São Paulo', region: 'São Paulo', country: 'Brazil', aliases: ['Sao Paulo'], coordinates: { lat: -23.5505, lon: -46.6333 } },
+  { id: 'gb-lon', city: 'London', region: 'England', country: 'United Kingdom', aliases: ['Greater London'], coordinates: { lat: 51.5074, lon: -0.1278 } },
+  { id: 'gb-man', city: 'Manchester', region: 'England', country: 'United Kingdom', aliases: [], coordinates: { lat: 53.4808, lon: -2.2426 } },
+  { id: 'gb-edi', city: 'Edinburgh', region: 'Scotland', country: 'United Kingdom', aliases: [], coordinates: { lat: 55.9533, lon: -3.1883 } },
+  { id: 'ie-dub', city: 'Dublin', region: 'Leinster', country: 'Ireland', aliases: [], coordinates: { lat: 53.3498, lon: -6.2603 } },
+  { id: 'fr-par', city: 'Paris', region: 'Île-de-France', country: 'France', aliases: [], coordinates: { lat: 48.8566, lon: 2.3522 } },
+  { id: 'fr-lyo', city: 'Lyon', region: 'Auvergne-Rhône-Alpes', country: 'France', aliases: [], coordinates: { lat: 45.764, lon: 4.8357 } },
+  { id: 'de-ber', city: 'Berlin', region: 'Berlin', country: 'Germany', aliases: [], coordinates: { lat: 52.52, lon: 13.405 } },
+  { id: 'de-muc', city: 'Munich', region: 'Bavaria', country: 'Germany', aliases: ['München'], coordinates: { lat: 48.1351, lon: 11.582 } },
+  { id: 'de-ham', city: 'Hamburg', region: 'Hamburg', country: 'Germany', aliases: [], coordinates: { lat: 53.5511, lon: 9.9937 } },
+  { id: 'de-fra', city: 'Frankfurt', region: 'Hesse', country: 'Germany', aliases: ['Frankfurt am Main'], coordinates: { lat: 50.1109, lon: 8.6821 } },
+  { id: 'nl-ams', city: 'Amsterdam', region: 'North Holland', country: 'Netherlands', aliases: [], coordinates: { lat: 52.3676, lon: 4.9041 } },
+  { id: 'es-mad', city: 'Madrid', region: 'Community of Madrid', country: 'Spain', aliases: [], coordinates: { lat: 40.4168, lon: -3.7038 } },
+  { id: 'es-bcn', city: 'Barcelona', region: 'Catalonia', country: 'Spain', aliases: [], coordinates: { lat: 41.3874, lon: 2.1686 } },
+  { id: 'it-rom', city: 'Rome', region: 'Lazio', country: 'Italy', aliases: ['Roma'], coordinates: { lat: 41.9028, lon: 12.4964 } },
+  { id: 'it-mil', city: 'Milan', region: 'Lombardy', country: 'Italy', aliases: ['Milano'], coordinates: { lat: 45.4642, lon: 9.19 } },
+  { id: 'se-sto', city: 'Stockholm', region: 'Stockholm County', country: 'Sweden', aliases: [], coordinates: { lat: 59.3293, lon: 18.0686 } },
+  { id: 'pl-waw', city: 'Warsaw', region: 'Masovia', country: 'Poland', aliases: ['Warszawa'], coordinates: { lat: 52.2297, lon: 21.0122 } },
+  { id: 'in-mum', city: 'Mumbai', region: 'Maharashtra', country: 'India', aliases: ['Bombay'], coordinates: { lat: 19.076, lon: 72.8777 } },
+  { id: 'in-del', city: 'New Delhi', region: 'Delhi', country: 'India', aliases: ['Delhi'], coordinates: { lat: 28.6139, lon: 77.209 } },
+  { id: 'in-blr', city: 'Bengaluru', region: 'Karnataka', country: 'India', aliases: ['Bangalore'], coordinates: { lat: 12.9716, lon: 77.5946 } },
+  { id: 'jp-tyo', city: 'Tokyo', region: 'Tokyo', country: 'Japan', aliases: [], coordinates: { lat: 35.6762, lon: 139.6503 } },
+  { id: 'kr-sel', city: 'Seoul', region: 'Seoul', country: 'South Korea', aliases: [], coordinates: { lat: 37.5665, lon: 126.978 } },
+  { id: 'sg-sin', city: 'Singapore', region: 'Singapore', country: 'Singapore', aliases: [], coordinates: { lat: 1.3521, lon: 103.8198 } },
+  { id: 'ae-dxb', city: 'Dubai', region: 'Dubai', country: 'United Arab Emirates', aliases: [], coordinates: { lat: 25.2048, lon: 55.2708 } },
+  { id: 'au-syd', city: 'Sydney', region: 'New South Wales', country: 'Australia', aliases: [], coordinates: { lat: -33.8688, lon: 151.2093 } },
+  { id: 'au-mel', city: 'Melbourne', region: 'Victoria', country: 'Australia', aliases: [], coordinates: { lat: -37.8136, lon: 144.9631 } },
+  { id: 'nz-akl', city: 'Auckland', region: 'Auckland', country: 'New Zealand', aliases: [], coordinates: { lat: -36.8485, lon: 174.7633 } },
+  { id: 'za-jnb', city: 'Johannesburg', region: 'Gauteng', country: 'South Africa', aliases: ['Joburg'], coordinates: { lat: -26.2041, lon: 28.0473 } },
+];
@@ -0,0 +1,99 @@
+import { MerchantRecord, ScamPattern } from '../types';
+
+// Bundled merchant reputation data. Users can override any tier from the deal cards; see services/merchantRegistry.ts.
+export const MERCHANT_REGISTRY: MerchantRecord[] = [
+  {
+    id: 'amazon',
+    name: 'Amazon',
+    aliases: ['Amazon.com', 'Amazon US', 'Amazon Marketplace'],
+    domains: ['amazon.com', 'amazon.co.uk', 'amazon.de', 'amazon.ca', 'amazon.in'],
+    tier: 'trusted',
+    notes: 'Marketplace listings are sold by third parties; check the seller rating.',
+  },
+  { id: 'walmart', name: 'Walmart', aliases: ['Walmart.com'], domains: ['walmart.com', 'walmart.ca'], tier: 'trusted' },
+  { id: 'target', name: 'Target', aliases: ['Target.com'], domains: ['target.com'], tier: 'trusted' },
+  { id: 'bestbuy', name: 'Best Buy', aliases: ['BestBuy', 'BestBuy.com'], domains: ['bestbuy.com', 'bestbuy.ca'], tier: 'trusted' },
+  { id: 'costco', name: 'Costco', aliases: ['Costco Wholesale'], domains: ['costco.com'], tier: 'trusted', notes: 'Some deals require a membership.' },
+  {
+    id: 'ebay',
+    name: 'eBay',
+    aliases: ['eBay.com'],
+    domains: ['ebay.com', 'ebay.co.uk', 'ebay.de'],
+    tier: 'trusted',
+    notes: 'Items come from individual sellers; check feedback and the return policy.',
+  },
+  { id: 'newegg', name: 'Newegg', aliases: ['Newegg.com'], domains: ['newegg.com'], tier: 'trusted' },
+  { id: 'homedepot', name: 'The Home Depot', aliases: ['Home Depot'], domains: ['homedepot.com'], tier: 'trusted' },
+  { id: 'lowes', name: "Lowe's", aliases: ['Lowes'], domains: ['lowes.com'], tier: 'trusted' },
+  { id: 'macys', name: "Macy's", aliases: ['Macys'], domains: ['macys.com'], tier: 'trusted' },
+  { id: 'nordstrom', name: 'Nordstrom', aliases: ['Nordstrom Rack'], domains: ['nordstrom.com', 'nordstromrack.com'], tier: 'trusted' },
+  { id: 'kohls', name: "Kohl's", aliases: ['Kohls'], domains: ['kohls.com'], tier: 'trusted' },
+  { id: 'ikea', name: 'IKEA', aliases: [], domains: ['ikea.com'], tier: 'trusted' },
+  { id: 'apple', name: 'Apple', aliases: ['Apple Store'], domains: ['apple.com'], tier: 'trusted' },
+  { id: 'bhphoto', name: 'B&H Photo', aliases: ['B&H', 'B&H Photo Video'], domains: ['bhphotovideo.com'], tier: 'trusted' },
+  { id: 'rei', name: 'REI', aliases: ['REI Co-op'], domains: ['rei.com'], tier: 'trusted' },
+  { id: 'sephora', name: 'Sephora', aliases: [], domains: ['sephora.com'], tier: 'trusted' },
+  { id: 'ulta', name: 'Ulta Beauty', aliases: ['Ulta'], domains: ['ulta.com'], tier: 'trusted' },
+  {
+    id: 'etsy',
+    name: 'Etsy',
+    aliases: ['Etsy.com'],
+    domains: ['etsy.com'],
+    tier: 'trusted',
+    notes: 'Independent sellers; quality and shipping times vary.',
+  },
+
+  // Known bad storefronts the scam patterns below do not catch by name. Blocked merchants are hidden from the results.
+  {
+    id: 'megadeal-liquidators',
+    name: 'MegaDeal Liquidators',
+    aliases: ['MegaDeal Liquidators Inc'],
+    domains: ['megadeal-liquidators.top'],
+    tier: 'blocked',
+    notes: 'Takes payment without shipping; product photos are copied from brand sites.',
+  },
+  {
+    id: 'luxebrandsdirect',
+    name: 'Luxe Brands Direct',
+    aliases: [],
+    domains: ['luxebrandsdirect.shop', 'luxebrands-direct.com'],
+    tier: 'blocked',
+    notes: 'Sells counterfeit designer goods as authentic.',
+  },
+  {
+    id: 'quickshipgadgets',
+    name: 'QuickShip Gadgets',
+    aliases: [],
+    domains: ['quickshipgadgets.store'],
+    tier: 'suspicious',
+    notes: 'Drop-shipper: deliveries take weeks and returns go abroad at your cost.',
+  },
+];
+
+// Names and domains that copy well-known retailers or follow the shape of short-lived scam shops.
+export const SCAM_PATTERNS: ScamPattern[] = [
+  {
+    id: 'retailer-typosquat',
+    pattern: '(amaz0n|arnazon|amazn\\b|wal[- ]?mart[- ]?(outlet|clearance)|best[- ]?buy[- ]?(outlet|clearance)|app1e)',
+    description: 'Imitates the name of a well-known retailer',
+    action: 'hide',
+  },
+  {
+    id: 'outlet-shop-domain',
+    pattern: '(outlet|clearance|factory|wholesale)-?(store|shop|sale)s?\\.(xyz|top|shop|store|online|site|click|buzz)$',
+    description: 'Uses a throwaway "outlet store" domain',
+    action: 'flag',
+  },
+  {
+    id: 'fake-official-store',
+    pattern: '(official|authori[sz]ed)[- ]?(store|shop|outlet)\\.',
+    description: 'Claims to be an "official store" on its own domain',
+    action: 'flag',
+  },
+  {
+    id: 'giveaway',
+    pattern: '(giveaway|free[- ]?iphone|gift[- ]?card[- ]?rewards?|prize[- ]?claim)',
+    description: 'Looks like a giveaway or prize scam rather than a shop',
+    action: 'hide',
+  },
+];
@@ -0,0 +1,391 @@
+import { Message } from '../types';
+import { en } from './en';
+
+// German UI messages. Product data (titles, merchants, categories) stays as delivered.
+export const de: Record<keyof typeof en, Message> = {
+  'common.close': 'Schließen',
+  'common.stop': 'Stopp',
+  'common.clear': 'Leeren',
+  'common.remove': 'Entfernen',
+  'common.notAvailable': 'k. A.',
+  'common.unknownReason': 'unbekannter Grund',
+  'common.loading': 'Wird geladen...',
+  'common.withinKm': 'Im Umkreis von {km} km',
+  'common.retrying': 'Der KI-Dienst ist ausgelastet; neuer Versuch ({attempt} von {max})…',
+
+  'app.language': 'Sprache',
+  'app.assistant': 'Assistent',
+  'app.data': 'Daten',
+  'app.saved': 'Gespeichert ({count})',
+  'app.watchlist': 'Merkliste ({count})',
+  'app.tagline': 'Dein intelligenter Assistent für persönliche, lohnende Angebote aus dem ganzen Web. Mit den Filtern unten findest du genau, was du suchst!',
+  'app.notice': 'Hinweis:',
+  'app.error': 'Fehler:',
+  'app.apiKeyMissing': 'VITE_GEMINI_API_KEY ist nicht gesetzt, daher läuft die App im Offline-Demomodus: Die Angebote stammen aus einem mitgelieferten Beispielkatalog, Prüfung, Vergleich und Assistent arbeiten mit festen Regeln. Setze den Schlüssel für die KI-Funktionen.',
+  'app.aiError': 'Keine Verbindung zu den KI-Diensten. Bitte prüfe deinen API-Schlüssel oder deine Netzwerkverbindung. Details: {details}',
+  'app.sourcesFailed': 'Einige Angebotsquellen sind fehlgeschlagen: {sources}',
+  'app.linkedDealMissing': 'Das verlinkte Angebot ist nicht unter den aktuellen Ergebnissen; vielleicht gibt es es nicht mehr.',
+  'app.cachedResults': 'Gespeicherte Ergebnisse vom {date}.',
+  'app.cachedResultsStale': 'Gespeicherte Ergebnisse vom {date}; neue Ergebnisse werden im Hintergrund geladen…',
+  'app.validation.usable': '{accepted} von {received} Angeboten waren verwendbar.',
+  'app.validation.why': { one: 'Warum wurde {count} Angebot weggelassen?', other: 'Warum wurden {count} Angebote weggelassen?' },
+  'app.validation.item': 'Eintrag {number}',
+  'app.sources.title': 'Quellen (aus der Google-Suche):',
+  'app.sources.blocked': 'Blockierte URI: Schema nicht erlaubt oder ungültige URL. Ursprüngliche URI: {uri}',
+  'app.sources.restricted': '(Link aus Sicherheitsgründen gesperrt)',
+  'app.streaming': { one: 'Bisher {count} Angebot; die Suche läuft noch…', other: 'Bisher {count} Angebote; die Suche läuft noch…' },
+  'app.stopped': { one: 'Suche gestoppt; angezeigt wird das {count} Angebot, das bis dahin gefunden wurde.', other: 'Suche gestoppt; angezeigt werden die {count} Angebote, die bis dahin gefunden wurden.' },
+  'app.noDeals': 'Keine passenden Angebote gefunden. Versuche es mit einer anderen Suche!',
+  'app.rankedBy': { one: 'Sortiert nach {count} deiner Bewertungen.', other: 'Sortiert nach {count} deiner Bewertungen.' },
+  'app.resetProfile': 'Gelernte Vorlieben zurücksetzen',
+  'app.blockedShown': { one: '{count} Angebot von gesperrten Händlern wird angezeigt.', other: '{count} Angebote von gesperrten Händlern werden angezeigt.' },
+  'app.blockedHidden': { one: '{count} Angebot von gesperrten Händlern ist ausgeblendet.', other: '{count} Angebote von gesperrten Händlern sind ausgeblendet.' },
+  'app.hideThem': 'Ausblenden',
+  'app.showThem': 'Anzeigen',
+  'app.noFilterMatches': 'Keine Angebote passen zu den gewählten Filtern.',
+  'app.loadingMore': 'Weitere Angebote werden geladen…',
+  'app.loadMore': 'Weitere Angebote laden',
+  'app.noMoreDeals': 'Für diese Suche wurden keine weiteren Angebote gefunden.',
+  'app.compare.selected': '{count} von {max} Angeboten ausgewählt',
+  'app.compare.minimum': 'Wähle mindestens {min} Angebote',
+  'app.compare.button': 'Vergleichen',
+  'app.footer.disclaimer': 'Alle Angebote wurden zu Demonstrationszwecken von einer KI erzeugt.',
+  'app.footer.poweredBy': 'Mit React, Tailwind CSS und der Google Gemini API.',
+
+  'data.exported': { one: '{count} Angebot als {format} exportiert.', other: '{count} Angebote als {format} exportiert.' },
+  'data.backupDownloaded': 'Sicherung heruntergeladen.',
+  'data.restored': 'Wiederhergestellt: {searches} gespeicherte Suchen, {watched} gemerkte Angebote, {ratings} Bewertungen und {merchants} Händlerbewertungen.',
+  'data.imported': { one: '{count} Angebot importiert{skipped}. „Importierte Angebote“ ist jetzt als Quelle ausgewählt.', other: '{count} Angebote importiert{skipped}. „Importierte Angebote“ ist jetzt als Quelle ausgewählt.' },
+  'data.importSkipped': ' ({count} unbrauchbar und weggelassen)',
+  'data.importFailed': '{file} konnte nicht importiert werden: {message}',
+  'data.noUsableDeals': 'In {file} wurden keine verwendbaren Angebote gefunden.',
+  'data.title': 'Import & Export',
+  'data.results.title': 'Aktuelle Ergebnisse',
+  'data.results.description': {
+    one: 'Das {count} angezeigte Angebot in der aktuellen Reihenfolge und Filterung, mit erkannten Preisen, Rabatt, Prüfergebnis und Quellen.',
+    other: 'Die {count} angezeigten Angebote in der aktuellen Reihenfolge und Filterung, mit erkannten Preisen, Rabatt, Prüfergebnis und Quellen.',
+  },
+  'data.exportCsv': 'Als CSV exportieren',
+  'data.exportJson': 'Als JSON exportieren',
+  'data.backup.title': 'Sicherung',
+  'data.backup.description': 'Gespeicherte Suchen, Merkliste, Bewertungen und Händlerbewertungen in einer Datei. Beim Wiederherstellen wird ersetzt, was in diesem Browser gespeichert ist.',
+  'data.backup.download': 'Sicherung herunterladen',
+  'data.backup.restore': 'Sicherung wiederherstellen',
+  'data.backup.invalidJson': 'Die Sicherungsdatei ist kein gültiges JSON.',
+  'data.backup.notBackup': 'Diese Datei ist keine DealDigger-Sicherung.',
+  'data.backup.tooNew': 'Diese Sicherung stammt aus einer neueren Version der App (Format {version}); diese Version liest bis Format {supported}.',
+  'data.import.title': 'Angebotsliste importieren',
+  'data.import.description': 'Eine CSV-Datei mit Kopfzeile oder ein JSON-Array mit den Feldnamen der Angebote (title, description, originalPrice, discountedPrice, merchant, category, imageUrl, fulfillment, storeLocation). Die Angebote werden als Quelle „Importierte Angebote“ durchsucht; ein neuer Import ersetzt den vorherigen.',
+  'data.import.button': 'Angebote importieren',
+  'data.import.count': '{count} importiert',
+
+  'search.keywords': 'Angebote suchen (Stichwörter)',
+  'search.keywordsPlaceholder': 'z. B. „Laptop“, „Laufschuhe“',
+  'search.location': 'Ort (optional)',
+  'search.locationPlaceholder': 'z. B. „Berlin“, „Online“',
+  'search.radius': 'Suchradius',
+  'search.anyDistance': 'Beliebige Entfernung',
+  'search.resolvedTo': 'Erkannt als {place}',
+  'search.unresolved': 'Nicht in der Offline-Ortsliste; der Text wird so an die Suche übergeben.',
+  'search.noCoordinates': ' (keine Koordinaten, daher keine Entfernungen)',
+  'search.categories': 'Nach Kategorien filtern ({count} ausgewählt)',
+  'search.sources': 'Angebotsquellen (die Ergebnisse aller ausgewählten Quellen werden zusammengeführt)',
+  'search.sourceSlower': '(langsamer, aktueller)',
+
+  'providers.gemini.label': 'Gemini (KI-generiert)',
+  'providers.gemini.description': 'Realistische Angebotsvorschläge, die Gemini aus deinen Vorlieben erzeugt.',
+  'providers.geminiSearch.label': 'Gemini + Google-Suche',
+  'providers.geminiSearch.description': 'Aktuelle Angebote aus dem Web, gefunden über die Google-Suche (langsamer, aktueller).',
+  'providers.localFeed.label': 'Lokaler Angebots-Feed',
+  'providers.localFeed.description': 'Angebote aus einer JSON- oder CSV-Datei, die mit der App ausgeliefert wird.',
+  'providers.imported.label': 'Importierte Angebote',
+  'providers.imported.description': 'Angebote aus einer CSV- oder JSON-Datei, die du importiert hast.',
+  'providers.mock.label': 'Offline-Demo-Katalog',
+  'providers.mock.description': 'Beispielangebote aus einem mitgelieferten Katalog, bei jedem Start gleich bepreist in der Währung deiner Sprache; braucht weder API-Schlüssel noch Netz.',
+  'search.skipCache': 'Cache überspringen (neue Ergebnisse laden)',
+  'search.pageSize': 'Angebote pro Seite',
+  'search.searchingWeb': 'Web wird durchsucht...',
+  'search.findWeb': 'Neueste Angebote finden (Web)',
+  'search.searching': 'Suche läuft...',
+  'search.findSelected': 'Angebote finden (ausgewählte Quellen)',
+
+  'merchant.trusted': 'Vertrauenswürdig',
+  'merchant.unknown': 'Unbewertet',
+  'merchant.suspicious': 'Vorsicht',
+  'merchant.blocked': 'Gesperrt',
+  'trend.rising': 'Steigend',
+  'trend.falling': 'Fallend',
+  'trend.flat': 'Stabil',
+
+  'card.percentOff': '{percent} % RABATT',
+  'card.new': 'Neu',
+  'card.priceDown': 'Preis gesunken',
+  'card.priceUp': 'Preis gestiegen',
+  'card.was': '(vorher {price})',
+  'card.merchant': 'Händler:',
+  'card.category': 'Kategorie:',
+  'card.yourRating': 'Deine Bewertung',
+  'card.fromRegistry': 'Aus dem Händlerverzeichnis',
+  'card.rateMerchant': 'Diesen Händler bewerten',
+  'card.markTrusted': 'Händler als vertrauenswürdig markieren',
+  'card.blockMerchant': 'Händler sperren',
+  'card.clearRating': 'Meine Bewertung entfernen',
+  'card.online': 'Online',
+  'card.inStore': 'Im Geschäft',
+  'card.onlineAndInStore': 'Online & im Geschäft',
+  'card.distance': '{km} km entfernt',
+  'card.reportedBy': 'Von {count} Quellen gemeldet; der beste Preis wird angezeigt.',
+  'card.viewAtMerchant': 'Beim Händler ansehen',
+  'card.unverifiedSource': 'Unbestätigte Quelle',
+  'card.unverifiedSourceHint': 'Kein Suchergebnis belegt dieses Angebot; es könnte veraltet oder von der KI erfunden sein.',
+  'card.verify': 'Angebot prüfen',
+  'card.priceHistory': 'Preisverlauf',
+  'card.moreLikeThis': 'Mehr davon',
+  'card.lessLikeThis': 'Weniger davon',
+  'card.whyShown': 'Warum sehe ich das?',
+  'card.watching': 'Gemerkt (zum Entfernen klicken)',
+  'card.watch': 'Merken',
+  'card.compare': 'Vergleichen',
+
+  'profile.liked': { one: 'Dir hat {count} Angebot {what} gefallen', other: 'Dir haben {count} Angebote {what} gefallen' },
+  'profile.disliked': { one: 'Dir hat {count} Angebot {what} nicht gefallen', other: 'Dir haben {count} Angebote {what} nicht gefallen' },
+  'profile.inCategory': 'in {category}',
+  'profile.fromMerchant': 'von {merchant}',
+  'profile.priced': 'im Preisbereich {band}',
+  'profile.band.under25': 'unter 25',
+  'profile.band.25to100': '25–100',
+  'profile.band.100to500': '100–500',
+  'profile.band.over500': 'über 500',
+  'profile.matchesLiked': 'Enthält Wörter aus Angeboten, die dir gefallen haben: {words}',
+  'profile.sharesDisliked': 'Enthält Wörter aus Angeboten, die dir nicht gefallen haben: {words}',
+  'profile.noRatings': 'Noch keine Bewertungen, daher erscheinen die Angebote in der Reihenfolge der Quelle.',
+  'profile.nothingSimilar': 'Nichts, was du bewertet hast, ist ähnlich, daher bleibt dieses Angebot an seiner ursprünglichen Stelle.',
+
+  'filters.showing': { one: '{shown} von {count} Angebot', other: '{shown} von {count} Angeboten' },
+  'filters.clear': { one: '{count} Filter zurücksetzen', other: '{count} Filter zurücksetzen' },
+  'filters.sortBy': 'Sortieren nach',
+  'filters.sort.relevance': 'Beste Übereinstimmung',
+  'filters.sort.discount': 'Höchster Rabatt (%)',
+  'filters.sort.price': 'Niedrigster Preis',
+  'filters.sort.savings': 'Größte Ersparnis',
+  'filters.sort.score': 'Prüfergebnis',
+  'filters.sort.merchant': 'Händler (A–Z)',
+  'filters.merchant': 'Händler',
+  'filters.category': 'Kategorie',
+  'filters.minDiscount': 'Mindestrabatt',
+  'filters.discountOrMore': 'ab {percent} %',
+  'filters.availability': 'Verfügbarkeit',
+  'filters.availability.online': 'Online',
+  'filters.availability.local': 'Vor Ort / im Geschäft',
+  'filters.availability.both': 'Online & im Geschäft',
+  'filters.availability.unknown': 'Nicht angegeben',
+  'filters.distance': 'Entfernung zum Geschäft (Online-Angebote immer sichtbar)',
+  'filters.price': 'Preis: {min} – {max}',
+  'filters.minPrice': 'Mindestpreis',
+  'filters.maxPrice': 'Höchstpreis',
+
+  'history.title': 'Preisverlauf: {title}',
+  'history.demoData': 'Demodaten: Diese Preise sind simuliert, nicht beobachtet.',
+  'history.observed': { one: 'Niedrigster Preis pro Tag aus Suchen an {count} Tag.', other: 'Niedrigster Preis pro Tag aus Suchen an {count} Tagen.' },
+  'history.empty': 'Für diesen Artikel wurden noch keine Preise erfasst. Sein Preis wird bei jeder Suche gespeichert, die ihn findet.',
+  'history.forecastRange': 'Prognosebereich',
+  'history.price': 'Preis',
+  'history.movingAverage': 'Gleitender Durchschnitt',
+  'history.forecast': 'Prognose',
+  'history.low': 'Tief',
+  'history.high': 'Hoch',
+  'history.recommendation': 'Empfehlung:',
+  'history.buy': 'Jetzt kaufen',
+  'history.wait': 'Abwarten',
+  'history.insufficientData': 'Noch zu wenige Daten',
+  'history.trend': 'Trend: ',
+  'history.perWeek': '{percent} %/Woche',
+  'history.lowLabel': 'Tiefstwert: ',
+  'history.highLabel': 'Höchstwert: ',
+  'history.onDate': '{price} am {date}',
+  'history.shortAverage': 'Durchschnitt (3 Punkte): ',
+  'history.longAverage': 'Durchschnitt (7 Punkte): ',
+  'history.volatility': 'Schwankung: ',
+  'history.volatilityValue': '±{percent} %',
+  'history.demoCalculation': '(Berechnet aus den simulierten Demopreisen oben.)',
+
+  'forecast.tooFew': { one: 'Erst {count} erfasster Preis; für eine Trendaussage braucht es mindestens {min}.', other: 'Erst {count} erfasste Preise; für eine Trendaussage braucht es mindestens {min}.' },
+  'forecast.lowest': 'Das ist der niedrigste erfasste Preis.',
+  'forecast.nearLowest': 'Höchstens {percent} % über dem niedrigsten erfassten Preis.',
+  'forecast.rising': 'Die Preise steigen um etwa {percent} % pro Woche.',
+  'forecast.falling': 'Die Preise fallen um etwa {percent} % pro Woche; bis {date} werden etwa {price} erwartet.',
+  'forecast.aboveAverage': 'Der aktuelle Preis liegt {percent} % über seinem Durchschnitt der letzten {window} Punkte.',
+  'forecast.steady': 'Der Preis bewegt sich stabil um seinen Durchschnitt; Abwarten bringt kaum einen besseren.',
+
+  'verify.title': 'Angebotsprüfung',
+  'verify.merchant': 'Händler: {merchant}',
+  'verify.price': 'Preis: {price} (Originalpreis: {original})',
+  'verify.status.pass': 'OK',
+  'verify.status.warn': 'Vorsicht',
+  'verify.status.fail': 'Problem',
+  'verify.status.unknown': 'Keine Daten',
+  'verify.couldNotVerify': 'Nicht prüfbar',
+  'verify.excellent': 'Ausgezeichnet',
+  'verify.good': 'Gut',
+  'verify.fair': 'Mittel',
+  'verify.poor': 'Schlecht/Riskant',
+  'verify.partial': 'Die KI-Bewertung fehlt ({reason}), daher beruht dieses Ergebnis nur auf den lokalen Prüfungen.',
+  'verify.unverified': 'Für dieses Angebot konnte nichts geprüft werden. Bitte versuche es erneut oder prüfe es selbst.',
+  'verify.failed': 'Die Prüfung ist gerade nicht möglich.',
+
+  'verification.discount.label': 'Plausibilität des Rabatts',
+  'verification.discount.incomparable': 'Original- und Angebotspreis lassen sich nicht vergleichen.',
+  'verification.discount.higher': 'Der „reduzierte“ Preis ist höher als der Originalpreis.',
+  'verification.discount.none': 'Gegenüber dem Originalpreis gibt es keinen echten Rabatt.',
+  'verification.discount.typical': '{percent} % Rabatt liegt im üblichen Rahmen für {category} (bis etwa {typical} %).',
+  'verification.discount.steep': '{percent} % Rabatt ist viel für {category}; Rabatte über {typical} % sind selten.',
+  'verification.discount.implausible': '{percent} % Rabatt übersteigt, was Händler für {category} üblicherweise bieten (selten mehr als {max} %).',
+  'verification.history.label': 'Preis im Vergleich zum Verlauf',
+  'verification.history.noPrice': 'Das Angebot hat keinen vergleichbaren Preis.',
+  'verification.history.tooFew': 'Zu wenige erfasste Preise für einen Vergleich (bisher {count}).',
+  'verification.history.span': '{count} erfasste Preise seit {date}',
+  'verification.history.lowest': 'Der niedrigste bisher erfasste Preis ({span}).',
+  'verification.history.belowTypical': 'Unter dem üblichen erfassten Preis von {price} ({span}).',
+  'verification.history.usual': 'Etwa der übliche Preis von {price}, der „Rabatt“ ist also womöglich keiner ({span}).',
+  'verification.history.aboveTypical': 'Höher als der übliche erfasste Preis von {price} ({span}).',
+  'verification.history.inflated': 'Der Originalpreis von {original} liegt weit über dem höchsten erfassten Preis von {highest}; der Rabatt ist also womöglich geschönt.',
+  'verification.merchant.label': 'Vertrauenswürdigkeit des Händlers',
+  'verification.merchant.anonymous': 'Das Angebot nennt keinen Verkäufer.',
+  'verification.merchant.userBlocked': 'Du hast {name} gesperrt.',
+  'verification.merchant.userTrusted': 'Du hast {name} als vertrauenswürdig markiert.',
+  'verification.merchant.blocklisted': '{name} steht auf der Sperrliste.',
+  'verification.merchant.wellKnown': '{name} ist ein bekannter Händler aus dem Händlerverzeichnis.',
+  'verification.merchant.suspiciousDomain': '„{merchant}“ nutzt eine .{tld}-Domain, wie sie bei kurzlebigen Shops häufig ist.',
+  'verification.merchant.unregistered': '{merchant} steht nicht im Händlerverzeichnis.',
+  'verification.redFlags.label': 'Warnsignale im Angebotstext',
+  'verification.redFlags.payment': 'Verlangt schwer rückholbare Zahlungsarten: {methods}.',
+  'verification.redFlags.tooGood': '{percent} % Rabatt ist für fast jedes echte Angebot zu schön, um wahr zu sein.',
+  'verification.redFlags.urgency': 'Setzt auf Druck oder Zeitnot: {phrases}.',
+  'verification.redFlags.authenticity': 'Macht Echtheitsversprechen, wie sie oft bei Fälschungen vorkommen: {phrases}.',
+  'verification.redFlags.none': 'Keine Warnsignale zu Zeitdruck, Zahlungsart oder Echtheit im Angebotstext.',
+  'verification.ai.label': 'KI-Bewertung',
+  'verification.ai.offlineLabel': 'Bewertung des Offline-Demos',
+  'verification.unverified': 'Dieses Angebot konnte nicht geprüft werden: {reason}.',
+  'verification.nothingToJudge': 'es gab nichts, woran es sich messen ließ',
+  'verification.localOnly.concerns': 'Nur auf Grundlage der lokalen Prüfungen; Bedenken: {concerns}.',
+  'verification.localOnly.clean': 'Nur auf Grundlage der lokalen Prüfungen; keine Probleme gefunden.',
+
+  'ai.unreadable': 'die Antwort der KI war nicht lesbar',
+  'ai.unreachable': 'der KI-Dienst war nicht erreichbar',
+  'ai.noApiKey': 'die KI-Prüfung ist ohne API-Schlüssel nicht verfügbar',
+  'ai.chatFailed': 'Fehler bei der Verbindung zum KI-Chat.',
+
+  'compare.title': 'Angebote vergleichen',
+  'compare.price': 'Preis',
+  'compare.originalPrice': 'Originalpreis',
+  'compare.discount': 'Rabatt',
+  'compare.savings': 'Ersparnis',
+  'compare.merchant': 'Händler',
+  'compare.verification': 'Prüfung',
+  'compare.priceTrend': 'Preistrend',
+  'compare.pros': 'Vorteile',
+  'compare.cons': 'Nachteile',
+  'compare.unknown': 'Unbekannt',
+  'compare.localChecksOnly': '(nur lokale Prüfungen)',
+  'compare.noHistory': 'Kein Verlauf',
+  'compare.trendDetail': '({percent} %/Woche, {count} Preise)',
+  'compare.recommended': 'Empfohlen',
+  'compare.loading': 'Angebote werden verglichen...',
+  'compare.verdict': 'KI-Urteil',
+  'compare.demoVerdict': 'Urteil des Offline-Demos',
+  'compare.noClearWinner': 'Kein Angebot ist klar besser als die anderen.',
+  'compare.noVerdict': 'Kein KI-Urteil: {reason}. Die Tabelle oben vergleicht die Angebote trotzdem.',
+
+  'chat.title': 'Einkaufsassistent',
+  'chat.newConversation': 'Neues Gespräch',
+  'chat.intro': 'Frag nach den angezeigten Angeboten, z. B. „Welcher davon ist der beste Laptop unter 800 €?“, oder lass mich suchen, ein Angebot prüfen oder seinen Preis beobachten.',
+  'chat.thinking': 'Denke nach...',
+  'chat.placeholder': 'Frag nach diesen Angeboten...',
+  'chat.send': 'Senden',
+  'chat.undo': 'Rückgängig',
+  'chat.undone': 'Rückgängig gemacht',
+  'chat.verifyDeal': 'Dieses Angebot prüfen',
+  'chat.showHistory': 'Preisverlauf anzeigen',
+  'chat.dealGone': '(ein nicht mehr angezeigtes Angebot)',
+
+  'chatTools.searched': { one: 'Gesucht nach {filters} ({count} Angebot)', other: 'Gesucht nach {filters} ({count} Angebote)' },
+  'chatTools.near': 'bei {location}',
+  'chatTools.nearWithin': 'bei {location} ({km} km)',
+  'chatTools.allDeals': 'allen Angeboten',
+  'chatTools.unknownAction': 'Unbekannte Aktion versucht ({name})',
+  'chatTools.dealNotFound': 'Angebot {id} nicht gefunden',
+  'chatTools.noId': '(keine ID)',
+  'chatTools.couldNotVerify': '„{title}“ konnte nicht geprüft werden',
+  'chatTools.verified': '„{title}“ geprüft (Ergebnis {score}/5)',
+  'chatTools.verifiedLocally': '„{title}“ geprüft (Ergebnis {score}/5, nur lokale Prüfungen)',
+  'chatTools.priceHistory': { one: 'Preisverlauf für „{title}“ abgerufen ({count} Punkt)', other: 'Preisverlauf für „{title}“ abgerufen ({count} Punkte)' },
+  'chatTools.simulatedPriceHistory': { one: 'Simulierten Preisverlauf für „{title}“ abgerufen ({count} Punkt)', other: 'Simulierten Preisverlauf für „{title}“ abgerufen ({count} Punkte)' },
+  'chatTools.added': '„{title}“ zur Merkliste hinzugefügt',
+  'chatTools.alreadyWatched': '„{title}“ war schon auf deiner Merkliste',
+  'chatTools.failed': 'Aktion {name} fehlgeschlagen',
+
+  'demo.assessment.scam': '{price} ist ein Bruchteil der üblichen {typical} für dieses Produkt; so niedrige Preise bedeuten meist eine Fälschung oder Betrug.',
+  'demo.assessment.wellBelow': '{price} liegt deutlich unter den üblichen {typical} für dieses Produkt.',
+  'demo.assessment.below': '{price} liegt etwas unter den üblichen {typical} für dieses Produkt.',
+  'demo.assessment.typical': '{price} ist ungefähr der übliche Preis für dieses Produkt ({typical}).',
+  'demo.assessment.above': '{price} ist mehr als die üblichen {typical} für dieses Produkt; es lohnt sich, auf einen besseren Preis zu warten.',
+  'demo.compare.cheapest': 'Niedrigster Preis',
+  'demo.compare.biggestDiscount': 'Größter Rabatt ({percent} % günstiger)',
+  'demo.compare.trusted': '{merchant} ist ein bekannter Händler',
+  'demo.compare.untrusted': '{merchant} ist kein vertrauenswürdiger Händler',
+  'demo.compare.lowScore': 'Niedrige Prüfbewertung ({score}/5)',
+  'demo.compare.falling': 'Der Preis fällt und könnte weiter sinken',
+  'demo.compare.inStore': 'Nur im Geschäft erhältlich',
+  'demo.compare.winner': '{title} liegt bei Preis, Vertrauenswürdigkeit des Händlers und Prüfbewertung zusammen vorn.',
+  'demo.compare.tie': 'Kein Angebot liegt bei Preis, Vertrauenswürdigkeit des Händlers und Prüfbewertung zusammen klar vorn.',
+  'demo.compare.mixed': 'Das sind verschiedene Arten von Produkten; vergleiche sie zuerst danach, was du brauchst.',
+  'demo.chat.help': 'Ich bin der Offline-Demo-Assistent und verstehe nur wenige Anfragen: frag nach dem günstigsten Angebot, dem größten Rabatt, einem Vergleich der angezeigten Angebote oder lass mich etwas finden (z. B. „finde Laufschuhe“). Setze VITE_GEMINI_API_KEY für den vollen Assistenten.',
+  'demo.chat.noMatch': 'Im Demo-Katalog passt nichts zu „{keywords}“. Versuch ein allgemeineres Wort, etwa eine Produktart oder eine Marke.',
+  'demo.chat.found': { one: 'Ich habe den Demo-Katalog nach „{keywords}“ durchsucht und {count} Angebot gefunden, zuerst [[deal:{id}]] für {price}.', other: 'Ich habe den Demo-Katalog nach „{keywords}“ durchsucht und {count} Angebote gefunden, zuerst [[deal:{id}]] für {price}.' },
+  'demo.chat.noDeals': 'Es werden noch keine Angebote angezeigt. {help}',
+  'demo.chat.cheapest': 'Das günstigste angezeigte Angebot ist {deal}.',
+  'demo.chat.biggestDiscount': 'Den größten Rabatt hat {deal}.',
+  'demo.chat.top': 'Nach Rabatt sind das die besten angezeigten Angebote:\n{deals}\nPrüfe ein Angebot vor dem Kauf, um Händler und Preis zu checken.',
+  'demo.chat.deal': '[[deal:{id}]] für {price} bei {merchant}',
+  'demo.chat.dealDiscount': '[[deal:{id}]] für {price} ({percent} % günstiger) bei {merchant}',
+
+  'watchlist.title': 'Merkliste',
+  'watchlist.checking': 'Preise werden geprüft...',
+  'watchlist.checkNow': 'Preise jetzt prüfen',
+  'watchlist.enableNotifications': 'Browser-Benachrichtigungen aktivieren',
+  'watchlist.notificationsBlocked': 'Browser-Benachrichtigungen sind blockiert; Hinweise erscheinen nur in der App.',
+  'watchlist.empty': 'Noch nichts gemerkt. Mit „Merken“ an einem Angebot verfolgst du seinen Preis.',
+  'watchlist.watchedAt': 'Gemerkt bei {price}',
+  'watchlist.latest': ' · zuletzt {price}',
+  'watchlist.lastChecked': 'Zuletzt geprüft: {date}',
+  'watchlist.thresholdReached': 'Schwelle erreicht',
+  'watchlist.targetPrice': 'Zielpreis',
+  'watchlist.dropPercent': 'Oder Rückgang um (%)',
+  'watchlist.dropPlaceholder': 'z. B. 10',
+  'watchlist.alert.now': 'jetzt {price} (beim Merken {baseline})',
+  'watchlist.alert.target': 'Zielpreis {price}',
+  'watchlist.alert.drop': 'Alarm bei {percent} % Rückgang',
+
+  'savedSearches.title': 'Gespeicherte Suchen',
+  'savedSearches.current': 'Aktuelle Suche: ',
+  'savedSearches.namePlaceholder': 'Name (optional)',
+  'savedSearches.save': 'Suche speichern',
+  'savedSearches.empty': 'Noch keine gespeicherten Suchen. Speichere die aktuelle Suche, um sie später erneut auszuführen.',
+  'savedSearches.lastRun': 'Zuletzt ausgeführt: {date}',
+  'savedSearches.unseen': { one: '{count} neues Angebot oder Preisänderung seit deinem letzten Blick', other: '{count} neue Angebote oder Preisänderungen seit deinem letzten Blick' },
+  'savedSearches.rerunEvery': 'Automatisch ausführen',
+  'savedSearches.never': 'Nie (nur manuell)',
+  'savedSearches.minutes': { one: 'jede Minute', other: 'alle {count} Minuten' },
+  'savedSearches.hours': { one: 'jede Stunde', other: 'alle {count} Stunden' },
+  'savedSearches.days': { one: 'jeden Tag', other: 'alle {count} Tage' },
+  'savedSearches.runNow': 'Jetzt ausführen',
+  'savedSearches.near': 'bei {location}',
+  'savedSearches.nearWithin': 'bei {location} (im Umkreis von {km} km)',
+  'savedSearches.allDeals': 'Alle Angebote',
+  'savedSearches.alert': '{newDeals} und {priceChanges} seit deinem letzten Blick.',
+  'savedSearches.alert.newDeals': { one: '{count} neues Angebot', other: '{count} neue Angebote' },
+  'savedSearches.alert.priceChanges': { one: '{count} Preisänderung', other: '{count} Preisänderungen' },
+
+  'alerts.priceAlert': 'Preisalarm: {title}',
+  'alerts.newDeals': 'Neue Angebote: {title}',
+};
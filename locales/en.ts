@@ -0,0 +1,389 @@
+// English UI messages. The keys of this catalog are the message keys; every other locale must translate all of them.
+// `{name}` is replaced by the parameter of that name; `one`/`other` pairs are chosen by the `count` parameter.
+export const en = {
+  'common.close': 'Close',
+  'common.stop': 'Stop',
+  'common.clear': 'Clear',
+  'common.remove': 'Remove',
+  'common.notAvailable': 'n/a',
+  'common.unknownReason': 'unknown reason',
+  'common.loading': 'Loading...',
+  'common.withinKm': 'Within {km} km',
+  'common.retrying': 'The AI service is busy; retrying (attempt {attempt} of {max})…',
+
+  'app.language': 'Language',
+  'app.assistant': 'Assistant',
+  'app.data': 'Data',
+  'app.saved': 'Saved ({count})',
+  'app.watchlist': 'Watchlist ({count})',
+  'app.tagline': "Your intelligent assistant for discovering personalized, high-value deals from across the web. Use the filters below to find exactly what you're looking for!",
+  'app.notice': 'Notice:',
+  'app.error': 'Error:',
+  'app.apiKeyMissing': 'VITE_GEMINI_API_KEY is not set, so the app is running in offline demo mode: deals come from a bundled sample catalog, and verification, comparison and the assistant use built-in rules. Set the key for live AI features.',
+  'app.aiError': 'Could not connect to AI services. Please check your API key or network connection. Details: {details}',
+  'app.sourcesFailed': 'Some deal sources failed: {sources}',
+  'app.linkedDealMissing': 'The linked deal is not among the current results; it may no longer be available.',
+  'app.cachedResults': 'Showing cached results from {date}.',
+  'app.cachedResultsStale': 'Showing cached results from {date}; fetching fresh results in the background…',
+  'app.validation.usable': '{accepted} of {received} deals were usable.',
+  'app.validation.why': { one: 'Why was {count} deal left out?', other: 'Why were {count} deals left out?' },
+  'app.validation.item': 'Item {number}',
+  'app.sources.title': 'Sources (from Google Search):',
+  'app.sources.blocked': 'Blocked URI: Scheme not allowed or invalid URL. Original URI: {uri}',
+  'app.sources.restricted': '(Link restricted for security)',
+  'app.streaming': { one: 'Showing {count} deal so far; still searching…', other: 'Showing {count} deals so far; still searching…' },
+  'app.stopped': { one: 'Search stopped; showing the {count} deal found before it was stopped.', other: 'Search stopped; showing the {count} deals found before it was stopped.' },
+  'app.noDeals': 'No deals found matching your criteria. Try adjusting your search!',
+  'app.rankedBy': { one: 'Ranked using {count} of your ratings.', other: 'Ranked using {count} of your ratings.' },
+  'app.resetProfile': 'Reset learned preferences',
+  'app.blockedShown': { one: '{count} deal from blocked merchants shown.', other: '{count} deals from blocked merchants shown.' },
+  'app.blockedHidden': { one: '{count} deal from blocked merchants hidden.', other: '{count} deals from blocked merchants hidden.' },
+  'app.hideThem': 'Hide them',
+  'app.showThem': 'Show them',
+  'app.noFilterMatches': 'No deals match the selected filters.',
+  'app.loadingMore': 'Loading more deals…',
+  'app.loadMore': 'Load more deals',
+  'app.noMoreDeals': 'No more new deals found for this search.',
+  'app.compare.selected': '{count} of {max} deals selected',
+  'app.compare.minimum': 'Select at least {min} deals',
+  'app.compare.button': 'Compare',
+  'app.footer.disclaimer': 'All deals generated by AI for demonstration.',
+  'app.footer.poweredBy': 'Powered by React, Tailwind CSS, and Google Gemini API.',
+
+  'data.exported': { one: 'Exported {count} deal as {format}.', other: 'Exported {count} deals as {format}.' },
+  'data.backupDownloaded': 'Backup downloaded.',
+  'data.restored': 'Restored {searches} saved searches, {watched} watched deals, {ratings} ratings and {merchants} merchant ratings.',
+  'data.imported': { one: 'Imported {count} deal{skipped}. "Imported deals" is now a selected source.', other: 'Imported {count} deals{skipped}. "Imported deals" is now a selected source.' },
+  'data.importSkipped': ' ({count} left out as unusable)',
+  'data.importFailed': 'Could not import {file}: {message}',
+  'data.noUsableDeals': 'No usable deals found in {file}.',
+  'data.title': 'Import & Export',
+  'data.results.title': 'Current results',
+  'data.results.description': {
+    one: 'The {count} deal shown, in their current order and filters, with parsed prices, discount, verification score and sources.',
+    other: 'The {count} deals shown, in their current order and filters, with parsed prices, discount, verification score and sources.',
+  },
+  'data.exportCsv': 'Export CSV',
+  'data.exportJson': 'Export JSON',
+  'data.backup.title': 'Backup',
+  'data.backup.description': 'Saved searches, watchlist, likes and merchant ratings in one file. Restoring a backup replaces what is stored in this browser.',
+  'data.backup.download': 'Download backup',
+  'data.backup.restore': 'Restore backup',
+  'data.backup.invalidJson': 'The backup file is not valid JSON.',
+  'data.backup.notBackup': 'This file is not a DealDigger backup.',
+  'data.backup.tooNew': 'This backup was made by a newer version of the app (format {version}); this version reads up to format {supported}.',
+  'data.import.title': 'Import a deal list',
+  'data.import.description': 'A CSV file with a header row or a JSON array, using the deal field names (title, description, originalPrice, discountedPrice, merchant, category, imageUrl, fulfillment, storeLocation). The deals are searched as the "Imported deals" source; a new import replaces the previous one.',
+  'data.import.button': 'Import deals',
+  'data.import.count': '{count} imported',
+
+  'search.keywords': 'Search Deals (Keywords)',
+  'search.keywordsPlaceholder': "e.g., 'laptop', 'running shoes'",
+  'search.location': 'Location (Optional)',
+  'search.locationPlaceholder': "e.g., 'New York', 'Online'",
+  'search.radius': 'Search radius',
+  'search.anyDistance': 'Any distance',
+  'search.resolvedTo': 'Resolved to {place}',
+  'search.unresolved': 'Not in the offline place list; the text is passed to the search as typed.',
+  'search.noCoordinates': ' (no coordinates, so distances cannot be shown)',
+  'search.categories': 'Filter by Categories ({count} selected)',
+  'search.sources': 'Deal Sources (results from all selected sources are combined)',
+  'search.sourceSlower': '(slower, more current)',
+
+  'providers.gemini.label': 'Gemini (AI generated)',
+  'providers.gemini.description': 'Realistic deal suggestions generated by Gemini from your preferences.',
+  'providers.geminiSearch.label': 'Gemini + Google Search',
+  'providers.geminiSearch.description': 'Current deals found on the web through Google Search grounding (slower, more current).',
+  'providers.localFeed.label': 'Local deal feed',
+  'providers.localFeed.description': 'Deals read from a JSON or CSV file served with the app.',
+  'providers.imported.label': 'Imported deals',
+  'providers.imported.description': 'Deals from a CSV or JSON file you imported.',
+  'providers.mock.label': 'Offline demo catalog',
+  'providers.mock.description': 'Sample deals from a bundled catalog, priced the same way on every run in the currency of your language; needs no API key or network.',
+  'search.skipCache': 'Skip cache (fetch fresh results)',
+  'search.pageSize': 'Deals per page',
+  'search.searchingWeb': 'Searching Web...',
+  'search.findWeb': 'Find Latest Deals (Web)',
+  'search.searching': 'Searching...',
+  'search.findSelected': 'Find Deals (Selected Sources)',
+
+  'merchant.trusted': 'Trusted',
+  'merchant.unknown': 'Unrated',
+  'merchant.suspicious': 'Caution',
+  'merchant.blocked': 'Blocked',
+  'trend.rising': 'Rising',
+  'trend.falling': 'Falling',
+  'trend.flat': 'Steady',
+
+  'card.percentOff': '{percent}% OFF',
+  'card.new': 'New',
+  'card.priceDown': 'Price down',
+  'card.priceUp': 'Price up',
+  'card.was': '(was {price})',
+  'card.merchant': 'Merchant:',
+  'card.category': 'Category:',
+  'card.yourRating': 'Your rating',
+  'card.fromRegistry': 'From the merchant registry',
+  'card.rateMerchant': 'Rate this merchant',
+  'card.markTrusted': 'Mark merchant trusted',
+  'card.blockMerchant': 'Block merchant',
+  'card.clearRating': 'Clear my rating',
+  'card.online': 'Online',
+  'card.inStore': 'In store',
+  'card.onlineAndInStore': 'Online & in store',
+  'card.distance': '{km} km away',
+  'card.reportedBy': 'Reported by {count} sources; showing the best price.',
+  'card.viewAtMerchant': 'View at merchant',
+  'card.unverifiedSource': 'Unverified source',
+  'card.unverifiedSourceHint': 'No search result backs this deal; it may be outdated or made up by the AI.',
+  'card.verify': 'Verify Deal',
+  'card.priceHistory': 'Price History',
+  'card.moreLikeThis': 'More like this',
+  'card.lessLikeThis': 'Less like this',
+  'card.whyShown': 'Why am I seeing this?',
+  'card.watching': 'Watching (click to stop)',
+  'card.watch': 'Watch',
+  'card.compare': 'Compare',
+
+  'profile.liked': { one: 'You liked {count} deal {what}', other: 'You liked {count} deals {what}' },
+  'profile.disliked': { one: 'You disliked {count} deal {what}', other: 'You disliked {count} deals {what}' },
+  'profile.inCategory': 'in {category}',
+  'profile.fromMerchant': 'from {merchant}',
+  'profile.priced': 'priced {band}',
+  'profile.band.under25': 'under 25',
+  'profile.band.25to100': '25-100',
+  'profile.band.100to500': '100-500',
+  'profile.band.over500': 'over 500',
+  'profile.matchesLiked': 'Matches words from deals you liked: {words}',
+  'profile.sharesDisliked': 'Shares words from deals you disliked: {words}',
+  'profile.noRatings': 'No ratings yet, so deals are shown in the order the source returned them.',
+  'profile.nothingSimilar': 'Nothing you have rated is similar, so this deal keeps its original position.',
+
+  'filters.showing': { one: 'Showing {shown} of {count} deal', other: 'Showing {shown} of {count} deals' },
+  'filters.clear': { one: 'Clear {count} filter', other: 'Clear {count} filters' },
+  'filters.sortBy': 'Sort by',
+  'filters.sort.relevance': 'Best match',
+  'filters.sort.discount': 'Biggest discount (%)',
+  'filters.sort.price': 'Lowest price',
+  'filters.sort.savings': 'Biggest savings',
+  'filters.sort.score': 'Verification score',
+  'filters.sort.merchant': 'Merchant (A-Z)',
+  'filters.merchant': 'Merchant',
+  'filters.category': 'Category',
+  'filters.minDiscount': 'Minimum discount',
+  'filters.discountOrMore': '{percent}%+',
+  'filters.availability': 'Availability',
+  'filters.availability.online': 'Online',
+  'filters.availability.local': 'Local / in store',
+  'filters.availability.both': 'Online & in store',
+  'filters.availability.unknown': 'Not stated',
+  'filters.distance': 'Store distance (online deals always shown)',
+  'filters.price': 'Price: {min} – {max}',
+  'filters.minPrice': 'Minimum price',
+  'filters.maxPrice': 'Maximum price',
+
+  'history.title': 'Price History: {title}',
+  'history.demoData': 'Demo data: these prices are simulated, not observed.',
+  'history.observed': { one: 'Lowest price seen per day across {count} day of searches.', other: 'Lowest price seen per day across {count} days of searches.' },
+  'history.empty': 'No prices have been recorded for this item yet. Its price is saved each time a search returns it.',
+  'history.forecastRange': 'Forecast range',
+  'history.price': 'Price',
+  'history.movingAverage': 'Moving average',
+  'history.forecast': 'Forecast',
+  'history.low': 'Low',
+  'history.high': 'High',
+  'history.recommendation': 'Recommendation:',
+  'history.buy': 'Buy now',
+  'history.wait': 'Wait',
+  'history.insufficientData': 'Not enough data yet',
+  'history.trend': 'Trend: ',
+  'history.perWeek': '{percent}%/week',
+  'history.lowLabel': 'Low: ',
+  'history.highLabel': 'High: ',
+  'history.onDate': '{price} on {date}',
+  'history.shortAverage': '3-point average: ',
+  'history.longAverage': '7-point average: ',
+  'history.volatility': 'Volatility: ',
+  'history.volatilityValue': '±{percent}%',
+  'history.demoCalculation': '(Calculated from the simulated demo prices above.)',
+
+  'forecast.tooFew': { one: 'Only {count} recorded price; at least {min} are needed to judge the trend.', other: 'Only {count} recorded prices; at least {min} are needed to judge the trend.' },
+  'forecast.lowest': 'This is the lowest price recorded.',
+  'forecast.nearLowest': 'Within {percent}% of the lowest recorded price.',
+  'forecast.rising': 'Prices have been rising about {percent}% per week.',
+  'forecast.falling': 'Prices have been falling about {percent}% per week; about {price} is expected by {date}.',
+  'forecast.aboveAverage': 'The current price is {percent}% above its {window}-point average.',
+  'forecast.steady': 'The price is steady around its average, so waiting is unlikely to get a better one.',
+
+  'verify.title': 'Deal Verification',
+  'verify.merchant': 'Merchant: {merchant}',
+  'verify.price': 'Price: {price} (Original: {original})',
+  'verify.status.pass': 'OK',
+  'verify.status.warn': 'Caution',
+  'verify.status.fail': 'Problem',
+  'verify.status.unknown': 'No data',
+  'verify.couldNotVerify': 'Could not verify',
+  'verify.excellent': 'Excellent',
+  'verify.good': 'Good',
+  'verify.fair': 'Fair',
+  'verify.poor': 'Poor/Risky',
+  'verify.partial': 'The AI assessment is missing ({reason}), so this score comes from the local checks only.',
+  'verify.unverified': 'Nothing could be checked for this deal. Please try again or assess it manually.',
+  'verify.failed': 'Could not retrieve verification at this time.',
+
+  'verification.discount.label': 'Discount plausibility',
+  'verification.discount.incomparable': 'The original and discounted prices cannot be compared.',
+  'verification.discount.higher': 'The "discounted" price is higher than the original price.',
+  'verification.discount.none': 'There is no actual discount on the original price.',
+  'verification.discount.typical': '{percent}% off is within the usual range for {category} (up to about {typical}%).',
+  'verification.discount.steep': '{percent}% off is steep for {category}; discounts above {typical}% are uncommon.',
+  'verification.discount.implausible': '{percent}% off is beyond what {category} sellers normally offer (rarely more than {max}%).',
+  'verification.history.label': 'Price vs. recorded history',
+  'verification.history.noPrice': 'The deal has no price to compare.',
+  'verification.history.tooFew': 'Not enough recorded prices to compare against ({count} so far).',
+  'verification.history.span': '{count} recorded prices since {date}',
+  'verification.history.lowest': 'The lowest price in {span}.',
+  'verification.history.belowTypical': 'Below the typical recorded price of {price} ({span}).',
+  'verification.history.usual': 'About the usual price of {price}, so the "discount" may not be real ({span}).',
+  'verification.history.aboveTypical': 'Higher than the typical recorded price of {price} ({span}).',
+  'verification.history.inflated': 'The original price {original} is well above the highest recorded price of {highest}, so the discount may be inflated.',
+  'verification.merchant.label': 'Merchant trust',
+  'verification.merchant.anonymous': 'The listing does not say who is selling it.',
+  'verification.merchant.userBlocked': 'You blocked {name}.',
+  'verification.merchant.userTrusted': 'You marked {name} as trusted.',
+  'verification.merchant.blocklisted': '{name} is on the blocklist.',
+  'verification.merchant.wellKnown': '{name} is a well-known retailer in the merchant registry.',
+  'verification.merchant.suspiciousDomain': '"{merchant}" uses a .{tld} domain, which is common among short-lived shops.',
+  'verification.merchant.unregistered': '{merchant} is not in the merchant registry.',
+  'verification.redFlags.label': 'Listing red flags',
+  'verification.redFlags.payment': 'Asks for hard-to-refund payment: {methods}.',
+  'verification.redFlags.tooGood': '{percent}% off is too good to be true for almost any genuine listing.',
+  'verification.redFlags.urgency': 'Uses pressure or urgency language: {phrases}.',
+  'verification.redFlags.authenticity': 'Makes authenticity claims often seen on counterfeits: {phrases}.',
+  'verification.redFlags.none': 'No urgency, payment or authenticity red flags in the listing text.',
+  'verification.ai.label': 'AI assessment',
+  'verification.ai.offlineLabel': 'Offline demo assessment',
+  'verification.unverified': 'This deal could not be verified: {reason}.',
+  'verification.nothingToJudge': 'there was nothing to judge it by',
+  'verification.localOnly.concerns': 'Based on local checks only; concerns: {concerns}.',
+  'verification.localOnly.clean': 'Based on local checks only; no problems found.',
+
+  'ai.unreadable': 'the AI response could not be read',
+  'ai.unreachable': 'the AI service could not be reached',
+  'ai.noApiKey': 'AI verification is unavailable because the API key is missing',
+  'ai.chatFailed': 'Error communicating with chat AI.',
+
+  'compare.title': 'Compare Deals',
+  'compare.price': 'Price',
+  'compare.originalPrice': 'Original price',
+  'compare.discount': 'Discount',
+  'compare.savings': 'You save',
+  'compare.merchant': 'Merchant',
+  'compare.verification': 'Verification',
+  'compare.priceTrend': 'Price trend',
+  'compare.pros': 'Pros',
+  'compare.cons': 'Cons',
+  'compare.unknown': 'Unknown',
+  'compare.localChecksOnly': '(local checks only)',
+  'compare.noHistory': 'No history',
+  'compare.trendDetail': '({percent}%/week, {count} prices)',
+  'compare.recommended': 'Recommended',
+  'compare.loading': 'Comparing deals...',
+  'compare.verdict': 'AI verdict',
+  'compare.demoVerdict': 'Offline demo verdict',
+  'compare.noClearWinner': 'No deal is clearly better than the others.',
+  'compare.noVerdict': 'No AI verdict: {reason}. The table above still compares the deals.',
+
+  'chat.title': 'Shopping Assistant',
+  'chat.newConversation': 'New conversation',
+  'chat.intro': 'Ask about the deals on screen, e.g. "Which of these is the best laptop under $800?", or ask me to search, verify a deal or watch its price.',
+  'chat.thinking': 'Thinking...',
+  'chat.placeholder': 'Ask about these deals...',
+  'chat.send': 'Send',
+  'chat.undo': 'Undo',
+  'chat.undone': 'Undone',
+  'chat.verifyDeal': 'Verify this deal',
+  'chat.showHistory': 'Show price history',
+  'chat.dealGone': '(a deal no longer shown)',
+
+  'chatTools.searched': { one: 'Searched for {filters} ({count} deal)', other: 'Searched for {filters} ({count} deals)' },
+  'chatTools.near': 'near {location}',
+  'chatTools.nearWithin': 'near {location} ({km} km)',
+  'chatTools.allDeals': 'all deals',
+  'chatTools.unknownAction': 'Tried an unknown action ({name})',
+  'chatTools.dealNotFound': 'Could not find deal {id}',
+  'chatTools.noId': '(no id)',
+  'chatTools.couldNotVerify': 'Could not verify "{title}"',
+  'chatTools.verified': 'Verified "{title}" (score {score}/5)',
+  'chatTools.verifiedLocally': 'Verified "{title}" (score {score}/5, local checks only)',
+  'chatTools.priceHistory': { one: 'Looked up price history for "{title}" ({count} point)', other: 'Looked up price history for "{title}" ({count} points)' },
+  'chatTools.simulatedPriceHistory': { one: 'Looked up simulated price history for "{title}" ({count} point)', other: 'Looked up simulated price history for "{title}" ({count} points)' },
+  'chatTools.added': 'Added "{title}" to your watchlist',
+  'chatTools.alreadyWatched': '"{title}" was already on your watchlist',
+  'chatTools.failed': 'Action {name} failed',
+
+  'demo.assessment.scam': '{price} is a fraction of the {typical} this product usually sells for; prices this low usually mean a counterfeit or a scam.',
+  'demo.assessment.wellBelow': '{price} is well below the {typical} this product usually sells for.',
+  'demo.assessment.below': '{price} is a little below the {typical} this product usually sells for.',
+  'demo.assessment.typical': '{price} is about what this product usually sells for ({typical}).',
+  'demo.assessment.above': '{price} is more than the {typical} this product usually sells for; it is worth waiting for a better price.',
+  'demo.compare.cheapest': 'Lowest price',
+  'demo.compare.biggestDiscount': 'Biggest discount ({percent}% off)',
+  'demo.compare.trusted': '{merchant} is a well-known retailer',
+  'demo.compare.untrusted': '{merchant} is not a trustworthy merchant',
+  'demo.compare.lowScore': 'Low verification score ({score}/5)',
+  'demo.compare.falling': 'The price is falling and may drop further',
+  'demo.compare.inStore': 'Only available in store',
+  'demo.compare.winner': '{title} comes out ahead on price, merchant trust and verification score combined.',
+  'demo.compare.tie': 'No deal comes out clearly ahead on price, merchant trust and verification score combined.',
+  'demo.compare.mixed': 'These are different kinds of products, so compare them by what you need first.',
+  'demo.chat.help': 'I\'m the offline demo assistant, so I only understand a few requests: ask for the cheapest deal, the biggest discount, to compare the deals shown, or to find something (e.g. "find running shoes"). Set VITE_GEMINI_API_KEY for the full assistant.',
+  'demo.chat.noMatch': 'Nothing in the demo catalog matches "{keywords}". Try a broader word, such as a product type or a brand.',
+  'demo.chat.found': { one: 'I searched the demo catalog for "{keywords}" and found {count} deal, starting with [[deal:{id}]] at {price}.', other: 'I searched the demo catalog for "{keywords}" and found {count} deals, starting with [[deal:{id}]] at {price}.' },
+  'demo.chat.noDeals': 'No deals are shown yet. {help}',
+  'demo.chat.cheapest': 'The cheapest deal shown is {deal}.',
+  'demo.chat.biggestDiscount': 'The biggest discount shown is {deal}.',
+  'demo.chat.top': 'By discount, the top deals shown are:\n{deals}\nVerify a deal before buying to check its merchant and price.',
+  'demo.chat.deal': '[[deal:{id}]] at {price} from {merchant}',
+  'demo.chat.dealDiscount': '[[deal:{id}]] at {price} ({percent}% off) from {merchant}',
+
+  'watchlist.title': 'Watchlist',
+  'watchlist.checking': 'Checking prices...',
+  'watchlist.checkNow': 'Check prices now',
+  'watchlist.enableNotifications': 'Enable browser notifications',
+  'watchlist.notificationsBlocked': 'Browser notifications are blocked; alerts appear in the app only.',
+  'watchlist.empty': 'Nothing watched yet. Use "Watch" on a deal to track its price.',
+  'watchlist.watchedAt': 'Watched at {price}',
+  'watchlist.latest': ' · latest {price}',
+  'watchlist.lastChecked': 'Last checked {date}',
+  'watchlist.thresholdReached': 'Threshold reached',
+  'watchlist.targetPrice': 'Target price',
+  'watchlist.dropPercent': 'Or drop of (%)',
+  'watchlist.dropPlaceholder': 'e.g. 10',
+  'watchlist.alert.now': 'now {price} (was {baseline} when you started watching)',
+  'watchlist.alert.target': 'target {price}',
+  'watchlist.alert.drop': 'alert at {percent}% drop',
+
+  'savedSearches.title': 'Saved Searches',
+  'savedSearches.current': 'Current search: ',
+  'savedSearches.namePlaceholder': 'Name (optional)',
+  'savedSearches.save': 'Save search',
+  'savedSearches.empty': 'No saved searches yet. Save the current search to run it again later.',
+  'savedSearches.lastRun': 'Last run {date}',
+  'savedSearches.unseen': { one: '{count} new deal or price change since you last looked', other: '{count} new deals or price changes since you last looked' },
+  'savedSearches.rerunEvery': 'Re-run every',
+  'savedSearches.never': 'Never (manual only)',
+  'savedSearches.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'savedSearches.hours': { one: '{count} hour', other: '{count} hours' },
+  'savedSearches.days': { one: '{count} day', other: '{count} days' },
+  'savedSearches.runNow': 'Run now',
+  'savedSearches.near': 'near {location}',
+  'savedSearches.nearWithin': 'near {location} (within {km} km)',
+  'savedSearches.allDeals': 'All deals',
+  'savedSearches.alert': '{newDeals} and {priceChanges} since you last looked.',
+  'savedSearches.alert.newDeals': { one: '{count} new deal', other: '{count} new deals' },
+  'savedSearches.alert.priceChanges': { one: '{count} price change', other: '{count} price changes' },
+
+  'alerts.priceAlert': 'Price alert: {title}',
+  'alerts.newDeals': 'New deals: {title}',
+} as const;
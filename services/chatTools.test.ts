@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { executeChatTool, toUserPreferences, ChatToolHandlers } from './chatTools';
+import { Deal } from '../types';
+
+const deal: Deal = {
+  id: 'deal-headphones',
+  title: 'Sony WH-1000XM5 Headphones',
+  description: 'Noise cancelling headphones.',
+  originalPrice: { amount: 399, currency: 'USD', raw: '$399' },
+  discountedPrice: { amount: 299, currency: 'USD', raw: '$299' },
+  merchant: 'Amazon',
+  category: 'Electronics',
+};
+
+const createHandlers = (overrides: Partial<ChatToolHandlers> = {}): ChatToolHandlers => ({
+  findDeal: (dealId) => (dealId === deal.id ? deal : undefined),
+  searchDeals: async () => ({ deals: [deal], undo: () => {} }),
+  verifyDeal: async () => ({ summary: 'Price matches the retailer.', status: 'complete', score: 4, factors: [] }),
+  getPriceHistory: async () => ({ history: [], simulated: false }),
+  addToWatchlist: () => null,
+  ...overrides,
+});
+
+describe('toUserPreferences', () => {
+  it('drops unknown categories and non-string values from model arguments', () => {
+    expect(toUserPreferences({ keywords: ' headphones ', categories: ['Electronics', 'Gadgets', 7], location: 42 })).toEqual({
+      keywords: 'headphones',
+      categories: ['Electronics'],
+      location: '',
+    });
+  });
+});
+
+describe('executeChatTool', () => {
+  it('runs a search and passes its undo through', async () => {
+    const undo = vi.fn();
+    const searchDeals = vi.fn(async () => ({ deals: [deal], undo }));
+    const outcome = await executeChatTool({ name: 'search_deals', args: { keywords: 'headphones', categories: ['Electronics'] } }, createHandlers({ searchDeals }));
+
+    expect(searchDeals).toHaveBeenCalledWith({ keywords: 'headphones', categories: ['Electronics'], location: '' });
+    expect(outcome.response).toMatchObject({ resultCount: 1, deals: [{ id: deal.id, price: '$299.00' }] });
+    expect(outcome.summary).toBe('Searched for "headphones" · Electronics (1 deal)');
+    expect(outcome.undo).toBe(undo);
+  });
+
+  it('marks simulated price history for the model and the user', async () => {
+    const history = [{ date: '2024-03-01', price: 319 }, { date: '2024-03-08', price: 299 }];
+    const outcome = await executeChatTool(
+      { name: 'get_price_history', args: { dealId: deal.id } },
+      createHandlers({ getPriceHistory: async () => ({ history, simulated: true }) })
+    );
+    expect(outcome.response).toEqual({ currency: 'USD', history, simulated: true });
+    expect(outcome.summary).toBe('Looked up simulated price history for "Sony WH-1000XM5 Headphones" (2 points)');
+  });
+
+  it('reports unknown deal ids and handler errors back to the model instead of throwing', async () => {
+    const missing = await executeChatTool({ name: 'verify_deal', args: { dealId: 'deal-nope' } }, createHandlers());
+    expect(missing).toMatchObject({ failed: true, response: { error: 'No deal with id "deal-nope" is currently shown.' } });
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = await executeChatTool(
+      { name: 'get_price_history', args: { dealId: deal.id } },
+      createHandlers({ getPriceHistory: async () => { throw new Error('IndexedDB unavailable'); } })
+    );
+    expect(failing).toMatchObject({ failed: true, response: { error: 'IndexedDB unavailable' } });
+  });
+});
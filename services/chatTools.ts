@@ -0,0 +1,158 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { ChatToolCall, Deal, DealVerification, LocaleCode, PriceDataPoint, UserPreferences } from '../types';
+import { DEAL_CATEGORIES, DEFAULT_LOCALE } from '../constants';
+import { formatMoney } from './money';
+import { withResolvedPlace } from './locationService';
+import { translate } from './i18n';
+
+export const SEARCH_DEALS_TOOL = "search_deals";
+export const VERIFY_DEAL_TOOL = "verify_deal";
+export const GET_PRICE_HISTORY_TOOL = "get_price_history";
+export const ADD_TO_WATCHLIST_TOOL = "add_to_watchlist";
+
+const DEAL_ID_PARAMETERS = {
+  type: Type.OBJECT,
+  properties: {
+    dealId: { type: Type.STRING, description: "The exact id of a deal from the list shown to the user or from a search_deals result." },
+  },
+  required: ['dealId'],
+};
+
+export const CHAT_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: SEARCH_DEALS_TOOL,
+    description: "Replaces the user's search filters and runs a new deal search. The deals shown to the user change to the results.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        keywords: { type: Type.STRING, description: "Free-text search terms, e.g. 'noise cancelling headphones'." },
+        categories: { type: Type.ARRAY, items: { type: Type.STRING, enum: DEAL_CATEGORIES }, description: "Categories to restrict the search to; empty for all." },
+        location: { type: Type.STRING, description: "City or area for local deals; empty for online deals." },
+        radiusKm: { type: Type.NUMBER, description: "How far from the location stores may be, in km; omit for any distance." },
+      },
+    },
+  },
+  {
+    name: VERIFY_DEAL_TOOL,
+    description: "Checks how legitimate and good a deal is. Returns a 1-5 score, a summary and the individual checks with their evidence; a null score means it could not be checked.",
+    parameters: DEAL_ID_PARAMETERS,
+  },
+  {
+    name: GET_PRICE_HISTORY_TOOL,
+    description: "Returns the prices recorded for a deal's product over time, oldest first. When the result has \"simulated\": true "
+      + "the history was made up for demo mode: tell the user it is simulated and do not present its trend as real price data.",
+    parameters: DEAL_ID_PARAMETERS,
+  },
+  {
+    name: ADD_TO_WATCHLIST_TOOL,
+    description: "Adds a deal to the user's watchlist so its price is tracked and the user is alerted to drops.",
+    parameters: DEAL_ID_PARAMETERS,
+  },
+];
+
+/** The app-side operations the assistant's tools run against. */
+export interface ChatToolHandlers {
+  findDeal: (dealId: string) => Deal | undefined;
+  searchDeals: (preferences: UserPreferences) => Promise<{ deals: Deal[]; undo: () => void }>;
+  verifyDeal: (deal: Deal) => Promise<DealVerification>;
+  getPriceHistory: (deal: Deal) => Promise<{ history: PriceDataPoint[]; simulated: boolean }>; // simulated for demo deals
+  addToWatchlist: (deal: Deal) => { undo: () => void } | null; // null when the deal is already watched
+}
+
+export interface ChatToolOutcome {
+  response: Record<string, unknown>; // Sent back to the model
+  summary: string; // Shown to the user, in the locale the tool ran in
+  failed?: boolean;
+  undo?: () => void;
+}
+
+const describeDealForModel = (deal: Deal) => ({
+  id: deal.id,
+  title: deal.title,
+  price: formatMoney(deal.discountedPrice, 'en-US'),
+  originalPrice: formatMoney(deal.originalPrice, 'en-US'),
+  merchant: deal.merchant,
+  category: deal.category,
+  ...(deal.fulfillment ? { fulfillment: deal.fulfillment } : {}),
+  ...(deal.storeLocation ? { storeLocation: deal.storeLocation.label } : {}),
+});
+
+// Model-supplied arguments are untyped; anything unexpected falls back to an empty filter.
+export const toUserPreferences = (args: Record<string, unknown>): UserPreferences => withResolvedPlace({
+  keywords: typeof args.keywords === 'string' ? args.keywords.trim() : '',
+  categories: Array.isArray(args.categories)
+    ? args.categories.filter((category): category is string => typeof category === 'string' && DEAL_CATEGORIES.includes(category))
+    : [],
+  location: typeof args.location === 'string' ? args.location.trim() : '',
+  ...(typeof args.radiusKm === 'number' && args.radiusKm > 0 ? { radiusKm: Math.round(args.radiusKm) } : {}),
+});
+
+const describeFilters = (preferences: UserPreferences, locale: LocaleCode): string => {
+  const parts = [
+    preferences.keywords && `"${preferences.keywords}"`,
+    preferences.categories.length > 0 && preferences.categories.join(', '),
+    preferences.location && translate(locale, preferences.radiusKm ? 'chatTools.nearWithin' : 'chatTools.near', {
+      location: preferences.location,
+      km: preferences.radiusKm ?? 0,
+    }),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : translate(locale, 'chatTools.allDeals');
+};
+
+const failure = (summary: string, error: string): ChatToolOutcome => ({ response: { error }, summary, failed: true });
+
+/**
+ * Runs one tool call from the assistant. Never throws: unknown tools, unknown deal ids and
+ * handler errors become an `error` response so the model can explain what went wrong.
+ */
+export const executeChatTool = async (call: ChatToolCall, handlers: ChatToolHandlers, locale: LocaleCode = DEFAULT_LOCALE): Promise<ChatToolOutcome> => {
+  try {
+    if (call.name === SEARCH_DEALS_TOOL) {
+      const preferences = toUserPreferences(call.args);
+      const { deals, undo } = await handlers.searchDeals(preferences);
+      return {
+        response: { resultCount: deals.length, deals: deals.map(describeDealForModel) },
+        summary: translate(locale, 'chatTools.searched', { filters: describeFilters(preferences, locale), count: deals.length }),
+        undo,
+      };
+    }
+
+    const dealId = typeof call.args.dealId === 'string' ? call.args.dealId : '';
+    const deal = handlers.findDeal(dealId);
+    if (![VERIFY_DEAL_TOOL, GET_PRICE_HISTORY_TOOL, ADD_TO_WATCHLIST_TOOL].includes(call.name)) {
+      return failure(translate(locale, 'chatTools.unknownAction', { name: call.name }), `Unknown tool "${call.name}".`);
+    }
+    if (!deal) {
+      return failure(translate(locale, 'chatTools.dealNotFound', { id: dealId || translate(locale, 'chatTools.noId') }), `No deal with id "${dealId}" is currently shown.`);
+    }
+
+    if (call.name === VERIFY_DEAL_TOOL) {
+      const verification = await handlers.verifyDeal(deal);
+      return {
+        response: {
+          status: verification.status,
+          score: verification.score,
+          summary: verification.summary,
+          factors: verification.factors.map(f => ({ factor: f.label, status: f.status, evidence: f.evidence })),
+        },
+        summary: verification.score === null
+          ? translate(locale, 'chatTools.couldNotVerify', { title: deal.title })
+          : translate(locale, verification.status === 'partial' ? 'chatTools.verifiedLocally' : 'chatTools.verified', { title: deal.title, score: verification.score }),
+      };
+    }
+    if (call.name === GET_PRICE_HISTORY_TOOL) {
+      const { history, simulated } = await handlers.getPriceHistory(deal);
+      return {
+        response: { currency: deal.discountedPrice.currency, history, simulated },
+        summary: translate(locale, simulated ? 'chatTools.simulatedPriceHistory' : 'chatTools.priceHistory', { title: deal.title, count: history.length }),
+      };
+    }
+    const added = handlers.addToWatchlist(deal);
+    return added
+      ? { response: { added: true }, summary: translate(locale, 'chatTools.added', { title: deal.title }), undo: added.undo }
+      : { response: { added: false, reason: "Already on the watchlist." }, summary: translate(locale, 'chatTools.alreadyWatched', { title: deal.title }) };
+  } catch (error) {
+    console.error(`Chat tool ${call.name} failed:`, error);
+    return failure(translate(locale, 'chatTools.failed', { name: call.name }), (error as Error).message);
+  }
+};
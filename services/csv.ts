@@ -0,0 +1,72 @@
+// Minimal RFC 4180 style CSV handling: quoted fields, escaped quotes ("") and newlines inside quotes.
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Turns a CSV with a header row into one record per line, keyed by the trimmed header names.
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(key => key.trim());
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, index) => {
+      record[key] = (cells[index] ?? '').trim();
+    });
+    return record;
+  });
+};
+
+// Text a spreadsheet would evaluate as a formula is prefixed with an apostrophe, so exported deal text stays inert.
+const escapeCsvField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | null | undefined)[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { Deal, UserData } from '../types';
+import { BACKUP_FORMAT_VERSION, PREFERENCE_PROFILE_STORAGE_KEY, WATCHLIST_STORAGE_KEY } from '../constants';
+import { createBackup, exportedDealsToCsv, parseBackup, toExportedDeals } from './dataTransfer';
+import { parseCsvRecords } from './csv';
+import { parseFeedDeals } from './localFeedProvider';
+import { parseMoney } from './money';
+import { emptyProfile } from './preferenceProfile';
+
+const deal: Deal = {
+  id: 'deal-headphones',
+  title: '=Sony "XM5" Headphones, black',
+  description: 'Noise cancelling.',
+  originalPrice: parseMoney('$399.00'),
+  discountedPrice: parseMoney('$299.00'),
+  merchant: 'Amazon',
+  category: 'Electronics',
+  providerId: 'gemini',
+};
+
+const userData: UserData = {
+  savedSearches: [],
+  watchlist: [{ dealId: deal.id, deal, addedAt: '2026-03-01T08:00:00.000Z', baselinePrice: deal.discountedPrice, targetPrice: 250 }],
+  profile: { ...emptyProfile(), feedback: { [deal.id]: true } },
+  merchantOverrides: { amazon: 'trusted' },
+};
+
+describe('deal export', () => {
+  it('adds the parsed prices, discount, savings, score and sources', () => {
+    expect(toExportedDeals([deal], { [deal.id]: 4 })[0]).toMatchObject({
+      originalPrice: '$399.00',
+      discountedAmount: 299,
+      currency: 'USD',
+      discountPercent: 25,
+      savings: 100,
+      verificationScore: 4,
+      sources: [{ providerId: 'gemini', discountedPrice: '$299.00', discountedAmount: 299 }],
+    });
+  });
+
+  it('writes CSV that quotes text, defuses formulas and can be imported again as a deal list', () => {
+    const csv = exportedDealsToCsv(toExportedDeals([deal]));
+    const [record] = parseCsvRecords(csv);
+    expect(record.title).toBe(`'${deal.title}`);
+    expect(record.sources).toBe('gemini: $299.00');
+    expect(parseFeedDeals(csv, 'csv').deals[0]).toMatchObject({ merchant: 'Amazon', discountedPrice: { amount: 299, currency: 'USD' } });
+  });
+});
+
+describe('backup', () => {
+  it('round-trips the user data', () => {
+    const backup = createBackup(userData, new Date('2026-03-02T00:00:00Z'));
+    expect(backup).toMatchObject({ format: 'dealdigger-backup', version: BACKUP_FORMAT_VERSION });
+    expect(parseBackup(JSON.stringify(backup))).toEqual(userData);
+  });
+
+  it('migrates a copy of the localStorage entries and drops malformed entries', () => {
+    const dump = {
+      [WATCHLIST_STORAGE_KEY]: JSON.stringify([...userData.watchlist, { dealId: 42 }]),
+      [PREFERENCE_PROFILE_STORAGE_KEY]: JSON.stringify({ feedback: { [deal.id]: true } }),
+    };
+    expect(parseBackup(JSON.stringify(dump))).toEqual({ ...userData, merchantOverrides: {} });
+  });
+
+  it('rejects files from a newer version or another app', () => {
+    expect(() => parseBackup(JSON.stringify({ ...createBackup(userData), version: BACKUP_FORMAT_VERSION + 1 }))).toThrow(/newer version/);
+    expect(() => parseBackup('{"hello": "world"}')).toThrow(/not a DealDigger backup/);
+    expect(() => parseBackup('not json')).toThrow(/not valid JSON/);
+  });
+});
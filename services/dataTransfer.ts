@@ -0,0 +1,142 @@
+import { Deal, ExportedDeal, LocaleCode, MerchantOverrides, SavedSearch, UserData, UserDataBackup, WatchlistItem } from '../types';
+import {
+  BACKUP_FORMAT_VERSION,
+  DEFAULT_LOCALE,
+  MERCHANT_OVERRIDES_STORAGE_KEY,
+  PREFERENCE_PROFILE_STORAGE_KEY,
+  SAVED_SEARCHES_STORAGE_KEY,
+  WATCHLIST_STORAGE_KEY,
+} from '../constants';
+import { toCsv } from './csv';
+import { discountPercentage, savingsAmount } from './money';
+import { emptyProfile } from './preferenceProfile';
+import { translate } from './i18n';
+
+// Getting data out of the app and back in: result exports, and a versioned backup of everything kept in localStorage.
+
+const BACKUP_FORMAT = 'dealdigger-backup';
+
+const priceText = (money: Deal['discountedPrice']): string => money.raw || (money.amount === null ? '' : String(money.amount));
+
+export const toExportedDeals = (deals: Deal[], verificationScores: Record<string, number | null> = {}): ExportedDeal[] =>
+  deals.map(deal => ({
+    id: deal.id,
+    title: deal.title,
+    description: deal.description,
+    merchant: deal.merchant,
+    category: deal.category,
+    originalPrice: priceText(deal.originalPrice),
+    discountedPrice: priceText(deal.discountedPrice),
+    originalAmount: deal.originalPrice.amount,
+    discountedAmount: deal.discountedPrice.amount,
+    currency: deal.discountedPrice.currency ?? deal.originalPrice.currency,
+    discountPercent: discountPercentage(deal.originalPrice, deal.discountedPrice),
+    savings: savingsAmount(deal.originalPrice, deal.discountedPrice),
+    verificationScore: verificationScores[deal.id] ?? null,
+    sources: (deal.sources ?? (deal.providerId ? [{ providerId: deal.providerId, originalPrice: deal.originalPrice, discountedPrice: deal.discountedPrice }] : []))
+      .map(source => ({ providerId: source.providerId, discountedPrice: priceText(source.discountedPrice), discountedAmount: source.discountedPrice.amount })),
+    ...(deal.imageUrl ? { imageUrl: deal.imageUrl } : {}),
+    ...(deal.fulfillment ? { fulfillment: deal.fulfillment } : {}),
+    ...(deal.storeLocation ? { storeLocation: deal.storeLocation.label } : {}),
+  }));
+
+const CSV_COLUMNS: (keyof ExportedDeal)[] = [
+  'id', 'title', 'description', 'merchant', 'category', 'originalPrice', 'discountedPrice', 'originalAmount', 'discountedAmount',
+  'currency', 'discountPercent', 'savings', 'verificationScore', 'sources', 'imageUrl', 'fulfillment', 'storeLocation',
+];
+
+/** One row per deal; the sources column lists "provider: price" pairs separated by semicolons. */
+export const exportedDealsToCsv = (deals: ExportedDeal[]): string =>
+  toCsv([
+    CSV_COLUMNS,
+    ...deals.map(deal => CSV_COLUMNS.map(column => column === 'sources'
+      ? deal.sources.map(source => `${source.providerId}: ${source.discountedPrice}`).join('; ')
+      : deal[column] as string | number | null | undefined)),
+  ]);
+
+export const createBackup = (data: UserData, now: Date = new Date()): UserDataBackup => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_FORMAT_VERSION,
+  exportedAt: now.toISOString(),
+  ...data,
+});
+
+type BackupRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is BackupRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// localStorage holds JSON text; a copy of it may hold either the text or the parsed value.
+const storedValue = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Steps that upgrade a backup from the version they are keyed by to the next one, applied in order on import.
+ * Version 0 is a plain copy of the app's localStorage entries keyed by storage key, as made before backups existed.
+ */
+const BACKUP_MIGRATIONS: Record<number, (backup: BackupRecord) => BackupRecord> = {
+  0: (backup) => ({
+    format: BACKUP_FORMAT,
+    version: 1,
+    savedSearches: storedValue(backup[SAVED_SEARCHES_STORAGE_KEY]),
+    watchlist: storedValue(backup[WATCHLIST_STORAGE_KEY]),
+    profile: storedValue(backup[PREFERENCE_PROFILE_STORAGE_KEY]),
+    merchantOverrides: storedValue(backup[MERCHANT_OVERRIDES_STORAGE_KEY]),
+  }),
+};
+
+const backupVersion = (backup: BackupRecord): number => {
+  if (backup.format === BACKUP_FORMAT) return typeof backup.version === 'number' ? backup.version : NaN;
+  return Object.keys(backup).some(key => key.startsWith('dealdigger.')) ? 0 : NaN;
+};
+
+const listOf = <T,>(value: unknown, isValid: (item: BackupRecord) => boolean): T[] =>
+  Array.isArray(value) ? (value.filter(item => isRecord(item) && isValid(item)) as T[]) : [];
+
+// Entries that are not even shaped right are dropped rather than failing the whole import.
+const toUserData = (backup: BackupRecord): UserData => ({
+  savedSearches: listOf<SavedSearch>(backup.savedSearches, search =>
+    typeof search.id === 'string' && typeof search.name === 'string' && isRecord(search.preferences) && Array.isArray(search.providerIds)),
+  watchlist: listOf<WatchlistItem>(backup.watchlist, item => typeof item.dealId === 'string' && isRecord(item.deal) && isRecord(item.baselinePrice)),
+  profile: { ...emptyProfile(), ...(isRecord(backup.profile) ? backup.profile : {}) },
+  merchantOverrides: Object.fromEntries(
+    Object.entries(isRecord(backup.merchantOverrides) ? backup.merchantOverrides : {}).filter(([, tier]) => tier === 'trusted' || tier === 'blocked')
+  ) as MerchantOverrides,
+});
+
+/** Reads a backup file, upgrading older versions. Throws an Error with a message for the user, in `locale`, when it cannot. */
+export const parseBackup = (text: string, locale: LocaleCode = DEFAULT_LOCALE): UserData => {
+  let backup: unknown;
+  try {
+    backup = JSON.parse(text);
+  } catch {
+    throw new Error(translate(locale, 'data.backup.invalidJson'));
+  }
+  if (!isRecord(backup)) throw new Error(translate(locale, 'data.backup.notBackup'));
+  let version = backupVersion(backup);
+  if (!Number.isInteger(version) || version < 0) throw new Error(translate(locale, 'data.backup.notBackup'));
+  if (version > BACKUP_FORMAT_VERSION) {
+    throw new Error(translate(locale, 'data.backup.tooNew', { version, supported: BACKUP_FORMAT_VERSION }));
+  }
+  for (; version < BACKUP_FORMAT_VERSION; version++) {
+    backup = BACKUP_MIGRATIONS[version](backup as BackupRecord);
+  }
+  return toUserData(backup as BackupRecord);
+};
+
+/** Saves `text` as a file through the browser's download prompt. */
+export const downloadText = (fileName: string, text: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_DEAL_FILTERS, applyFilters, computeFacets, dealAvailability, sortDeals } from './dealFacets';
+import { parseMoney } from './money';
+import { Deal } from '../types';
+
+const makeDeal = (id: string, original: string, discounted: string, overrides: Partial<Deal> = {}): Deal => ({
+  id,
+  title: `Deal ${id}`,
+  description: '',
+  originalPrice: parseMoney(original),
+  discountedPrice: parseMoney(discounted),
+  merchant: 'Target',
+  category: 'Electronics',
+  ...overrides,
+});
+
+const deals = [
+  makeDeal('a', '$100', '$90'), // 10% off, saves $10
+  makeDeal('b', '$400', '$300', { merchant: 'Best Buy', description: 'Pick up in store today.' }), // 25% off, saves $100
+  makeDeal('c', '$50', '$20', { category: 'Books', description: 'Free shipping.' }), // 60% off, saves $30
+  makeDeal('d', 'Price varies', 'Price varies', { merchant: 'Amazon' }),
+];
+
+describe('sortDeals', () => {
+  it('sorts by discount, price, savings and merchant, with missing values last', () => {
+    expect(sortDeals(deals, 'discount').map(deal => deal.id)).toEqual(['c', 'b', 'a', 'd']);
+    expect(sortDeals(deals, 'price').map(deal => deal.id)).toEqual(['c', 'a', 'b', 'd']);
+    expect(sortDeals(deals, 'savings').map(deal => deal.id)).toEqual(['b', 'c', 'a', 'd']);
+    expect(sortDeals(deals, 'merchant').map(deal => deal.id)).toEqual(['d', 'b', 'a', 'c']);
+    expect(sortDeals(deals, 'relevance')).toEqual(deals);
+  });
+
+  it('sorts prices within each currency, the most common currency first', () => {
+    const euro = makeDeal('e', '€20', '€5');
+    expect(sortDeals([euro, ...deals], 'price').map(deal => deal.id)).toEqual(['c', 'a', 'b', 'e', 'd']);
+  });
+
+  it('sorts by the supplied verification score', () => {
+    const scores: Record<string, number | null> = { a: 2, b: 5, c: null, d: 4 };
+    expect(sortDeals(deals, 'score', deal => scores[deal.id]).map(deal => deal.id)).toEqual(['b', 'd', 'a', 'c']);
+  });
+});
+
+describe('facets and filters', () => {
+  it('counts merchants, categories, discounts and availability in the results', () => {
+    const facets = computeFacets(deals);
+    expect(facets.merchants[0]).toEqual({ value: 'Target', count: 2 });
+    expect(facets.categories).toEqual([{ value: 'Electronics', count: 3 }, { value: 'Books', count: 1 }]);
+    expect(facets.priceBounds).toEqual({ min: 20, max: 300 });
+    expect(facets.discounts).toEqual([{ value: '10', count: 3 }, { value: '25', count: 2 }, { value: '50', count: 1 }, { value: '75', count: 0 }]);
+    expect(dealAvailability(deals[1])).toBe('local');
+    expect(dealAvailability(deals[2])).toBe('online');
+  });
+
+  it('combines filters, dropping deals without a price when a price range is set', () => {
+    expect(applyFilters(deals, { ...EMPTY_DEAL_FILTERS, minDiscount: 25 }).map(deal => deal.id)).toEqual(['b', 'c']);
+    expect(applyFilters(deals, { ...EMPTY_DEAL_FILTERS, priceRange: { min: 50, max: 300 } }).map(deal => deal.id)).toEqual(['a', 'b']);
+    expect(applyFilters(deals, { ...EMPTY_DEAL_FILTERS, merchants: ['Target'], categories: ['Books'] }).map(deal => deal.id)).toEqual(['c']);
+    expect(applyFilters(deals, EMPTY_DEAL_FILTERS)).toEqual(deals);
+  });
+
+  it('filters stores by distance from the search location, keeping deals that can be bought online', () => {
+    const berlin = { lat: 52.52, lon: 13.405 };
+    const located = [
+      makeDeal('near', '$10', '$5', { fulfillment: 'in-store', storeLocation: { label: 'Potsdam', coordinates: { lat: 52.39, lon: 13.06 } } }),
+      makeDeal('far', '$10', '$5', { fulfillment: 'in-store', storeLocation: { label: 'Munich', coordinates: { lat: 48.135, lon: 11.582 } } }),
+      makeDeal('both', '$10', '$5', { fulfillment: 'both', storeLocation: { label: 'Munich', coordinates: { lat: 48.135, lon: 11.582 } } }),
+      makeDeal('nowhere', '$10', '$5', { fulfillment: 'in-store' }),
+    ];
+    expect(computeFacets(located, berlin).distances).toEqual([
+      { value: '5', count: 0 }, { value: '10', count: 0 }, { value: '25', count: 0 }, { value: '50', count: 1 }, { value: '100', count: 1 },
+    ]);
+    expect(computeFacets(located).distances).toEqual([]);
+    expect(applyFilters(located, { ...EMPTY_DEAL_FILTERS, maxDistanceKm: 50 }, berlin).map(deal => deal.id)).toEqual(['near', 'both']);
+    expect(dealAvailability(located[2])).toBe('both');
+  });
+});
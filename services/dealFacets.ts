@@ -0,0 +1,108 @@
+import { Deal, DealAvailability, DealFacets, DealFilters, DealFulfillment, DealSortKey, FacetCount, GeoPoint } from '../types';
+import { DISCOUNT_FACET_STEPS, DISTANCE_FACET_STEPS_KM } from '../constants';
+import { dealDistanceKm } from './locationService';
+import { discountPercentage, savingsAmount } from './money';
+
+// Sorting and filtering of the current results, all on the client; nothing here calls the API.
+
+export const EMPTY_DEAL_FILTERS: DealFilters = { merchants: [], categories: [], priceRange: null, minDiscount: 0, availability: [], maxDistanceKm: null };
+
+const LOCAL_PATTERN = /\b(in[- ]store|local(?:ly)?|store pick-?up|pick ?up in store|in person|near you)\b/i;
+const ONLINE_PATTERN = /\b(online|ships?|shipping|delivery|delivered|e-?shop)\b|\.(com|net|shop|store)\b/i;
+
+const FULFILLMENT_AVAILABILITY: Record<DealFulfillment, DealAvailability> = { online: 'online', 'in-store': 'local', both: 'both' };
+
+// Deals from older sources have no `fulfillment`, but the listing text usually tells.
+export const dealAvailability = (deal: Deal): DealAvailability => {
+  if (deal.fulfillment) return FULFILLMENT_AVAILABILITY[deal.fulfillment];
+  const text = `${deal.title} ${deal.description} ${deal.merchant}`;
+  if (LOCAL_PATTERN.test(text)) return 'local';
+  if (ONLINE_PATTERN.test(text)) return 'online';
+  return 'unknown';
+};
+
+const countBy = <T extends string>(values: T[]): FacetCount<T>[] => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+const isWithin = (deal: Deal, maxDistanceKm: number, origin: GeoPoint | undefined): boolean => {
+  const distance = dealDistanceKm(deal, origin);
+  return distance !== null && distance <= maxDistanceKm;
+};
+
+/** `origin` is the search location; without it there are no distance choices. */
+export const computeFacets = (deals: Deal[], origin?: GeoPoint): DealFacets => {
+  const prices = deals.map(deal => deal.discountedPrice.amount).filter((amount): amount is number => amount !== null);
+  const discounts = deals.map(deal => discountPercentage(deal.originalPrice, deal.discountedPrice) ?? 0);
+  return {
+    merchants: countBy(deals.map(deal => deal.merchant.trim()).filter(Boolean)),
+    categories: countBy(deals.map(deal => deal.category)),
+    priceBounds: prices.length > 0 ? { min: Math.floor(Math.min(...prices)), max: Math.ceil(Math.max(...prices)) } : null,
+    discounts: DISCOUNT_FACET_STEPS.map(step => ({ value: String(step), count: discounts.filter(percent => percent >= step).length })),
+    availability: countBy(deals.map(dealAvailability)),
+    distances: origin ? DISTANCE_FACET_STEPS_KM.map(step => ({ value: String(step), count: deals.filter(deal => isWithin(deal, step, origin)).length })) : [],
+  };
+};
+
+export const applyFilters = (deals: Deal[], filters: DealFilters, origin?: GeoPoint): Deal[] =>
+  deals.filter(deal => {
+    if (filters.merchants.length > 0 && !filters.merchants.includes(deal.merchant.trim())) return false;
+    if (filters.categories.length > 0 && !filters.categories.includes(deal.category)) return false;
+    if (filters.priceRange) {
+      const amount = deal.discountedPrice.amount;
+      if (amount === null || amount < filters.priceRange.min || amount > filters.priceRange.max) return false;
+    }
+    if (filters.minDiscount > 0 && (discountPercentage(deal.originalPrice, deal.discountedPrice) ?? 0) < filters.minDiscount) return false;
+    if (filters.availability.length > 0 && !filters.availability.includes(dealAvailability(deal))) return false;
+    if (filters.maxDistanceKm !== null && !['online', 'both'].includes(dealAvailability(deal)) && !isWithin(deal, filters.maxDistanceKm, origin)) return false;
+    return true;
+  });
+
+export const countActiveFilters = (filters: DealFilters): number =>
+  filters.merchants.length + filters.categories.length + filters.availability.length + (filters.priceRange ? 1 : 0) + (filters.minDiscount > 0 ? 1 : 0) +
+  (filters.maxDistanceKm !== null ? 1 : 0);
+
+// Ascending for `direction` 1, descending for -1; deals without a value go last in either direction.
+const byValue = (valueOf: (deal: Deal) => number | null, direction: 1 | -1) => (a: Deal, b: Deal): number => {
+  const x = valueOf(a);
+  const y = valueOf(b);
+  if (x === null || y === null) return x === null ? (y === null ? 0 : 1) : -1;
+  return (x - y) * direction;
+};
+
+// Amounts in different currencies are not comparable: deals in the most common currency come first, sorted among
+// themselves, then each other currency in turn. Deals without an amount still go last.
+const byAmount = (deals: Deal[], valueOf: (deal: Deal) => number | null, direction: 1 | -1) => {
+  const counts = new Map<string | null, number>();
+  deals.forEach(deal => counts.set(deal.discountedPrice.currency, (counts.get(deal.discountedPrice.currency) ?? 0) + 1));
+  const currencies = [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || (a ?? '').localeCompare(b ?? ''));
+  const rankOf = (deal: Deal) => currencies.indexOf(deal.discountedPrice.currency);
+  const compare = byValue(valueOf, direction);
+  return (a: Deal, b: Deal): number =>
+    (valueOf(a) !== null && valueOf(b) !== null ? rankOf(a) - rankOf(b) : 0) || compare(a, b);
+};
+
+/**
+ * A sorted copy of `deals`. 'relevance' keeps the order they arrived in (already ranked by the preference profile);
+ * `scoreOf` supplies the verification score for 'score'. Ties keep their relative order.
+ * 'price' and 'savings' compare amounts within one currency only, the most common currency first.
+ */
+export const sortDeals = (deals: Deal[], key: DealSortKey, scoreOf: (deal: Deal) => number | null = () => null): Deal[] => {
+  const sorted = [...deals];
+  switch (key) {
+    case 'discount':
+      return sorted.sort(byValue(deal => discountPercentage(deal.originalPrice, deal.discountedPrice), -1));
+    case 'price':
+      return sorted.sort(byAmount(deals, deal => deal.discountedPrice.amount, 1));
+    case 'savings':
+      return sorted.sort(byAmount(deals, deal => savingsAmount(deal.originalPrice, deal.discountedPrice), -1));
+    case 'score':
+      return sorted.sort(byValue(scoreOf, -1));
+    case 'merchant':
+      return sorted.sort((a, b) => a.merchant.localeCompare(b.merchant, undefined, { sensitivity: 'base' }));
+    default:
+      return sorted;
+  }
+};
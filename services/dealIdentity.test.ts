@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { excludeShownDeals, fingerprintDeal, mergeDeals, titleSimilarity } from './dealIdentity';
+import { parseMoney } from './money';
+import { Deal } from '../types';
+
+const makeDeal = (title: string, price: string, providerId: string, overrides: Partial<Deal> = {}): Deal => {
+  const base = { title, merchant: 'BestBuy', category: 'Electronics', ...overrides };
+  return {
+    id: fingerprintDeal(base),
+    description: '',
+    originalPrice: parseMoney('$399.99'),
+    discountedPrice: parseMoney(price),
+    providerId,
+    ...base,
+  };
+};
+
+describe('fingerprintDeal', () => {
+  it('is stable across promo wording, case and punctuation', () => {
+    const a = fingerprintDeal({ title: '50% Off Sony WH-1000XM5 Headphones!', merchant: 'BestBuy', category: 'Electronics' });
+    const b = fingerprintDeal({ title: 'sony wh 1000xm5 headphones', merchant: 'bestbuy.com', category: 'Electronics' });
+    expect(a).toBe(b);
+  });
+
+  it('differs for another merchant', () => {
+    const a = fingerprintDeal({ title: 'Sony WH-1000XM5', merchant: 'BestBuy', category: 'Electronics' });
+    const b = fingerprintDeal({ title: 'Sony WH-1000XM5', merchant: 'Amazon', category: 'Electronics' });
+    expect(a).not.toBe(b);
+  });
+});
+
+describe('titleSimilarity', () => {
+  it('scores near-identical titles highly and unrelated ones low', () => {
+    expect(titleSimilarity('Sony WH-1000XM5 Noise Cancelling Headphones', 'Sony WH-1000XM5 Noise-Canceling Headphones')).toBeGreaterThan(0.85);
+    expect(titleSimilarity('Sony WH-1000XM5 Headphones', 'Ninja Air Fryer')).toBeLessThan(0.3);
+  });
+});
+
+describe('mergeDeals', () => {
+  it('collapses duplicates keeping the first id, the best price and every source', () => {
+    const first = makeDeal('Sony WH-1000XM5 Noise Cancelling Headphones', '$249.99', 'gemini');
+    const nearDuplicate = makeDeal('Sony WH-1000XM5 Noise-Canceling Headphones', '$229.99', 'gemini-search');
+    const other = makeDeal('Ninja Air Fryer', '$89.99', 'gemini', { category: 'Home & Kitchen' });
+
+    const merged = mergeDeals([first], [nearDuplicate, other]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0].id).toBe(first.id);
+    expect(merged[0].discountedPrice.amount).toBe(229.99);
+    expect(merged[0].providerId).toBe('gemini-search');
+    expect(merged[0].sources?.map(s => s.providerId)).toEqual(['gemini', 'gemini-search']);
+  });
+});
+
+describe('excludeShownDeals', () => {
+  it('leaves out products already shown, even when reworded', () => {
+    const shown = [makeDeal('Sony WH-1000XM5 Noise Cancelling Headphones', '$299.99', 'gemini')];
+    const page = [
+      makeDeal('Sony WH-1000XM5 Noise-Canceling Headphones', '$289.99', 'gemini'),
+      makeDeal('Ninja Air Fryer', '$89.99', 'gemini', { category: 'Home & Kitchen' }),
+    ];
+    expect(excludeShownDeals(page, shown).map(deal => deal.title)).toEqual(['Ninja Air Fryer']);
+    expect(excludeShownDeals(page)).toBe(page);
+  });
+});
@@ -0,0 +1,123 @@
+import { Deal, DealSource } from '../types';
+import { DEAL_TITLE_SIMILARITY_THRESHOLD } from '../constants';
+import { mergeSourceRefs } from './groundingSources';
+
+// Marketing noise that varies between listings of the same product ("50% Off", "Save $20", "Deal:").
+const PROMO_PATTERNS = [
+  /\b\d+(\.\d+)?\s*%\s*off\b/g,
+  /\bsave\s+[^\s]*\d[^\s]*/g,
+  /\b(deal|sale|offer|discount|limited time|flash|hot|new|only|now)\b/g,
+];
+
+export const normalizeTitle = (title: string): string => {
+  let normalized = title.toLowerCase();
+  PROMO_PATTERNS.forEach(pattern => {
+    normalized = normalized.replace(pattern, ' ');
+  });
+  return normalized.replace(/[^\p{L}\p{N}]+/gu, ' ').replace(/\s+/g, ' ').trim();
+};
+
+const normalizeMerchant = (merchant: string): string =>
+  merchant.toLowerCase().replace(/\.(com|co\.uk|de|fr|ca)$/, '').replace(/[^\p{L}\p{N}]+/gu, '');
+
+// 32-bit FNV-1a, rendered in base 36: short, deterministic and good enough to tell products apart.
+export const hashString = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Deterministic id for a deal, derived from its normalized title, merchant and category,
+ * so the same product returned by different searches or providers gets the same id.
+ */
+export const fingerprintDeal = (deal: Pick<Deal, 'title' | 'merchant' | 'category'>): string =>
+  `deal-${hashString([normalizeTitle(deal.title), normalizeMerchant(deal.merchant), deal.category.toLowerCase()].join('|'))}`;
+
+const bigrams = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const compact = text.replace(/\s+/g, ' ');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Sørensen–Dice coefficient over character bigrams of the normalized titles, from 0 (unrelated) to 1 (identical).
+export const titleSimilarity = (a: string, b: string): number => {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  leftGrams.forEach((count, gram) => {
+    overlap += Math.min(count, rightGrams.get(gram) ?? 0);
+  });
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+};
+
+export const isSameProduct = (a: Pick<Deal, 'id' | 'title' | 'merchant' | 'category'>, b: Pick<Deal, 'id' | 'title' | 'merchant' | 'category'>): boolean => {
+  if (a.id === b.id) return true;
+  if (a.category !== b.category || normalizeMerchant(a.merchant) !== normalizeMerchant(b.merchant)) return false;
+  return titleSimilarity(a.title, b.title) >= DEAL_TITLE_SIMILARITY_THRESHOLD;
+};
+
+const sourceOf = (deal: Deal): DealSource[] =>
+  deal.sources ?? (deal.providerId ? [{ providerId: deal.providerId, originalPrice: deal.originalPrice, discountedPrice: deal.discountedPrice }] : []);
+
+const isBetterPrice = (candidate: Deal, current: Deal): boolean => {
+  const candidateAmount = candidate.discountedPrice.amount;
+  const currentAmount = current.discountedPrice.amount;
+  if (candidateAmount === null) return false;
+  if (currentAmount === null) return true;
+  return candidate.discountedPrice.currency === current.discountedPrice.currency && candidateAmount < currentAmount;
+};
+
+const mergePair = (kept: Deal, duplicate: Deal): Deal => {
+  const sources = [...sourceOf(kept)];
+  sourceOf(duplicate).forEach(source => {
+    if (!sources.some(s => s.providerId === source.providerId && s.discountedPrice.raw === source.discountedPrice.raw)) {
+      sources.push(source);
+    }
+  });
+  // The first deal keeps its id and text so anything already attached to it still matches; only the price moves.
+  const best = isBetterPrice(duplicate, kept) ? duplicate : kept;
+  return {
+    ...kept,
+    originalPrice: best.originalPrice,
+    discountedPrice: best.discountedPrice,
+    providerId: best.providerId,
+    imageUrl: kept.imageUrl ?? duplicate.imageUrl,
+    sourceUrl: kept.sourceUrl ?? duplicate.sourceUrl,
+    sourceRefs: mergeSourceRefs(kept.sourceRefs, duplicate.sourceRefs),
+    sources,
+  };
+};
+
+/**
+ * Appends `incoming` to `existing`, collapsing duplicates within and across both lists.
+ * Duplicates share a fingerprint or have near-identical titles from the same merchant and category;
+ * the merged deal keeps the lowest price and every source that reported it.
+ */
+export const mergeDeals = (existing: Deal[], incoming: Deal[]): Deal[] => {
+  const merged: Deal[] = [];
+  [...existing, ...incoming].forEach(deal => {
+    const index = merged.findIndex(candidate => isSameProduct(candidate, deal));
+    if (index === -1) {
+      merged.push({ ...deal, sources: sourceOf(deal) });
+    } else {
+      merged[index] = mergePair(merged[index], deal);
+    }
+  });
+  return merged;
+};
+
+/** `deals` without any product that is already in `shown`, e.g. the deals on earlier pages. */
+export const excludeShownDeals = (deals: Deal[], shown: Deal[] = []): Deal[] =>
+  shown.length === 0 ? deals : deals.filter(deal => !shown.some(seen => isSameProduct(deal, seen)));
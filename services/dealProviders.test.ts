@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Deal, DealProvider, DealSearchResult } from '../types';
+import { LOCAL_FEED_PROVIDER_ID, MOCK_PROVIDER_ID } from '../constants';
+import { recordDealPrices } from './priceHistoryStore';
+import { getProviderLabel, registerDealProvider, searchDeals } from './dealProviders';
+
+vi.mock('./priceHistoryStore', () => ({ recordDealPrices: vi.fn(async () => {}) }));
+
+const makeDeal = (title: string, amount: number): Deal => ({
+  id: `deal-${title}`,
+  title,
+  description: '',
+  originalPrice: { amount: 500, currency: 'USD', raw: '$500' },
+  discountedPrice: { amount, currency: 'USD', raw: `$${amount}` },
+  merchant: 'Best Buy',
+  category: 'Electronics',
+});
+
+const register = (id: string, search: DealProvider['search']) =>
+  registerDealProvider({ id, labelKey: 'providers.localFeed.label', descriptionKey: 'providers.localFeed.description', capabilities: { requiresApiKey: false, searchGrounding: false, generated: false }, search });
+
+const preferences = { keywords: '', categories: [], location: '' };
+
+const recordedPrices = () => vi.mocked(recordDealPrices).mock.calls.flatMap(([deals]) => deals.map(deal => `${deal.providerId}:${deal.discountedPrice.amount}`));
+
+describe('recording observed prices', () => {
+  beforeEach(() => {
+    vi.mocked(recordDealPrices).mockClear();
+  });
+
+  it('records fresh results but not results served from the cache', async () => {
+    register('fresh', async () => ({ deals: [makeDeal('Dell XPS 13 Laptop', 899)] }));
+    register('cached', async () => ({ deals: [makeDeal('LG 27 inch 4K Monitor', 299)], cache: { storedAt: '2026-03-01T08:00:00.000Z', stale: false } }));
+
+    const { deals } = await searchDeals(['fresh', 'cached'], preferences);
+    expect(deals).toHaveLength(2);
+    expect(recordedPrices()).toEqual(['fresh:899']);
+  });
+
+  it('records only the revalidated provider when a stale result is refreshed', async () => {
+    let revalidate: (fresh: DealSearchResult) => void = () => {};
+    register('current', async () => ({ deals: [makeDeal('Dell XPS 13 Laptop', 899)] }));
+    register('stale', async (_preferences, options = {}) => {
+      revalidate = fresh => options.onRevalidated?.(fresh);
+      return { deals: [makeDeal('LG 27 inch 4K Monitor', 299)], cache: { storedAt: '2026-03-01T08:00:00.000Z', stale: true } };
+    });
+    const onRevalidated = vi.fn();
+
+    await searchDeals(['current', 'stale'], preferences, { onRevalidated });
+    vi.mocked(recordDealPrices).mockClear();
+    revalidate({ deals: [makeDeal('LG 27 inch 4K Monitor', 279)] });
+
+    expect(onRevalidated).toHaveBeenCalledOnce();
+    expect(recordedPrices()).toEqual(['stale:279']);
+  });
+});
+
+describe('searchDeals', () => {
+  it('merges the CSV feed with other providers, keeping the best price and every source', async () => {
+    const csv = 'title,description,originalPrice,discountedPrice,merchant,category\n'
+      + 'Dell XPS 13 Laptop,Thin and light,$1299,$949,Best Buy,Electronics\n'
+      + 'Instant Pot Duo,Pressure cooker,$99,$79,Target,Home & Kitchen\n';
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(csv, { headers: { 'content-type': 'text/csv' } })));
+    register('generated', async () => ({ deals: [makeDeal('Dell XPS 13 Laptop', 899)] }));
+
+    try {
+      const { deals, errors, validation } = await searchDeals([LOCAL_FEED_PROVIDER_ID, 'generated'], preferences);
+      expect(errors).toEqual([]);
+      expect(validation?.accepted).toBe(2);
+      expect(deals.map(deal => deal.title)).toEqual(['Dell XPS 13 Laptop', 'Instant Pot Duo']);
+      expect(deals[0].discountedPrice.amount).toBe(899);
+      expect(deals[0].providerId).toBe('generated');
+      expect(deals[0].sources?.map(source => source.providerId)).toEqual([LOCAL_FEED_PROVIDER_ID, 'generated']);
+      expect(deals[1].providerId).toBe(LOCAL_FEED_PROVIDER_ID);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('reports failed providers alongside the others and throws only when all fail', async () => {
+    register('working', async () => ({ deals: [makeDeal('Dell XPS 13 Laptop', 899)] }));
+    register('broken', async () => { throw new Error('feed offline'); });
+
+    const { deals, errors } = await searchDeals(['working', 'broken'], preferences);
+    expect(deals).toHaveLength(1);
+    expect(errors).toEqual([{ providerId: 'broken', message: 'feed offline' }]);
+    await expect(searchDeals(['broken'], preferences)).rejects.toThrow('feed offline');
+  });
+
+  it('does not report providers stopped by the caller as failed', async () => {
+    register('finished', async () => ({ deals: [makeDeal('Dell XPS 13 Laptop', 899)] }));
+    register('stopped', async () => { throw new DOMException('The request was aborted.', 'AbortError'); });
+
+    const { deals, errors } = await searchDeals(['finished', 'stopped'], preferences);
+    expect(deals).toHaveLength(1);
+    expect(errors).toEqual([]);
+  });
+});
+
+describe('getProviderLabel', () => {
+  it('names providers in the UI language and falls back to the id of unknown ones', () => {
+    expect(getProviderLabel(MOCK_PROVIDER_ID, 'en-US')).toBe('Offline demo catalog');
+    expect(getProviderLabel(MOCK_PROVIDER_ID, 'de-DE')).toBe('Offline-Demo-Katalog');
+    expect(getProviderLabel('retired-provider', 'de-DE')).toBe('retired-provider');
+  });
+});
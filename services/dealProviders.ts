@@ -0,0 +1,201 @@
+import { CacheInfo, Deal, DealProvider, DealProviderError, DealSearchOptions, DealSearchResult, DealValidationReport, GroundingChunk, LocaleCode, MergedDealSearchResult, UserPreferences } from '../types';
+import {
+  DEFAULT_LOCALE,
+  DEMO_SEED,
+  GEMINI_PROVIDER_ID,
+  GEMINI_SEARCH_PROVIDER_ID,
+  MOCK_PROVIDER_ID,
+} from '../constants';
+import * as geminiService from './geminiService';
+import { importedDealsProvider, localFeedProvider } from './localFeedProvider';
+import { recordDealPrices } from './priceHistoryStore';
+import { excludeShownDeals, mergeDeals } from './dealIdentity';
+import { isAbortError } from './requestControl';
+import { searchDemoCatalog } from './demoService';
+import { getLocaleInfo, translate } from './i18n';
+
+const providers = new Map<string, DealProvider>();
+
+export const registerDealProvider = (provider: DealProvider): void => {
+  if (providers.has(provider.id)) {
+    console.warn(`Deal provider "${provider.id}" is already registered and will be replaced.`);
+  }
+  providers.set(provider.id, provider);
+};
+
+export const getDealProvider = (id: string): DealProvider | undefined => providers.get(id);
+
+/** The provider's name in `locale`; the id for providers that are not registered, e.g. in an old saved search. */
+export const getProviderLabel = (id: string, locale: LocaleCode): string => {
+  const provider = providers.get(id);
+  return provider ? translate(locale, provider.labelKey) : id;
+};
+
+export const listDealProviders = (): DealProvider[] => Array.from(providers.values());
+
+// Drops deals already shown on earlier pages (the model does not always manage to avoid them), then applies the page size.
+const limitResults = (deals: Deal[], options: DealSearchOptions): Deal[] => {
+  const fresh = excludeShownDeals(deals, options.excludeDeals);
+  return options.maxResults ? fresh.slice(0, options.maxResults) : fresh;
+};
+
+// Streamed and revalidated results are trimmed to the page like the final one.
+const searchGemini = async (preferences: UserPreferences, useSearchGrounding: boolean, options: DealSearchOptions): Promise<DealSearchResult> => {
+  const { onProgress, onRevalidated } = options;
+  const result = await geminiService.generateDeals(preferences, useSearchGrounding, {
+    ...options,
+    onProgress: onProgress && (deals => onProgress(limitResults(deals, options))),
+    onRevalidated: onRevalidated && (fresh => onRevalidated({ ...fresh, deals: limitResults(fresh.deals, options) })),
+  });
+  return { ...result, deals: limitResults(result.deals, options) };
+};
+
+const geminiProvider: DealProvider = {
+  id: GEMINI_PROVIDER_ID,
+  labelKey: 'providers.gemini.label',
+  descriptionKey: 'providers.gemini.description',
+  capabilities: { requiresApiKey: true, searchGrounding: false, generated: true },
+  search: (preferences, options = {}) => searchGemini(preferences, false, options),
+};
+
+const geminiSearchProvider: DealProvider = {
+  id: GEMINI_SEARCH_PROVIDER_ID,
+  labelKey: 'providers.geminiSearch.label',
+  descriptionKey: 'providers.geminiSearch.description',
+  capabilities: { requiresApiKey: true, searchGrounding: true, generated: false },
+  search: (preferences, options = {}) => searchGemini(preferences, true, options),
+};
+
+// Also the fallback when the API key is missing, so the app can be used entirely offline.
+const mockProvider: DealProvider = {
+  id: MOCK_PROVIDER_ID,
+  labelKey: 'providers.mock.label',
+  descriptionKey: 'providers.mock.description',
+  capabilities: { requiresApiKey: false, searchGrounding: false, generated: true },
+  search: async (preferences, options = {}) => {
+    const { currency } = getLocaleInfo(options.locale ?? DEFAULT_LOCALE);
+    return { deals: limitResults(searchDemoCatalog(preferences, DEMO_SEED, currency), options) };
+  },
+};
+
+[geminiProvider, geminiSearchProvider, localFeedProvider, importedDealsProvider, mockProvider].forEach(registerDealProvider);
+
+// Every real price we are shown becomes part of the product's history; demo prices are made up and would pollute it.
+// Only the prices of `freshProviderIds` are recorded: results served from the response cache were recorded when they
+// were fetched, and recording them again would add false points dated now.
+const recordObservedPrices = (deals: Deal[], freshProviderIds: string[]): void => {
+  const observed = deals.flatMap(deal => (deal.sources ?? [])
+    .filter(source => freshProviderIds.includes(source.providerId) && source.providerId !== MOCK_PROVIDER_ID)
+    .map(source => ({ ...deal, ...source })));
+  if (observed.length === 0) return;
+  recordDealPrices(observed).catch(error => {
+    console.error("Failed to record price observations:", error);
+  });
+};
+
+const combineResults = (selected: DealProvider[], settled: PromiseSettledResult<DealSearchResult>[]): MergedDealSearchResult => {
+  let deals: Deal[] = [];
+  const groundingChunks: GroundingChunk[] = [];
+  const searchQueries: string[] = [];
+  const errors: DealProviderError[] = [];
+  const validation: DealValidationReport = { received: 0, accepted: 0, rejected: [], repaired: [] };
+  let hasValidation = false;
+  let cache: CacheInfo | undefined;
+
+  settled.forEach((outcome, index) => {
+    const provider = selected[index];
+    if (outcome.status === 'rejected') {
+      // A provider stopped through `options.signal` did not fail; the caller knows it stopped the search.
+      if (!isAbortError(outcome.reason)) {
+        errors.push({ providerId: provider.id, message: (outcome.reason as Error)?.message ?? String(outcome.reason) });
+      }
+      return;
+    }
+    deals = mergeDeals(deals, outcome.value.deals.map(deal => ({ ...deal, providerId: provider.id })));
+    groundingChunks.push(...(outcome.value.groundingMetadata?.groundingChunks ?? []));
+    searchQueries.push(...(outcome.value.groundingMetadata?.searchQueries ?? []));
+    const report = outcome.value.validation;
+    if (report) {
+      hasValidation = true;
+      validation.received += report.received;
+      validation.accepted += report.accepted;
+      validation.rejected.push(...report.rejected.map(issue => ({ ...issue, providerId: provider.id })));
+      validation.repaired.push(...report.repaired.map(issue => ({ ...issue, providerId: provider.id })));
+    }
+    // Report the oldest cached part, and stale if any part is.
+    const partCache = outcome.value.cache;
+    if (partCache) {
+      cache = {
+        storedAt: cache && cache.storedAt < partCache.storedAt ? cache.storedAt : partCache.storedAt,
+        stale: (cache?.stale ?? false) || partCache.stale,
+      };
+    }
+  });
+
+  const groundingMetadata = groundingChunks.length > 0 || searchQueries.length > 0
+    ? { groundingChunks, searchQueries }
+    : undefined;
+
+  return { deals, groundingMetadata, errors, validation: hasValidation ? validation : undefined, cache };
+};
+
+/**
+ * Runs the given providers in parallel and merges their results into a single list.
+ * Each deal is tagged with the provider that produced it, and the same product reported more than once
+ * (by one provider or several) is collapsed into one deal with the best price and all of its sources.
+ * Grounding chunks and validation reports from all providers are combined.
+ * Throws the first provider error only when every provider failed; partial failures are reported in `errors`.
+ * Providers stopped by aborting `options.signal` after others finished are left out of `errors`.
+ * When a provider answered from a stale cache, `options.onRevalidated` later receives the whole merged
+ * result again with that provider's fresh deals. While providers are still running, `options.onProgress`
+ * receives the merged deals found so far, including those of providers that have already finished.
+ */
+export const searchDeals = async (
+  providerIds: string[],
+  preferences: UserPreferences,
+  options: DealSearchOptions = {}
+): Promise<MergedDealSearchResult> => {
+  const selected = providerIds.map(id => {
+    const provider = providers.get(id);
+    if (!provider) throw new Error(`Unknown deal provider: ${id}`);
+    return provider;
+  });
+  if (selected.length === 0) throw new Error("No deal provider selected.");
+
+  const { onRevalidated, onProgress } = options;
+  const progress: Deal[][] = selected.map(() => []);
+  const reportProgress = () => onProgress?.(progress.reduce<Deal[]>(
+    (merged, deals, index) => mergeDeals(merged, deals.map(deal => ({ ...deal, providerId: selected[index].id }))),
+    []
+  ));
+
+  let settled: PromiseSettledResult<DealSearchResult>[] = [];
+  settled = await Promise.allSettled(selected.map((provider, index) => provider.search(preferences, {
+    ...options,
+    onRevalidated: onRevalidated && (fresh => {
+      settled = settled.map((outcome, i) => (i === index ? { status: 'fulfilled', value: fresh } : outcome));
+      const merged = combineResults(selected, settled);
+      // The other providers' prices were recorded with the first result.
+      recordObservedPrices(merged.deals, fresh.cache ? [] : [provider.id]);
+      onRevalidated(merged);
+    }),
+    onProgress: onProgress && (deals => {
+      progress[index] = deals;
+      reportProgress();
+    }),
+  }).then(result => {
+    progress[index] = result.deals;
+    reportProgress();
+    return result;
+  })));
+
+  if (settled.every(outcome => outcome.status === 'rejected')) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  const merged = combineResults(selected, settled);
+  recordObservedPrices(merged.deals, selected
+    .filter((_, index) => settled[index].status === 'fulfilled' && !(settled[index] as PromiseFulfilledResult<DealSearchResult>).value.cache)
+    .map(provider => provider.id));
+  return merged;
+};
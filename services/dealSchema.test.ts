@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { validateComparison, validateDeals, validateVerification } from './dealSchema';
+
+const validDeal = {
+  title: 'Sony WH-1000XM5',
+  description: 'Noise cancelling headphones.',
+  originalPrice: '$399.99',
+  discountedPrice: '$199.99',
+  merchant: 'BestBuy',
+  category: 'Electronics',
+};
+
+describe('validateDeals', () => {
+  it('drops invalid items, repairs fixable ones and reports both', () => {
+    const { deals, report } = validateDeals([
+      validDeal,
+      { ...validDeal, title: '' },
+      { ...validDeal, category: 'Spaceships' },
+      { ...validDeal, title: 'Blender', category: 'home and kitchen', merchant: undefined },
+      'not a deal',
+    ]);
+
+    expect(deals.map(d => d.title)).toEqual(['Sony WH-1000XM5', 'Blender']);
+    expect(deals[1].category).toBe('Home & Kitchen');
+    expect(deals[1].merchant).toBe('Unknown merchant');
+    expect(report.received).toBe(5);
+    expect(report.accepted).toBe(2);
+    expect(report.rejected.map(r => r.index)).toEqual([1, 2, 4]);
+    expect(report.rejected[0].reasons).toContain('missing title');
+    expect(report.rejected[1].reasons[0]).toMatch(/unknown category/);
+    expect(report.repaired).toHaveLength(1);
+    expect(report.repaired[0].index).toBe(3);
+  });
+
+  it('maps whole words and word prefixes onto categories but rejects vague names', () => {
+    const categoryOf = (category: string) => validateDeals([{ ...validDeal, category }]).deals[0]?.category ?? null;
+    expect(categoryOf('Sports')).toBe('Sports & Outdoors');
+    expect(categoryOf('Consumer Electronics')).toBe('Electronics');
+    expect(categoryOf('personal care')).toBe('Beauty & Personal Care');
+    expect(categoryOf('e')).toBeNull();
+    expect(categoryOf('Home')).toBeNull();
+    expect(categoryOf('Homeware')).toBeNull();
+  });
+
+  it('parses prices into Money values', () => {
+    const { deals } = validateDeals([validDeal]);
+    expect(deals[0].discountedPrice).toEqual({ amount: 199.99, currency: 'USD', raw: '$199.99' });
+  });
+
+  it('falls back to the original price when the discounted price is missing', () => {
+    const { deals, report } = validateDeals([{ ...validDeal, discountedPrice: 'Call for price' }]);
+    expect(deals[0].discountedPrice).toEqual(deals[0].originalPrice);
+    expect(report.repaired[0].reasons).toEqual(['missing discounted price replaced by the original price']);
+  });
+});
+
+describe('validateVerification', () => {
+  it('rejects non-numeric scores', () => {
+    expect(validateVerification({ summary: 'ok', score: 'great' }).verification).toBeNull();
+  });
+
+  it('coerces and clamps scores into 1-5', () => {
+    expect(validateVerification({ summary: 'ok', score: '4/5' }).verification).toEqual({ summary: 'ok', score: 4 });
+    const { verification, issues } = validateVerification({ summary: 'ok', score: 9 });
+    expect(verification?.score).toBe(5);
+    expect(issues).toHaveLength(1);
+  });
+});
+
+describe('validateComparison', () => {
+  it('keeps the pick and trade-offs of compared deals only', () => {
+    const { comparison, issues } = validateComparison({
+      recommendedDealId: 'deal-a',
+      summary: 'A is cheaper from a trusted shop.',
+      tradeOffs: [
+        { dealId: 'deal-a', pros: ['Lowest price', 42], cons: [] },
+        { dealId: 'deal-x', pros: ['Invented'], cons: [] },
+        { dealId: 'deal-b', pros: [], cons: ['Unknown merchant'] },
+      ],
+    }, ['deal-a', 'deal-b']);
+
+    expect(comparison).toEqual({
+      recommendedDealId: 'deal-a',
+      summary: 'A is cheaper from a trusted shop.',
+      tradeOffs: [
+        { dealId: 'deal-a', pros: ['Lowest price', '42'], cons: [] },
+        { dealId: 'deal-b', pros: [], cons: ['Unknown merchant'] },
+      ],
+    });
+    expect(issues).toHaveLength(1);
+  });
+
+  it('drops a pick that was not compared and rejects answers without a summary', () => {
+    expect(validateComparison({ recommendedDealId: 'deal-x', summary: 'Pick X.', tradeOffs: [] }, ['deal-a']).comparison?.recommendedDealId).toBeNull();
+    expect(validateComparison({ recommendedDealId: 'deal-a', tradeOffs: [] }, ['deal-a']).comparison).toBeNull();
+  });
+});
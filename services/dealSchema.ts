@@ -0,0 +1,273 @@
+import { Schema, Type } from "@google/genai";
+import { AiDealAssessment, AiDealComparison, Deal, DealFulfillment, DealTradeOff, DealValidationIssue, DealValidationReport } from '../types';
+import { DEAL_CATEGORIES } from '../constants';
+import { parseMoney } from './money';
+import { resolveStoreLocation } from './locationService';
+
+/*
+ * Declared shapes for the JSON the model returns, plus the runtime checks applied to it.
+ * The Schema objects are sent to Gemini as `responseSchema` when the call allows it (Google Search grounding
+ * does not support controlled output), and the validators below are applied to every response regardless,
+ * because neither the schema nor the prompt guarantees what comes back.
+ */
+
+export const DEAL_RESPONSE_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      description: { type: Type.STRING },
+      originalPrice: { type: Type.STRING, description: "Price before the discount, including the currency symbol or code." },
+      discountedPrice: { type: Type.STRING, description: "Price after the discount, including the currency symbol or code." },
+      merchant: { type: Type.STRING },
+      category: { type: Type.STRING, enum: DEAL_CATEGORIES },
+      fulfillment: { type: Type.STRING, enum: ["online", "in-store", "both"], description: "Whether the deal is bought online, in a store, or either." },
+      storeLocation: { type: Type.STRING, description: "Address or city of the store, for deals bought in a store." },
+    },
+    required: ["title", "description", "originalPrice", "discountedPrice", "merchant", "category"],
+    propertyOrdering: ["title", "description", "originalPrice", "discountedPrice", "merchant", "category", "fulfillment", "storeLocation"],
+  },
+};
+
+export const VERIFICATION_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    score: { type: Type.INTEGER, minimum: 1, maximum: 5 },
+  },
+  required: ["summary", "score"],
+  propertyOrdering: ["summary", "score"],
+};
+
+export const COMPARISON_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    recommendedDealId: { type: Type.STRING, nullable: true },
+    summary: { type: Type.STRING },
+    tradeOffs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          dealId: { type: Type.STRING },
+          pros: { type: Type.ARRAY, items: { type: Type.STRING } },
+          cons: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["dealId", "pros", "cons"],
+        propertyOrdering: ["dealId", "pros", "cons"],
+      },
+    },
+  },
+  required: ["recommendedDealId", "summary", "tradeOffs"],
+  propertyOrdering: ["recommendedDealId", "summary", "tradeOffs"],
+};
+
+export type ValidatedDeal = Omit<Deal, 'id'>;
+
+const normalizeCategoryText = (text: string): string =>
+  text.toLowerCase().replace(/\band\b/g, '&').replace(/[^a-z&]/g, '');
+
+const categoryWords = (text: string): string[] =>
+  text.toLowerCase().replace(/\band\b/g, ' ').split(/[^a-z]+/).filter(Boolean);
+
+// Shorter names ("e", "Home", "Car") are too vague to stand for a category.
+const MIN_CATEGORY_MATCH_LENGTH = 5;
+const MIN_CATEGORY_PREFIX_LENGTH = 3;
+
+// Maps "home and kitchen", "ELECTRONICS", "Sports" or "Consumer Electronics" onto the matching entry of DEAL_CATEGORIES.
+const matchCategory = (category: string): string | null => {
+  const normalized = normalizeCategoryText(category);
+  if (!normalized) return null;
+  const exact = DEAL_CATEGORIES.find(c => normalizeCategoryText(c) === normalized);
+  if (exact) return exact;
+  const words = categoryWords(category);
+  if (words.join('').length < MIN_CATEGORY_MATCH_LENGTH) return null;
+  return DEAL_CATEGORIES.find(c => {
+    const candidate = categoryWords(c);
+    // Every word starts a word of the category ("Sports", "outdoor", "personal care"),
+    // or every word of the category is among the words ("Consumer Electronics").
+    return words.every(word => word.length >= MIN_CATEGORY_PREFIX_LENGTH && candidate.some(part => part.startsWith(word)))
+      || candidate.every(part => words.includes(part));
+  }) ?? null;
+};
+
+// Feeds and grounded answers (which have no schema) say "In store", "local" or "online and in-store" too.
+const FULFILLMENT_ALIASES: Record<string, DealFulfillment> = {
+  online: 'online',
+  'in-store': 'in-store',
+  instore: 'in-store',
+  local: 'in-store',
+  both: 'both',
+  'online-and-in-store': 'both',
+  'online-or-in-store': 'both',
+};
+
+const matchFulfillment = (text: string): DealFulfillment | null =>
+  FULFILLMENT_ALIASES[text.toLowerCase().replace(/[\s_/]+/g, '-')] ?? null;
+
+const asText = (value: unknown): string | null => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && isFinite(value)) return String(value);
+  return null;
+};
+
+const validateDeal = (item: unknown): { deal: ValidatedDeal | null; rejections: string[]; repairs: string[] } => {
+  const rejections: string[] = [];
+  const repairs: string[] = [];
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    return { deal: null, rejections: ["not a JSON object"], repairs };
+  }
+  const record = item as Record<string, unknown>;
+
+  const title = asText(record.title);
+  if (!title) rejections.push("missing title");
+
+  let description = asText(record.description);
+  if (description === null) {
+    description = '';
+    repairs.push("missing description");
+  }
+
+  let merchant = asText(record.merchant);
+  if (!merchant) {
+    merchant = "Unknown merchant";
+    repairs.push("missing merchant");
+  }
+
+  const rawCategory = asText(record.category) ?? '';
+  const category = matchCategory(rawCategory);
+  if (!category) {
+    rejections.push(rawCategory ? `unknown category "${rawCategory}"` : "missing category");
+  } else if (category !== rawCategory) {
+    repairs.push(`category "${rawCategory}" mapped to "${category}"`);
+  }
+
+  const originalPrice = parseMoney(record.originalPrice);
+  let discountedPrice = parseMoney(record.discountedPrice);
+  // Without a discounted price the deal is offered at its original price; it then shows no discount.
+  if (discountedPrice.amount === null && originalPrice.amount !== null) {
+    discountedPrice = originalPrice;
+    repairs.push("missing discounted price replaced by the original price");
+  }
+
+  if (rejections.length > 0 || !title || !category) {
+    return { deal: null, rejections, repairs };
+  }
+
+  const rawFulfillment = asText(record.fulfillment) ?? '';
+  const fulfillment = matchFulfillment(rawFulfillment);
+  if (rawFulfillment && !fulfillment) repairs.push(`unknown fulfillment "${rawFulfillment}" dropped`);
+  const storeLabel = asText(record.storeLocation);
+
+  const imageUrl = asText(record.imageUrl) || undefined;
+  return {
+    deal: {
+      title, description, merchant, category, originalPrice, discountedPrice,
+      ...(imageUrl ? { imageUrl } : {}),
+      ...(fulfillment ? { fulfillment } : {}),
+      ...(storeLabel ? { storeLocation: resolveStoreLocation(storeLabel) } : {}),
+    },
+    rejections,
+    repairs,
+  };
+};
+
+/**
+ * Validates each item of a parsed AI (or feed) response independently: invalid items are dropped,
+ * repairable ones are fixed, and the report records what happened to which item and why.
+ */
+export const validateDeals = (input: unknown): { deals: ValidatedDeal[]; report: DealValidationReport } => {
+  const items = Array.isArray(input) ? input : input === null || input === undefined ? [] : [input];
+  const deals: ValidatedDeal[] = [];
+  const rejected: DealValidationIssue[] = [];
+  const repaired: DealValidationIssue[] = [];
+
+  items.forEach((item, index) => {
+    const { deal, rejections, repairs } = validateDeal(item);
+    const title = typeof item === 'object' && item !== null ? asText((item as Record<string, unknown>).title) || undefined : undefined;
+    if (!deal) {
+      rejected.push({ index, title, reasons: rejections });
+      return;
+    }
+    if (repairs.length > 0) repaired.push({ index, title, reasons: repairs });
+    deals.push(deal);
+  });
+
+  return { deals, report: { received: items.length, accepted: deals.length, rejected, repaired } };
+};
+
+const parseScore = (value: unknown): number | null => {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const match = value.match(/-?\d+(\.\d+)?/); // Accepts "4", "4/5", "Score: 4"
+    return match ? parseFloat(match[0]) : null;
+  }
+  return null;
+};
+
+/**
+ * Checks a parsed verification object. A score that is not a number makes the verification unusable;
+ * a score outside 1–5 is clamped and a missing summary is filled in, both reported in `issues`.
+ */
+export const validateVerification = (input: unknown): { verification: AiDealAssessment | null; issues: string[] } => {
+  const issues: string[] = [];
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { verification: null, issues: ["not a JSON object"] };
+  }
+  const record = input as Record<string, unknown>;
+
+  const rawScore = parseScore(record.score);
+  if (rawScore === null) {
+    return { verification: null, issues: [`non-numeric score ${JSON.stringify(record.score)}`] };
+  }
+  const score = Math.min(5, Math.max(1, Math.round(rawScore)));
+  if (score !== rawScore) issues.push(`score ${rawScore} adjusted to ${score}`);
+
+  let summary = asText(record.summary);
+  if (!summary) {
+    summary = "No summary was provided with this score.";
+    issues.push("missing summary");
+  }
+
+  return { verification: { summary, score }, issues };
+};
+
+const asTextList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asText).filter((text): text is string => !!text) : [];
+
+/**
+ * Checks a parsed comparison against the ids of the deals that were compared. A pick or trade-offs for an id that was
+ * not compared are dropped (the model invented or mangled it); without a summary the comparison is unusable.
+ */
+export const validateComparison = (input: unknown, dealIds: string[]): { comparison: AiDealComparison | null; issues: string[] } => {
+  const issues: string[] = [];
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { comparison: null, issues: ["not a JSON object"] };
+  }
+  const record = input as Record<string, unknown>;
+
+  const summary = asText(record.summary);
+  if (!summary) {
+    return { comparison: null, issues: ["missing summary"] };
+  }
+
+  let recommendedDealId = asText(record.recommendedDealId) || null;
+  if (recommendedDealId && !dealIds.includes(recommendedDealId)) {
+    issues.push(`recommended unknown deal "${recommendedDealId}"`);
+    recommendedDealId = null;
+  }
+
+  const tradeOffs: DealTradeOff[] = [];
+  (Array.isArray(record.tradeOffs) ? record.tradeOffs : []).forEach(item => {
+    const entry = typeof item === 'object' && item !== null ? item as Record<string, unknown> : {};
+    const dealId = asText(entry.dealId);
+    if (!dealId || !dealIds.includes(dealId) || tradeOffs.some(t => t.dealId === dealId)) {
+      issues.push(`trade-offs for unknown or repeated deal ${JSON.stringify(entry.dealId)} dropped`);
+      return;
+    }
+    tradeOffs.push({ dealId, pros: asTextList(entry.pros), cons: asTextList(entry.cons) });
+  });
+
+  return { comparison: { recommendedDealId, summary, tradeOffs }, issues };
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { checkDiscountPlausibility, checkPriceHistory, checkRedFlags, combineVerification, runLocalChecks } from './dealVerification';
+import { Deal } from '../types';
+import { lookupMerchant } from './merchantRegistry';
+
+const usd = (amount: number) => ({ amount, currency: 'USD', raw: `$${amount}` });
+
+const deal: Deal = {
+  id: 'deal-blender',
+  title: 'Ninja Professional Blender',
+  description: '1000W blender with 72oz pitcher.',
+  originalPrice: usd(120),
+  discountedPrice: usd(90),
+  merchant: 'Target',
+  category: 'Home & Kitchen',
+};
+
+describe('local verification checks', () => {
+  it('judges the discount against the category norm', () => {
+    expect(checkDiscountPlausibility(deal).status).toBe('pass');
+    expect(checkDiscountPlausibility({ ...deal, discountedPrice: usd(24) }).status).toBe('fail'); // 80% off
+    expect(checkDiscountPlausibility({ ...deal, originalPrice: { amount: null, currency: null, raw: 'N/A' } }).status).toBe('unknown');
+  });
+
+  it('compares the price with recorded history and spots an inflated original price', () => {
+    const history = [
+      { date: '2024-05-01', price: 105 },
+      { date: '2024-05-08', price: 110 },
+      { date: '2024-05-15', price: 115 },
+    ];
+    expect(checkPriceHistory(deal, history)).toMatchObject({ status: 'pass', score: 5 });
+
+    const inflated = checkPriceHistory({ ...deal, originalPrice: usd(200) }, history);
+    expect(inflated).toMatchObject({ status: 'warn', score: 4 });
+    expect(inflated.evidence[1]).toMatch(/discount may be inflated/);
+
+    expect(checkPriceHistory(deal, [])).toMatchObject({ status: 'unknown', score: null });
+  });
+
+  it('flags urgency and payment red flags in the listing text', () => {
+    expect(checkRedFlags(deal).status).toBe('pass');
+    expect(checkRedFlags({ ...deal, description: 'Hurry, only 3 left!' })).toMatchObject({ status: 'warn', score: 3 });
+    expect(checkRedFlags({ ...deal, description: 'Pay with gift cards for the fastest shipping.' }).status).toBe('fail');
+  });
+
+  it('writes labels and evidence in the requested language, with amounts in its format', () => {
+    const history = [
+      { date: '2024-05-01', price: 105 },
+      { date: '2024-05-08', price: 110 },
+      { date: '2024-05-15', price: 115 },
+    ];
+    const inflated = checkPriceHistory({ ...deal, originalPrice: usd(200) }, history, 'de-DE');
+    expect(inflated.label).toBe('Preis im Vergleich zum Verlauf');
+    expect(inflated.evidence[1]).toMatch(/^Der Originalpreis von 200,00\s\$ liegt weit über dem höchsten erfassten Preis von 115,00\s\$/);
+  });
+
+  it('judges the merchant by the reputation it is given', () => {
+    const blocked = lookupMerchant(deal.merchant, { target: 'blocked' });
+    expect(runLocalChecks(deal)[2].status).toBe('pass');
+    expect(runLocalChecks(deal, [], blocked)[2].status).toBe('fail');
+  });
+});
+
+describe('combineVerification', () => {
+  it('caps the score when a factor failed, even if the AI liked the deal', () => {
+    const factors = runLocalChecks({ ...deal, description: 'Payment by wire transfer only.' });
+    const verification = combineVerification(factors, { summary: 'Good price for this blender.', score: 5 });
+    expect(verification).toMatchObject({ status: 'complete', score: 2 });
+    expect(verification.factors.map(f => f.id)).toEqual(['discount', 'priceHistory', 'merchant', 'redFlags', 'ai']);
+  });
+
+  it('keeps "could not verify" apart from a low score', () => {
+    const partial = combineVerification(runLocalChecks(deal), null, 'the AI service could not be reached');
+    expect(partial).toMatchObject({ status: 'partial', score: 5, unavailableReason: 'the AI service could not be reached' });
+
+    const unverified = combineVerification([], null, 'the AI service could not be reached');
+    expect(unverified).toMatchObject({ status: 'unverified', score: null });
+  });
+});
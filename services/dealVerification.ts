@@ -0,0 +1,227 @@
+import { AiDealAssessment, Deal, DealVerification, LocaleCode, MerchantReputation, PriceDataPoint, VerificationFactor, VerificationFactorId } from '../types';
+import { CATEGORY_DISCOUNT_NORMS, DEFAULT_DISCOUNT_NORM, DEFAULT_LOCALE } from '../constants';
+import { discountPercentage, formatAmount, hasAmount } from './money';
+import { lookupMerchant } from './merchantRegistry';
+import { formatDate, translate } from './i18n';
+
+// Every check writes its label and evidence in `locale`. Category names and merchant registry notes are quoted untranslated.
+
+// How much each factor counts towards the overall score; the listing text and the AI see the most.
+const WEIGHTS: Record<VerificationFactorId, number> = { discount: 1, priceHistory: 1, merchant: 1, redFlags: 1.5, ai: 2 };
+
+// Any failed factor keeps the overall score at or below this, however good the rest looks.
+const FAILED_FACTOR_SCORE_CAP = 2;
+
+const URGENCY_PATTERN = /\b(act now|hurry|today only|last chance|only \d+ left|limited time|ends (?:tonight|today|soon)|while supplies last|don'?t miss)\b/gi;
+const PAYMENT_PATTERN = /\b(wire transfer|western union|moneygram|gift cards?|bitcoin|crypto(?:currency)?|zelle|cash app)\b/gi;
+const AUTHENTICITY_PATTERN = /\b(100% (?:genuine|authentic|original)|replica|aaa quality|1:1 copy)\b/gi;
+const TOO_GOOD_TO_BE_TRUE_PERCENT = 90;
+
+const SUSPICIOUS_TLDS = ['xyz', 'top', 'click', 'buzz', 'icu', 'cyou', 'rest', 'cfd', 'sbs', 'monster'];
+const DOMAIN_PATTERN = /^(?:https?:\/\/)?(?:www\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*)\.([a-z]{2,})\/?$/i;
+
+const factor = (
+  id: VerificationFactorId,
+  label: string,
+  status: VerificationFactor['status'],
+  score: number | null,
+  evidence: string[]
+): VerificationFactor => ({ id, label, status, score, evidence });
+
+export const checkDiscountPlausibility = (deal: Deal, locale: LocaleCode = DEFAULT_LOCALE): VerificationFactor => {
+  const label = translate(locale, 'verification.discount.label');
+  const { originalPrice, discountedPrice } = deal;
+  if (!hasAmount(originalPrice) || !hasAmount(discountedPrice) || originalPrice.currency !== discountedPrice.currency) {
+    return factor('discount', label, 'unknown', null, [translate(locale, 'verification.discount.incomparable')]);
+  }
+  if (discountedPrice.amount > originalPrice.amount) {
+    return factor('discount', label, 'fail', 1, [translate(locale, 'verification.discount.higher')]);
+  }
+  const percent = discountPercentage(originalPrice, discountedPrice);
+  if (percent === null || percent <= 0) {
+    return factor('discount', label, 'warn', 3, [translate(locale, 'verification.discount.none')]);
+  }
+  const norm = CATEGORY_DISCOUNT_NORMS[deal.category] ?? DEFAULT_DISCOUNT_NORM;
+  const params = { percent, category: deal.category, typical: norm.typical, max: norm.max };
+  if (percent <= norm.typical) {
+    return factor('discount', label, 'pass', 5, [translate(locale, 'verification.discount.typical', params)]);
+  }
+  if (percent <= norm.max) {
+    return factor('discount', label, 'warn', 3, [translate(locale, 'verification.discount.steep', params)]);
+  }
+  return factor('discount', label, 'fail', 1, [translate(locale, 'verification.discount.implausible', params)]);
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// `history` is expected in the deal's currency, as getPriceHistory returns it.
+export const checkPriceHistory = (deal: Deal, history: PriceDataPoint[], locale: LocaleCode = DEFAULT_LOCALE): VerificationFactor => {
+  const label = translate(locale, 'verification.history.label');
+  const current = deal.discountedPrice.amount;
+  if (current === null) {
+    return factor('priceHistory', label, 'unknown', null, [translate(locale, 'verification.history.noPrice')]);
+  }
+  if (history.length < 2) {
+    return factor('priceHistory', label, 'unknown', null, [translate(locale, 'verification.history.tooFew', { count: history.length })]);
+  }
+  const currency = deal.discountedPrice.currency;
+  const prices = history.map(point => point.price);
+  const lowest = Math.min(...prices);
+  const highest = Math.max(...prices);
+  const typical = median(prices);
+  const span = translate(locale, 'verification.history.span', { count: history.length, date: formatDate(history[0].date, locale) });
+  const price = formatAmount(typical, currency, locale);
+
+  let result: VerificationFactor;
+  if (current <= lowest) {
+    result = factor('priceHistory', label, 'pass', 5, [translate(locale, 'verification.history.lowest', { span })]);
+  } else if (current <= typical) {
+    result = factor('priceHistory', label, 'pass', 4, [translate(locale, 'verification.history.belowTypical', { price, span })]);
+  } else if (current <= typical * 1.1) {
+    result = factor('priceHistory', label, 'warn', 3, [translate(locale, 'verification.history.usual', { price, span })]);
+  } else {
+    result = factor('priceHistory', label, 'warn', 2, [translate(locale, 'verification.history.aboveTypical', { price, span })]);
+  }
+
+  const original = deal.originalPrice.amount;
+  if (original !== null && deal.originalPrice.currency === currency && original > highest * 1.2) {
+    result = {
+      ...result,
+      status: 'warn',
+      score: Math.max(1, (result.score ?? 3) - 1),
+      evidence: [...result.evidence, translate(locale, 'verification.history.inflated', {
+        original: formatAmount(original, currency, locale),
+        highest: formatAmount(highest, currency, locale),
+      })],
+    };
+  }
+  return result;
+};
+
+// Judged from the merchant registry and the user's own verdicts; only merchants it does not know fall back to the domain heuristic.
+export const checkMerchantTrust = (
+  deal: Deal,
+  reputation: MerchantReputation = lookupMerchant(deal.merchant),
+  locale: LocaleCode = DEFAULT_LOCALE
+): VerificationFactor => {
+  const label = translate(locale, 'verification.merchant.label');
+  const merchant = deal.merchant.trim();
+  if (!merchant || /^unknown/i.test(merchant)) {
+    return factor('merchant', label, 'warn', 2, [translate(locale, 'verification.merchant.anonymous')]);
+  }
+  const notes = reputation.notes ? [reputation.notes] : [];
+  const name = reputation.name;
+  if (reputation.source === 'user') {
+    return reputation.tier === 'blocked'
+      ? factor('merchant', label, 'fail', 1, [translate(locale, 'verification.merchant.userBlocked', { name }), ...reputation.flags])
+      : factor('merchant', label, 'pass', 5, [translate(locale, 'verification.merchant.userTrusted', { name }), ...notes]);
+  }
+  if (reputation.tier === 'blocked') {
+    return factor('merchant', label, 'fail', 1, reputation.flags.length > 0 ? reputation.flags : [translate(locale, 'verification.merchant.blocklisted', { name })]);
+  }
+  if (reputation.tier === 'suspicious') {
+    return factor('merchant', label, 'warn', 2, [...reputation.flags, ...notes]);
+  }
+  if (reputation.tier === 'trusted') {
+    return factor('merchant', label, 'pass', 5, [translate(locale, 'verification.merchant.wellKnown', { name }), ...notes]);
+  }
+  const domain = merchant.match(DOMAIN_PATTERN);
+  if (domain && SUSPICIOUS_TLDS.includes(domain[2].toLowerCase())) {
+    return factor('merchant', label, 'warn', 2, [translate(locale, 'verification.merchant.suspiciousDomain', { merchant, tld: domain[2].toLowerCase() })]);
+  }
+  return factor('merchant', label, 'unknown', null, [translate(locale, 'verification.merchant.unregistered', { merchant })]);
+};
+
+const matchesOf = (pattern: RegExp, text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(pattern), match => match[0].toLowerCase())));
+
+const quoted = (phrases: string[]): string => phrases.map(phrase => `"${phrase}"`).join(', ');
+
+export const checkRedFlags = (deal: Deal, locale: LocaleCode = DEFAULT_LOCALE): VerificationFactor => {
+  const label = translate(locale, 'verification.redFlags.label');
+  const text = `${deal.title} ${deal.description}`;
+  const failures: string[] = [];
+  const warnings: string[] = [];
+
+  const payment = matchesOf(PAYMENT_PATTERN, text);
+  if (payment.length > 0) failures.push(translate(locale, 'verification.redFlags.payment', { methods: payment.join(', ') }));
+  const percent = discountPercentage(deal.originalPrice, deal.discountedPrice);
+  if (percent !== null && percent >= TOO_GOOD_TO_BE_TRUE_PERCENT) failures.push(translate(locale, 'verification.redFlags.tooGood', { percent }));
+  const urgency = matchesOf(URGENCY_PATTERN, text);
+  if (urgency.length > 0) warnings.push(translate(locale, 'verification.redFlags.urgency', { phrases: quoted(urgency) }));
+  const authenticity = matchesOf(AUTHENTICITY_PATTERN, text);
+  if (authenticity.length > 0) warnings.push(translate(locale, 'verification.redFlags.authenticity', { phrases: quoted(authenticity) }));
+
+  if (failures.length > 0) return factor('redFlags', label, 'fail', 1, [...failures, ...warnings]);
+  if (warnings.length > 0) return factor('redFlags', label, 'warn', warnings.length === 1 ? 3 : 2, warnings);
+  return factor('redFlags', label, 'pass', 5, [translate(locale, 'verification.redFlags.none')]);
+};
+
+/**
+ * The deterministic checks, run before (and independently of) the AI. Callers that already hold the merchant's
+ * reputation (with the user's current overrides) pass it in; otherwise it is looked up with the stored overrides.
+ */
+export const runLocalChecks = (
+  deal: Deal,
+  history: PriceDataPoint[] = [],
+  reputation?: MerchantReputation,
+  locale: LocaleCode = DEFAULT_LOCALE
+): VerificationFactor[] => [
+  checkDiscountPlausibility(deal, locale),
+  checkPriceHistory(deal, history, locale),
+  checkMerchantTrust(deal, reputation, locale),
+  checkRedFlags(deal, locale),
+];
+
+// The local findings in a form the verification prompt can include, so the AI builds on them rather than repeating them.
+export const describeChecksForPrompt = (factors: VerificationFactor[]): string =>
+  factors.map(f => `- ${f.label}: ${f.status}${f.score === null ? '' : ` (${f.score}/5)`}. ${f.evidence.join(' ')}`).join('\n');
+
+const aiFactor = (assessment: AiDealAssessment, locale: LocaleCode): VerificationFactor =>
+  factor('ai', translate(locale, assessment.offline ? 'verification.ai.offlineLabel' : 'verification.ai.label'), assessment.score >= 4 ? 'pass' : assessment.score === 3 ? 'warn' : 'fail', assessment.score, [assessment.summary]);
+
+/**
+ * Combines the local factors with the AI's assessment (null when it could not be obtained) into one verification.
+ * The score is a weighted average of every factor that could be judged, capped when any factor failed.
+ */
+export const combineVerification = (
+  localFactors: VerificationFactor[],
+  assessment: AiDealAssessment | null,
+  unavailableReason?: string,
+  locale: LocaleCode = DEFAULT_LOCALE
+): DealVerification => {
+  const factors = assessment ? [...localFactors, aiFactor(assessment, locale)] : localFactors;
+  const judged = factors.filter((f): f is VerificationFactor & { score: number } => f.score !== null);
+  if (judged.length === 0) {
+    return {
+      summary: translate(locale, 'verification.unverified', { reason: unavailableReason ?? translate(locale, 'verification.nothingToJudge') }),
+      status: 'unverified',
+      score: null,
+      factors,
+      unavailableReason,
+    };
+  }
+
+  const totalWeight = judged.reduce((sum, f) => sum + WEIGHTS[f.id], 0);
+  let score = Math.round(judged.reduce((sum, f) => sum + f.score * WEIGHTS[f.id], 0) / totalWeight);
+  if (factors.some(f => f.status === 'fail')) score = Math.min(score, FAILED_FACTOR_SCORE_CAP);
+  score = Math.min(5, Math.max(1, score));
+
+  if (assessment) {
+    return { summary: assessment.summary, status: 'complete', score, factors };
+  }
+  const concerns = localFactors.filter(f => f.status === 'warn' || f.status === 'fail').map(f => f.label);
+  return {
+    summary: concerns.length > 0
+      ? translate(locale, 'verification.localOnly.concerns', { concerns: concerns.join(', ') })
+      : translate(locale, 'verification.localOnly.clean'),
+    status: 'partial',
+    score,
+    factors,
+    unavailableReason,
+  };
+};
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UserPreferences } from '../types';
+import { DEAL_CATEGORIES, DEMO_HISTORY_WEEKS } from '../constants';
+import { DEMO_CATALOG } from '../data/demoCatalog';
+import { assessDemoDeal, compareDemoDeals, generateDemoPriceHistory, replyToDemoChat, searchDemoCatalog } from './demoService';
+import { dealDistanceKm, withResolvedPlace } from './locationService';
+import { lookupMerchant } from './merchantRegistry';
+
+const preferences = (overrides: Partial<UserPreferences> = {}): UserPreferences =>
+  withResolvedPlace({ categories: [], location: '', keywords: '', ...overrides });
+
+describe('searchDemoCatalog', () => {
+  it('covers every deal category', () => {
+    expect(new Set(DEMO_CATALOG.map(product => product.category))).toEqual(new Set(DEAL_CATEGORIES));
+  });
+
+  it('gives the same deals for a seed and different prices for another', () => {
+    const first = searchDemoCatalog(preferences(), 'demo-a');
+    expect(searchDemoCatalog(preferences(), 'demo-a')).toEqual(first);
+    const other = searchDemoCatalog(preferences(), 'demo-b');
+    expect(other.map(deal => deal.discountedPrice.amount)).not.toEqual(
+      other.map(deal => first.find(match => match.id === deal.id)!.discountedPrice.amount)
+    );
+    first.forEach(deal => expect(deal.discountedPrice.amount!).toBeLessThan(deal.originalPrice.amount!));
+  });
+
+  it('filters by keyword, tag and category', () => {
+    const headphones = searchDemoCatalog(preferences({ keywords: 'headphones' }));
+    expect(headphones.map(deal => deal.title)).toContain('Sony WH-1000XM5 Wireless Noise Cancelling Headphones');
+    expect(searchDemoCatalog(preferences({ keywords: 'headphones', categories: ['Travel'] })).map(deal => deal.category)).toEqual(['Travel']);
+    expect(searchDemoCatalog(preferences({ keywords: 'submarine' }))).toEqual([]);
+  });
+
+  it('places stores around the searched city and leaves out those beyond the radius', () => {
+    const berlin = preferences({ location: 'Berlin' });
+    const stores = searchDemoCatalog(berlin).filter(deal => deal.fulfillment === 'in-store');
+    expect(stores.length).toBeGreaterThan(0);
+    stores.forEach(deal => expect(dealDistanceKm(deal, berlin.place!.coordinates)).toBeLessThanOrEqual(30));
+
+    const nearby = searchDemoCatalog({ ...berlin, radiusKm: 5 }).filter(deal => deal.fulfillment === 'in-store');
+    expect(nearby.length).toBeLessThan(stores.length);
+    nearby.forEach(deal => expect(dealDistanceKm(deal, berlin.place!.coordinates)).toBeLessThanOrEqual(5));
+  });
+
+  it('prices deals in the requested currency and judges them in the requested language', () => {
+    const dollars = searchDemoCatalog(preferences({ keywords: 'headphones' }));
+    const euros = searchDemoCatalog(preferences({ keywords: 'headphones' }), undefined, 'EUR');
+    expect(euros.map(deal => deal.id)).toEqual(dollars.map(deal => deal.id));
+    euros.forEach((deal, index) => {
+      expect(deal.discountedPrice.currency).toBe('EUR');
+      expect(deal.discountedPrice.amount!).toBeLessThan(deal.originalPrice.amount!);
+      expect(deal.originalPrice.amount!).toBeLessThan(dollars[index].originalPrice.amount!);
+      expect(assessDemoDeal(deal)!.score).toBe(assessDemoDeal(dollars[index])!.score);
+    });
+
+    const summary = assessDemoDeal(euros[0], 'de-DE')!.summary;
+    expect(summary).toMatch(/\d,\d{2}\s€/);
+    expect(summary).toContain('für dieses Produkt');
+    expect(summary).not.toContain('$');
+  });
+
+  it('keeps US dollars for currencies without a demo rate', () => {
+    const [deal] = searchDemoCatalog(preferences(), undefined, 'JPY');
+    expect(deal.discountedPrice.currency).toBe('USD');
+  });
+});
+
+describe('generateDemoPriceHistory', () => {
+  it('repeats for a seed and ends at the current price today', () => {
+    const [deal] = searchDemoCatalog(preferences());
+    const today = new Date(2024, 5, 15, 12);
+    const history = generateDemoPriceHistory(deal, 'demo-a', today);
+    expect(history).toHaveLength(DEMO_HISTORY_WEEKS);
+    expect(history).toEqual(generateDemoPriceHistory(deal, 'demo-a', today));
+    expect(history[history.length - 1]).toEqual({ date: '2024-06-15', price: deal.discountedPrice.amount });
+  });
+});
+
+describe('offline assessments', () => {
+  it('scores catalog deals against the typical price and flags implausibly cheap ones', () => {
+    const deals = searchDemoCatalog(preferences({ keywords: 'sneakers' }));
+    const fake = deals.find(deal => deal.merchant === 'sneaker-outlet-store.xyz')!;
+    expect(assessDemoDeal(fake)).toMatchObject({ score: 1, offline: true });
+    const atypical = { ...fake, title: 'Something else' };
+    expect(assessDemoDeal(atypical)).toBeNull();
+  });
+
+  it('recommends the trustworthy deal over the dodgy one', () => {
+    const deals = searchDemoCatalog(preferences({ keywords: 'sneakers' }));
+    const compared = deals.map(deal => ({
+      deal,
+      merchant: lookupMerchant(deal.merchant),
+      verificationScore: assessDemoDeal(deal)!.score,
+      isVerified: true,
+      priceTrend: null,
+      historyPoints: 0,
+    }));
+    const verdict = compareDemoDeals(compared);
+    expect(verdict.offline).toBe(true);
+    expect(verdict.recommendedDealId).toBe(deals.find(deal => deal.merchant === 'Nike')!.id);
+    expect(verdict.tradeOffs).toHaveLength(deals.length);
+  });
+});
+
+describe('replyToDemoChat', () => {
+  it('answers with deal references and runs searches through the tool', async () => {
+    const deals = searchDemoCatalog(preferences({ categories: ['Books'] }));
+    const cheapest = [...deals].sort((a, b) => a.discountedPrice.amount! - b.discountedPrice.amount!)[0];
+    expect(await replyToDemoChat('What is the cheapest one?', deals)).toContain(`[[deal:${cheapest.id}]]`);
+
+    const executeTool = vi.fn(async () => ({ resultCount: 1, deals: [{ id: 'deal-x', title: 'Tent', price: '$79.99' }] }));
+    const reply = await replyToDemoChat('Find camping tents', deals, executeTool);
+    expect(executeTool).toHaveBeenCalledWith({ name: 'search_deals', args: { keywords: 'camping tents' } });
+    expect(reply).toContain('[[deal:deal-x]]');
+  });
+
+  it('understands and answers German requests', async () => {
+    const deals = searchDemoCatalog(preferences({ categories: ['Books'] }), undefined, 'EUR');
+    const cheapest = [...deals].sort((a, b) => a.discountedPrice.amount! - b.discountedPrice.amount!)[0];
+    const reply = await replyToDemoChat('Was ist das günstigste?', deals, undefined, 'de-DE');
+    expect(reply).toContain(`Das günstigste angezeigte Angebot ist [[deal:${cheapest.id}]] für`);
+    expect(reply).toContain('€');
+
+    const executeTool = vi.fn(async () => ({ resultCount: 0, deals: [] }));
+    expect(await replyToDemoChat('Finde Zelte', deals, executeTool, 'de-DE')).toContain('„Zelte“');
+    expect(executeTool).toHaveBeenCalledWith({ name: 'search_deals', args: { keywords: 'Zelte' } });
+  });
+});
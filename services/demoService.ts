@@ -0,0 +1,259 @@
+import { AiDealAssessment, AiDealComparison, ChatToolCall, ComparedDeal, Deal, DemoProduct, GeoPoint, LocaleCode, Money, PriceDataPoint, StoreLocation, UserPreferences } from '../types';
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, DEMO_DISCOUNT_RANGE, DEMO_EXCHANGE_RATES, DEMO_HISTORY_WEEKS, DEMO_SEED, DEMO_STORE_MAX_KM } from '../constants';
+import { DEMO_CATALOG } from '../data/demoCatalog';
+import { GAZETTEER } from '../data/gazetteer';
+import { discountPercentage, formatAmount, formatMoney, hasAmount } from './money';
+import { translate } from './i18n';
+import { fingerprintDeal, hashString } from './dealIdentity';
+import { dealDistanceKm } from './locationService';
+import { SEARCH_DEALS_TOOL } from './chatTools';
+
+// Offline demo mode: deals from the bundled catalog and rule-based stand-ins for verification, comparison and chat.
+// Everything random is drawn from a generator seeded per product, so a seed always produces the same deals and histories.
+
+const KM_PER_DEGREE = 111.32;
+
+/** A repeatable generator of numbers in [0, 1) (mulberry32), seeded from any text. */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let state = parseInt(hashString(seed), 36);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const roundPrice = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Catalog prices are in US dollars; currencies without a demo rate are shown in dollars too.
+const demoRate = (currency: string | null): number => DEMO_EXCHANGE_RATES[currency ?? DEFAULT_CURRENCY] ?? 1;
+
+const demoMoney = (amount: number, currency: string): Money => ({ amount, currency, raw: formatAmount(amount, currency, 'en-US') });
+
+const matchesProduct = (product: DemoProduct, preferences: UserPreferences): boolean => {
+  if (preferences.categories.length > 0 && !preferences.categories.includes(product.category)) {
+    return false;
+  }
+  const keywords = preferences.keywords.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${product.title} ${product.description} ${product.merchant} ${product.category} ${product.tags.join(' ')}`.toLowerCase();
+  return keywords.every(keyword => haystack.includes(keyword));
+};
+
+// A point up to DEMO_STORE_MAX_KM from `center` in a seeded direction.
+const pointNear = (center: GeoPoint, random: () => number): GeoPoint => {
+  const distance = random() * DEMO_STORE_MAX_KM;
+  const bearing = random() * 2 * Math.PI;
+  return {
+    lat: Number((center.lat + (distance * Math.cos(bearing)) / KM_PER_DEGREE).toFixed(4)),
+    lon: Number((center.lon + (distance * Math.sin(bearing)) / (KM_PER_DEGREE * Math.cos((center.lat * Math.PI) / 180))).toFixed(4)),
+  };
+};
+
+// Stores are placed around the searched city; a location the gazetteer does not know is only used as the label,
+// and without a location the store is in a seeded gazetteer city.
+const demoStoreLocation = (product: DemoProduct, preferences: UserPreferences, seed: string): StoreLocation => {
+  const { place } = preferences;
+  const location = preferences.location.trim();
+  const random = createSeededRandom(`${seed}:store:${product.id}:${location.toLowerCase()}`);
+  if (place?.coordinates) {
+    const name = place.city ?? place.region ?? place.country ?? location;
+    return { label: `${product.merchant}, ${name}`, coordinates: pointNear(place.coordinates, random) };
+  }
+  if (location) return { label: `${product.merchant}, ${location}` };
+  const city = GAZETTEER[Math.floor(random() * GAZETTEER.length)];
+  return { label: `${product.merchant}, ${city.city}, ${city.country}`, coordinates: pointNear(city.coordinates, random) };
+};
+
+const toDemoDeal = (product: DemoProduct, preferences: UserPreferences, seed: string, currency: string): Deal => {
+  const [minDiscount, maxDiscount] = product.discountRange ?? DEMO_DISCOUNT_RANGE;
+  const random = createSeededRandom(`${seed}:price:${product.id}`);
+  const discount = minDiscount + random() * (maxDiscount - minDiscount);
+  const listPrice = roundPrice(product.listPrice * demoRate(currency));
+  // Shop prices end in .99, as long as that is still below the list price.
+  const price = Math.floor(listPrice * (1 - discount / 100)) + 0.99;
+  const discountedPrice = price < listPrice ? price : roundPrice(listPrice * (1 - discount / 100));
+  return {
+    id: fingerprintDeal(product),
+    title: product.title,
+    description: product.description,
+    originalPrice: demoMoney(listPrice, currency),
+    discountedPrice: demoMoney(discountedPrice, currency),
+    merchant: product.merchant,
+    category: product.category,
+    imageUrl: `https://picsum.photos/seed/${product.id}/300/200`,
+    fulfillment: product.fulfillment,
+    ...(product.fulfillment === 'online' ? {} : { storeLocation: demoStoreLocation(product, preferences, seed) }),
+  };
+};
+
+/**
+ * The catalog products matching the preferences' categories and keywords, as deals priced from `seed`.
+ * In-store deals outside `preferences.radiusKm` are left out; online deals are available anywhere.
+ * The order is seeded too, but does not depend on the search, so later pages continue through the same list.
+ * Prices are converted to `currency` at the fixed DEMO_EXCHANGE_RATES, or stay in US dollars for other currencies.
+ */
+export const searchDemoCatalog = (preferences: UserPreferences, seed: string = DEMO_SEED, currency: string = DEFAULT_CURRENCY): Deal[] => {
+  const rank = (product: DemoProduct) => createSeededRandom(`${seed}:order:${product.id}`)();
+  const priceCurrency = currency in DEMO_EXCHANGE_RATES ? currency : DEFAULT_CURRENCY;
+  return DEMO_CATALOG
+    .filter(product => matchesProduct(product, preferences))
+    .sort((a, b) => rank(a) - rank(b))
+    .map(product => toDemoDeal(product, preferences, seed, priceCurrency))
+    .filter(deal => {
+      const distance = deal.fulfillment === 'in-store' && preferences.radiusKm ? dealDistanceKm(deal, preferences.place?.coordinates) : null;
+      return distance === null || distance <= preferences.radiusKm!;
+    });
+};
+
+/** The catalog product a demo deal was made from; undefined for deals from anywhere else. */
+export const findDemoProduct = (deal: Pick<Deal, 'title' | 'merchant'>): DemoProduct | undefined =>
+  DEMO_CATALOG.find(product => product.title === deal.title && product.merchant === deal.merchant);
+
+// The product's typical price in the currency the deal is priced in.
+const typicalPriceOf = (product: DemoProduct, deal: Deal): number => roundPrice(product.typicalPrice * demoRate(deal.discountedPrice.currency));
+
+const toDay = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * DEMO_HISTORY_WEEKS weekly prices ending at the deal's current price today. Earlier weeks wander around the
+ * product's typical price (or a little above the current one for deals not from the catalog), the same way for a seed.
+ */
+export const generateDemoPriceHistory = (deal: Deal, seed: string = DEMO_SEED, today: Date = new Date()): PriceDataPoint[] => {
+  if (!hasAmount(deal.discountedPrice)) return [];
+  const current = deal.discountedPrice.amount;
+  const product = findDemoProduct(deal);
+  const typical = product ? typicalPriceOf(product, deal) : current * 1.1;
+  const random = createSeededRandom(`${seed}:history:${deal.id}`);
+  const history: PriceDataPoint[] = [];
+  for (let week = DEMO_HISTORY_WEEKS - 1; week >= 0; week--) {
+    const date = new Date(today);
+    date.setDate(today.getDate() - week * 7);
+    const price = week === 0 ? current : typical * (0.94 + random() * 0.12);
+    history.push({ date: toDay(date), price: roundPrice(price) });
+  }
+  return history;
+};
+
+/**
+ * Judges a demo deal against its product's typical price, in place of the model's assessment.
+ * Null for deals that are not from the catalog, which then get the local checks alone.
+ */
+export const assessDemoDeal = (deal: Deal, locale: LocaleCode = DEFAULT_LOCALE): AiDealAssessment | null => {
+  const product = findDemoProduct(deal);
+  if (!product || !hasAmount(deal.discountedPrice)) return null;
+  const typicalPrice = typicalPriceOf(product, deal);
+  const params = { price: formatMoney(deal.discountedPrice, locale), typical: formatAmount(typicalPrice, deal.discountedPrice.currency, locale) };
+  const ratio = deal.discountedPrice.amount / typicalPrice;
+  if (ratio < 0.35) {
+    return { score: 1, offline: true, summary: translate(locale, 'demo.assessment.scam', params) };
+  }
+  if (ratio <= 0.85) {
+    return { score: 5, offline: true, summary: translate(locale, 'demo.assessment.wellBelow', params) };
+  }
+  if (ratio <= 0.97) {
+    return { score: 4, offline: true, summary: translate(locale, 'demo.assessment.below', params) };
+  }
+  if (ratio <= 1.03) {
+    return { score: 3, offline: true, summary: translate(locale, 'demo.assessment.typical', params) };
+  }
+  return { score: 2, offline: true, summary: translate(locale, 'demo.assessment.above', params) };
+};
+
+const MERCHANT_POINTS = { trusted: 1, unknown: 0, suspicious: -2, blocked: -4 };
+
+/**
+ * Weighs 2-4 deals by verification score, merchant trust and price, in place of the model's verdict.
+ * No deal is recommended when the best two are tied.
+ */
+export const compareDemoDeals = (compared: ComparedDeal[], locale: LocaleCode = DEFAULT_LOCALE): AiDealComparison => {
+  const priced = compared.filter(({ deal }) => hasAmount(deal.discountedPrice));
+  const cheapest = priced.reduce<ComparedDeal | null>((best, entry) =>
+    !best || entry.deal.discountedPrice.amount! < best.deal.discountedPrice.amount! ? entry : best, null);
+  const discountOf = (entry: ComparedDeal) => discountPercentage(entry.deal.originalPrice, entry.deal.discountedPrice) ?? 0;
+  const biggestDiscount = compared.reduce((best, entry) => (discountOf(entry) > discountOf(best) ? entry : best), compared[0]);
+
+  const points = (entry: ComparedDeal) =>
+    (entry.verificationScore ?? 3) + MERCHANT_POINTS[entry.merchant.tier] + (entry === cheapest ? 1 : 0) + (entry === biggestDiscount ? 0.5 : 0);
+  const ranked = [...compared].sort((a, b) => points(b) - points(a));
+  const winner = ranked.length > 1 && points(ranked[0]) === points(ranked[1]) ? null : ranked[0];
+
+  const tradeOffs = compared.map(entry => {
+    const pros: string[] = [];
+    const cons: string[] = [];
+    const merchant = entry.merchant.name;
+    if (entry === cheapest) pros.push(translate(locale, 'demo.compare.cheapest'));
+    if (entry === biggestDiscount && discountOf(entry) > 0) pros.push(translate(locale, 'demo.compare.biggestDiscount', { percent: discountOf(entry) }));
+    if (entry.merchant.tier === 'trusted') pros.push(translate(locale, 'demo.compare.trusted', { merchant }));
+    if (entry.merchant.tier === 'suspicious' || entry.merchant.tier === 'blocked') cons.push(translate(locale, 'demo.compare.untrusted', { merchant }));
+    if (entry.verificationScore !== null && entry.verificationScore <= 2) cons.push(translate(locale, 'demo.compare.lowScore', { score: entry.verificationScore }));
+    if (entry.priceTrend?.direction === 'falling') cons.push(translate(locale, 'demo.compare.falling'));
+    if (entry.deal.fulfillment === 'in-store') cons.push(translate(locale, 'demo.compare.inStore'));
+    return { dealId: entry.deal.id, pros, cons };
+  });
+
+  const mixed = new Set(compared.map(entry => entry.deal.category)).size > 1;
+  const reason = winner
+    ? translate(locale, 'demo.compare.winner', { title: winner.deal.title })
+    : translate(locale, 'demo.compare.tie');
+  const summary = mixed ? `${reason} ${translate(locale, 'demo.compare.mixed')}` : reason;
+  return { recommendedDealId: winner?.deal.id ?? null, summary, tradeOffs, offline: true };
+};
+
+// The requests are recognised in English and German, the UI languages.
+const SEARCH_PATTERN = /^(?:please\s+|bitte\s+)?(?:find|search(?:\s+for)?|look\s+for|show\s+me|finde|such(?:e)?(?:\s+nach)?|zeig(?:e)?\s+mir)\s+(.+?)[.?!]*$/i;
+const CHEAPEST_PATTERN = /\b(?:cheap|cheapest|lowest|least expensive)\b|\b(?:billig|günstig)/;
+const DISCOUNT_PATTERN = /\b(?:discount|discounts|off|saving|savings|best deal|ersparnis)\b|\brabatt/;
+const COMPARE_PATTERN = /\b(?:compare|which|better|vs|versus|besser)\b|\b(?:vergleich|welche)/;
+
+const dealLine = (deal: Deal, locale: LocaleCode): string => {
+  const discount = discountPercentage(deal.originalPrice, deal.discountedPrice);
+  const params = { id: deal.id, price: formatMoney(deal.discountedPrice, locale), merchant: deal.merchant };
+  return discount !== null
+    ? translate(locale, 'demo.chat.dealDiscount', { ...params, percent: discount })
+    : translate(locale, 'demo.chat.deal', params);
+};
+
+/**
+ * Canned assistant replies for offline demo mode, referencing deals as [[deal:ID]] like the model does.
+ * "find ..." runs the search_deals tool through `executeTool`, so the shown deals change as they would with the model.
+ */
+export const replyToDemoChat = async (
+  message: string,
+  displayedDeals: Deal[],
+  executeTool?: (call: ChatToolCall) => Promise<Record<string, unknown>>,
+  locale: LocaleCode = DEFAULT_LOCALE
+): Promise<string> => {
+  const help = translate(locale, 'demo.chat.help');
+  const text = message.trim();
+  const search = SEARCH_PATTERN.exec(text);
+  if (search && executeTool) {
+    const keywords = search[1].trim();
+    const response = await executeTool({ name: SEARCH_DEALS_TOOL, args: { keywords } });
+    const found = Array.isArray(response.deals) ? response.deals as { id: string; title: string; price: string }[] : [];
+    if (found.length === 0) {
+      return translate(locale, 'demo.chat.noMatch', { keywords });
+    }
+    return translate(locale, 'demo.chat.found', { keywords, count: found.length, id: found[0].id, price: found[0].price });
+  }
+
+  const lower = text.toLowerCase();
+  const priced = displayedDeals.filter(deal => hasAmount(deal.discountedPrice));
+  if (priced.length === 0) {
+    return translate(locale, 'demo.chat.noDeals', { help });
+  }
+  if (CHEAPEST_PATTERN.test(lower)) {
+    const cheapest = priced.reduce((best, deal) => (deal.discountedPrice.amount! < best.discountedPrice.amount! ? deal : best));
+    return translate(locale, 'demo.chat.cheapest', { deal: dealLine(cheapest, locale) });
+  }
+  const discountOf = (deal: Deal) => discountPercentage(deal.originalPrice, deal.discountedPrice) ?? 0;
+  if (DISCOUNT_PATTERN.test(lower)) {
+    const best = priced.reduce((top, deal) => (discountOf(deal) > discountOf(top) ? deal : top));
+    return translate(locale, 'demo.chat.biggestDiscount', { deal: dealLine(best, locale) });
+  }
+  if (COMPARE_PATTERN.test(lower)) {
+    const top = [...priced].sort((a, b) => discountOf(b) - discountOf(a)).slice(0, 3);
+    return translate(locale, 'demo.chat.top', { deals: top.map(deal => `- ${dealLine(deal, locale)}`).join('\n') });
+  }
+  return help;
+};
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Deal } from '../types';
+import { verifyDeal } from './geminiService';
+import { lookupMerchant, setMerchantOverride } from './merchantRegistry';
+
+const usd = (amount: number) => ({ amount, currency: 'USD', raw: `$${amount}` });
+
+const deal: Deal = {
+  id: 'deal-laptop',
+  title: 'Dell XPS 13 Laptop',
+  description: 'Thin and light laptop.',
+  originalPrice: usd(1299),
+  discountedPrice: usd(999),
+  merchant: 'Best Buy',
+  category: 'Electronics',
+};
+
+describe('verifyDeal', () => {
+  it('judges the merchant with the reputation it is given, including the user\'s overrides', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {}); // No API key here, so the verdict rests on the local checks
+    const registry = lookupMerchant(deal.merchant, {});
+    const blocked = lookupMerchant(deal.merchant, setMerchantOverride({}, registry.key, 'blocked'));
+
+    const trusted = await verifyDeal(deal, [], {}, registry);
+    const distrusted = await verifyDeal(deal, [], {}, blocked);
+
+    expect(trusted.factors.find(factor => factor.id === 'merchant')?.status).toBe('pass');
+    expect(distrusted.factors.find(factor => factor.id === 'merchant')?.status).toBe('fail');
+    expect(distrusted.score!).toBeLessThan(trusted.score!);
+  });
+});
@@ -1,10 +1,63 @@
 
-import { GoogleGenAI, GenerateContentResponse, Chat, GroundingMetadata, Content } from "@google/genai";
-import { Deal, UserPreferences, DealVerification, GroundingChunk, PriceDataPoint } from '../types';
-import { GEMINI_MODEL_TEXT, INITIAL_DEALS_COUNT } from '../constants';
+import { GoogleGenAI, GenerateContentResponse, GenerateContentConfig, Chat, GroundingMetadata, Content, FunctionCall, Part, PartListUnion, Schema } from "@google/genai";
+import { Deal, UserPreferences, DealVerification, GroundingChunk, PriceDataPoint, DealSearchResult, DealSearchOptions, ChatMessage, ChatToolCall, AiDealAssessment, AiDealComparison, ComparedDeal, DealComparisonResult, MerchantReputation, RequestOptions } from '../types';
+import {
+  GEMINI_MODEL_TEXT,
+  INITIAL_DEALS_COUNT,
+  DEAL_CATEGORIES,
+  MAX_CHAT_TOOL_ROUNDS,
+  DEAL_CACHE_STORAGE_KEY,
+  DEAL_CACHE_TTL_MS,
+  DEAL_CACHE_STALE_MS,
+  VERIFICATION_CACHE_STORAGE_KEY,
+  VERIFICATION_CACHE_TTL_MS,
+  RESPONSE_CACHE_MAX_ENTRIES,
+  GEMINI_MAX_REQUESTS_PER_MINUTE,
+  MAX_EXCLUDED_DEALS_IN_PROMPT,
+  COMPARISON_CACHE_STORAGE_KEY,
+  DEFAULT_LOCALE,
+} from '../constants';
+import { discountPercentage, formatMoney } from './money';
+import { fingerprintDeal } from './dealIdentity';
+import { COMPARISON_RESPONSE_SCHEMA, DEAL_RESPONSE_SCHEMA, VERIFICATION_RESPONSE_SCHEMA, ValidatedDeal, validateComparison, validateDeals, validateVerification } from './dealSchema';
+import { CHAT_TOOL_DECLARATIONS } from './chatTools';
+import { runLocalChecks, describeChecksForPrompt, combineVerification } from './dealVerification';
+import { cacheKey, cachedCall, createResponseCache } from './responseCache';
+import { createRateLimiter, isAbortError, withRetry } from './requestControl';
+import { createJsonObjectScanner, scanJsonObjects } from './jsonScanner';
+import { attributeDealSources } from './groundingSources';
+import { describeSearchLocation } from './locationService';
+import { describeLocaleForPrompt, translate } from './i18n';
+import { assessDemoDeal, compareDemoDeals, replyToDemoChat } from './demoService';
 
 let ai: GoogleGenAI | null = null;
 let chatInstance: Chat | null = null;
+let chatConfig: GenerateContentConfig = {};
+
+// Search, verification and chat draw on the same quota, so they share one limiter.
+const geminiLimiter = createRateLimiter(GEMINI_MAX_REQUESTS_PER_MINUTE, 60 * 1000);
+
+const callGemini = <T,>(request: () => Promise<T>, options: RequestOptions): Promise<T> =>
+  withRetry(request, { ...options, limiter: geminiLimiter });
+
+const dealCache = createResponseCache<DealSearchResult>({
+  storageKey: DEAL_CACHE_STORAGE_KEY,
+  ttlMs: DEAL_CACHE_TTL_MS,
+  staleMs: DEAL_CACHE_STALE_MS,
+  maxEntries: RESPONSE_CACHE_MAX_ENTRIES,
+});
+
+const verificationCache = createResponseCache<AiDealAssessment | null>({
+  storageKey: VERIFICATION_CACHE_STORAGE_KEY,
+  ttlMs: VERIFICATION_CACHE_TTL_MS,
+  maxEntries: RESPONSE_CACHE_MAX_ENTRIES,
+});
+
+const comparisonCache = createResponseCache<AiDealComparison | null>({
+  storageKey: COMPARISON_CACHE_STORAGE_KEY,
+  ttlMs: VERIFICATION_CACHE_TTL_MS,
+  maxEntries: RESPONSE_CACHE_MAX_ENTRIES,
+});
 
 const initializeAi = (): GoogleGenAI => {
   if (ai) return ai;
@@ -66,63 +119,12 @@ const parseJsonFromText = <T,>(text: string, isArrayExpected: boolean = false):
   } catch (e) {
     console.error("Failed to parse JSON response (1st attempt):", (e as Error).message, "Original text snippet:", jsonStr.substring(0, 300));
 
-    // Fallback 1: Iterative parsing for arrays (if an array is expected)
+    // Fallback 1: Salvage the well-formed objects of a malformed array (if an array is expected)
     if (isArrayExpected && jsonStr.startsWith('[') && jsonStr.endsWith(']')) {
-      const arrayContent = jsonStr.substring(1, jsonStr.length - 1).trim();
-      const extractedObjects: any[] = [];
-
-      // Regex to match strings (ignoring escaped quotes) OR braces
-      // This is more robust and faster than character-by-character iteration
-      const tokenRegex = /"(?:[^"\\]|\\.)*"|[{}]/g;
-
-      let match;
-      let depth = 0;
-      let startIndex = -1;
-
-      while ((match = tokenRegex.exec(arrayContent)) !== null) {
-        const token = match[0];
-
-        if (char === '"') {
-          let backslashCount = 0;
-          for (let j = i - 1; j >= 0; j--) {
-            if (arrayContent[j] === '\\') {
-              backslashCount++;
-            } else {
-              break;
-            }
-          }
-
-          if (backslashCount % 2 === 0) {
-            inString = !inString;
-          }
-        }
-
-        if (token === '{') {
-            if (depth === 0) {
-                startIndex = match.index;
-            }
-            depth++;
-        } else if (token === '}') {
-            depth--;
-            if (depth === 0 && startIndex !== -1) {
-                // Found a potential object from startIndex to match.index + 1
-                const potentialObjStr = arrayContent.substring(startIndex, match.index + 1);
-                try {
-                    const obj = JSON.parse(potentialObjStr);
-                    extractedObjects.push(obj);
-                } catch (err) {
-                    // Ignore malformed object
-                }
-                startIndex = -1; // Reset
-            }
-        }
-      }
-      
+      const extractedObjects = scanJsonObjects(jsonStr.substring(1, jsonStr.length - 1));
       if (extractedObjects.length > 0) {
         console.log(`Successfully extracted ${extractedObjects.length} objects from malformed array string via iterative parsing.`);
         return extractedObjects as T;
-      } else {
-        // console.error("Failed to extract any valid objects from the presumed array string using iterative parsing.");
       }
     }
     
@@ -143,12 +145,28 @@ const parseJsonFromText = <T,>(text: string, isArrayExpected: boolean = false):
   }
 };
 
-export const generateDeals = async (preferences: UserPreferences, useSearchGrounding: boolean = false): Promise<{deals: Deal[], groundingMetadata?: GroundingMetadata}> => {
+const withIds = (deals: ValidatedDeal[]): Deal[] => deals.map((deal, index) => ({
+  ...deal,
+  id: fingerprintDeal(deal),
+  imageUrl: `https://picsum.photos/seed/${encodeURIComponent(deal.title || `deal-${index}`)}/300/200`
+}));
+
+// The most recently shown deals, so a follow-up page asks for different ones.
+const describeExcludedDeals = (excluded: DealSearchOptions['excludeDeals'] = []): string => {
+  if (excluded.length === 0) return '';
+  const lines = excluded.slice(-MAX_EXCLUDED_DEALS_IN_PROMPT).map(deal => `- ${deal.title} (${deal.merchant})`);
+  return `These deals are already shown to the user. Suggest different ones and do not repeat any of them:\n${lines.join('\n')}`;
+};
+
+const requestDeals = async (preferences: UserPreferences, useSearchGrounding: boolean, options: DealSearchOptions): Promise<DealSearchResult> => {
   try {
     const localAi = initializeAi();
-    let prompt = `Generate ${INITIAL_DEALS_COUNT} realistic-sounding deals for an e-commerce website.
-For each deal, include: title, a short description (1-2 sentences), original price (e.g., $100.00), discounted price (e.g., $75.00), merchant name (e.g., Amazon, BestBuy, LocalMart), and a product category.
-Output ONLY the deals as a JSON array of objects, where each object has keys: "title", "description", "originalPrice", "discountedPrice", "merchant", "category".
+    const count = options.maxResults ?? INITIAL_DEALS_COUNT;
+    const exclusion = describeExcludedDeals(options.excludeDeals);
+    const language = describeLocaleForPrompt(options.locale);
+    let prompt = `Generate ${count} realistic-sounding deals for an e-commerce website.
+For each deal, include: title, a short description (1-2 sentences), original price (e.g., $100.00), discounted price (e.g., $75.00), merchant name (e.g., Amazon, BestBuy, LocalMart), a product category, how it is bought ("online", "in-store" or "both") and, for deals bought in a store, the store's address or city.
+Output ONLY the deals as a JSON array of objects, where each object has keys: "title", "description", "originalPrice", "discountedPrice", "merchant", "category", "fulfillment" and, when there is a store, "storeLocation".
 Ensure prices are strings representing currency values. Do not include any text before or after the JSON array.
 Example of one deal object:
 {
@@ -157,115 +175,304 @@ Example of one deal object:
   "originalPrice": "399.99",
   "discountedPrice": "199.99",
   "merchant": "BestBuy",
-  "category": "Electronics"
+  "category": "Electronics",
+  "fulfillment": "both",
+  "storeLocation": "529 14th St NW, Washington, DC"
 }`;
 
     if (preferences.keywords) {
       prompt += `\nFocus on deals related to: "${preferences.keywords}".`;
     }
     if (preferences.categories.length > 0) {
-      prompt += `\nPrioritize categories: ${preferences.categories.join(', ')}. Available categories can include Electronics, Fashion, Home & Kitchen, Sports & Outdoors, Books, Groceries, Beauty & Personal Care, Toys & Games, Automotive, Travel.`;
+      prompt += `\nPrioritize categories: ${preferences.categories.join(', ')}.`;
     }
-    if (preferences.location) {
-      prompt += `\nConsider offers relevant to location: "${preferences.location}" or online deals accessible from there. Mention if a deal is local or online.`;
+    prompt += `\nThe "category" of every deal must be exactly one of: ${DEAL_CATEGORIES.join(', ')}.`;
+    const location = describeSearchLocation(preferences);
+    if (location) {
+      prompt += `\nConsider offers relevant to location: ${location} or online deals accessible from there. Give the store location of every in-store deal.`;
+    }
+    if (options.preferenceHint) {
+      prompt += `\n${options.preferenceHint}`;
+    }
+    if (exclusion) {
+      prompt += `\n${exclusion}`;
+    }
+    if (language) {
+      prompt += `\n${language}`;
     }
     prompt += `\nProvide varied and appealing deals. If generating local deals, ensure the merchant name reflects that. Ensure the output is strictly a JSON array.`;
 
 
     const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
-    const config: any = { responseMimeType: "application/json" }; 
+    const config: any = { responseMimeType: "application/json", responseSchema: DEAL_RESPONSE_SCHEMA }; 
     
     if (useSearchGrounding) {
         let searchQuery = "latest deals";
         if (preferences.keywords) searchQuery += ` for ${preferences.keywords}`;
         if (preferences.categories.length > 0) searchQuery += ` in ${preferences.categories.join(', ')}`;
         if (preferences.location) searchQuery += ` near ${preferences.location}`;
+        if (preferences.location && preferences.radiusKm) searchQuery += ` within ${preferences.radiusKm} km`;
         
         const searchPrompt = `Find recent top deals based on the query: "${searchQuery}".
-        Provide a list of up to ${INITIAL_DEALS_COUNT} deals.
-        For each deal, extract or infer: title, a short description, original price, discounted price, merchant name, and a product category.
-        Format the output ONLY as a JSON array of objects with keys: "title", "description", "originalPrice", "discountedPrice", "merchant", "category".
+        Provide a list of up to ${count} deals.
+        For each deal, extract or infer: title, a short description, original price, discounted price, merchant name, a product category, whether it is bought "online", "in-store" or "both", and the store's address or city for in-store deals.
+        Format the output ONLY as a JSON array of objects with keys: "title", "description", "originalPrice", "discountedPrice", "merchant", "category", "fulfillment" and, when there is a store, "storeLocation".
         Do not include any text before or after the JSON array.
         If price information is not available, you can state "Price varies" or omit price fields for that specific deal.
-        Focus on concrete deals, not general advice.`;
+        The "category" of every deal must be exactly one of: ${DEAL_CATEGORIES.join(', ')}.
+        Focus on concrete deals, not general advice.${options.preferenceHint ? `\n        ${options.preferenceHint}` : ''}${exclusion ? `\n        ${exclusion}` : ''}${language ? `\n        ${language}` : ''}`;
         
         contents[0].parts[0].text = searchPrompt;
         config.tools = [{googleSearch: {}}];
-        delete config.responseMimeType; 
+        delete config.responseMimeType; // Google Search grounding does not support controlled JSON output
+        delete config.responseSchema;
     }
 
 
-    const response: GenerateContentResponse = await localAi.models.generateContent({
+    const stream = await callGemini(() => localAi.models.generateContentStream({
       model: GEMINI_MODEL_TEXT,
       contents: contents,
-      config: config,
-    });
+      config: { ...config, abortSignal: options.signal },
+    }), options);
 
-    const parsedDeals = parseJsonFromText<Deal[]>(response.text, true); // Indicate that an array is expected
-    
-    const dealsWithIds: Deal[] = (parsedDeals || []).map((deal, index) => ({
-      ...deal,
-      id: `${Date.now()}-${index}`, 
-      imageUrl: `https://picsum.photos/seed/${encodeURIComponent(deal.title || `deal-${index}`)}/300/200`
-    }));
+    // Deals are handed to `onProgress` as soon as each object in the array is complete.
+    const scanner = createJsonObjectScanner();
+    const streamedRecords: unknown[] = [];
+    let text = '';
+    let groundingMetadata: GroundingMetadata | undefined;
+    for await (const chunk of stream) {
+      const chunkText = chunk.text ?? '';
+      text += chunkText;
+      groundingMetadata = (chunk.candidates?.[0]?.groundingMetadata as GroundingMetadata | undefined) ?? groundingMetadata;
+      const completed = scanner.push(chunkText);
+      if (completed.length > 0 && options.onProgress) {
+        streamedRecords.push(...completed);
+        options.onProgress(withIds(validateDeals(streamedRecords).deals));
+      }
+    }
 
-    const groundingMetadata = response.candidates?.[0]?.groundingMetadata as GroundingMetadata | undefined;
+    const parsedDeals = parseJsonFromText<unknown>(text, true); // Indicate that an array is expected
+    const { deals: validDeals, report } = validateDeals(parsedDeals);
+    if (report.rejected.length > 0) {
+      console.warn(`Dropped ${report.rejected.length} of ${report.received} deals from the AI response:`, report.rejected);
+    }
+    
+    const dealsWithIds = withIds(validDeals);
     
-    if (dealsWithIds.length === 0 && response.text.length > 5) { // If parsing failed but we got some text
-        console.warn("Failed to parse deals from AI response, but received text. Response text:", response.text.substring(0, 500));
+    if (dealsWithIds.length === 0 && text.length > 5) { // If parsing failed but we got some text
+        console.warn("Failed to parse deals from AI response, but received text. Response text:", text.substring(0, 500));
     }
 
-    return { deals: dealsWithIds, groundingMetadata };
+    // Grounded deals are tied to the search results that back them; generated ones have none to cite.
+    const deals = useSearchGrounding ? attributeDealSources(dealsWithIds, groundingMetadata) : dealsWithIds;
+    return { deals, groundingMetadata, validation: report };
 
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error generating deals:", error);
     if ((error as Error).message === "API_KEY_MISSING") throw error;
     throw new Error("Failed to generate deals from AI.");
   }
 };
 
+// "  Laptops " and "laptops", or categories in another order, are the same request.
+const normalizePreferences = (preferences: UserPreferences): UserPreferences => ({
+  keywords: preferences.keywords.trim().toLowerCase().replace(/\s+/g, ' '),
+  categories: [...preferences.categories].sort(),
+  location: preferences.location.trim().toLowerCase().replace(/\s+/g, ' '),
+  ...(preferences.location.trim() && preferences.radiusKm ? { radiusKm: preferences.radiusKm } : {}),
+});
 
-export const verifyDeal = async (deal: Deal): Promise<DealVerification> => {
-  try {
-    const localAi = initializeAi();
-    const prompt = `Given the following deal information:
+/**
+ * Deals for the preferences, served from the response cache when the same request was made recently.
+ * Stale cached deals are returned at once (with `cache.stale`) while fresh ones are fetched for `options.onRevalidated`.
+ * The response is streamed: while it arrives, `options.onProgress` receives the deals parsed so far.
+ */
+export const generateDeals = async (preferences: UserPreferences, useSearchGrounding: boolean = false, options: DealSearchOptions = {}): Promise<DealSearchResult> => {
+  const key = cacheKey({
+    model: GEMINI_MODEL_TEXT,
+    grounding: useSearchGrounding,
+    preferences: normalizePreferences(preferences),
+    preferenceHint: options.preferenceHint ?? '',
+    locale: options.locale ?? DEFAULT_LOCALE,
+    pageSize: options.maxResults ?? INITIAL_DEALS_COUNT,
+    excluded: (options.excludeDeals ?? []).map(deal => deal.id).sort(),
+  });
+  const { value, cache } = await cachedCall(dealCache, key, () => requestDeals(preferences, useSearchGrounding, options), {
+    bypass: options.bypassCache,
+    shouldStore: result => result.deals.length > 0,
+    onRevalidated: options.onRevalidated,
+  });
+  return cache ? { ...value, cache } : value;
+};
+
+
+// Asks for a single JSON object matching `responseSchema`, then parses and validates the answer. Verification and
+// comparison share this path. Resolves to null when the model answered with something unusable.
+const requestJsonObject = async <T,>(
+  prompt: string,
+  responseSchema: Schema,
+  validate: (input: unknown) => { value: T | null; issues: string[] },
+  description: string,
+  options: RequestOptions
+): Promise<T | null> => {
+  const localAi = initializeAi();
+  const response: GenerateContentResponse = await callGemini(() => localAi.models.generateContent({
+    model: GEMINI_MODEL_TEXT,
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    config: { responseMimeType: "application/json", responseSchema, abortSignal: options.signal }
+  }), options);
+
+  const text = response.text ?? '';
+  const { value, issues } = validate(parseJsonFromText<unknown>(text, false)); // Not an array
+  if (!value) {
+    console.warn(`Failed to parse ${description} from AI response:`, issues, "Response text:", text.substring(0, 500));
+    return null;
+  }
+  if (issues.length > 0) {
+    console.warn(`Repaired ${description} from AI response:`, issues);
+  }
+  return value;
+};
+
+const requestAssessment = (prompt: string, options: RequestOptions): Promise<AiDealAssessment | null> =>
+  requestJsonObject(prompt, VERIFICATION_RESPONSE_SCHEMA, input => {
+    const { verification, issues } = validateVerification(input);
+    return { value: verification, issues };
+  }, "deal verification", options);
+
+// The language instruction as a closing prompt line; nothing for English, so English prompts (and their cache keys) stay as they were.
+const withLanguage = (locale: RequestOptions['locale']): string => {
+  const language = describeLocaleForPrompt(locale);
+  return language ? `\n${language}` : '';
+};
+
+/**
+ * Runs the local rule-based checks, then asks the model for its judgement with those findings in the prompt.
+ * When the model cannot be reached or answers unusably, the result is based on the local checks alone
+ * (status 'partial'), so a missing AI answer is never mistaken for a low score. Rejects only when `options.signal` is aborted.
+ * Without an API key, deals from the offline demo catalog get a rule-based assessment in place of the model's.
+ * `reputation` is the merchant's standing with the user's current overrides, as for `runLocalChecks`.
+ */
+export const verifyDeal = async (
+  deal: Deal,
+  history: PriceDataPoint[] = [],
+  options: RequestOptions = {},
+  reputation?: MerchantReputation
+): Promise<DealVerification> => {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const localFactors = runLocalChecks(deal, history, reputation, locale);
+  const prompt = `Given the following deal information:
 Title: ${deal.title}
 Description: ${deal.description}
-Original Price: ${deal.originalPrice}
-Discounted Price: ${deal.discountedPrice}
+Original Price: ${formatMoney(deal.originalPrice, 'en-US')}
+Discounted Price: ${formatMoney(deal.discountedPrice, 'en-US')}
 Merchant: ${deal.merchant}
 Category: ${deal.category}
 
+Automated checks have already found:
+${describeChecksForPrompt(localFactors)}
+
 Assess the authenticity and value of this deal. Provide a brief verification summary (1-2 sentences) and a score from 1 (likely scam/bad deal) to 5 (excellent, trustworthy deal).
-Consider factors like typical product pricing for the category, merchant reputation (if generally known), and plausibility of the discount.
+Take the automated findings into account and focus on what they cannot see: typical market pricing for this exact product.
+Only judge the merchant's reputation yourself if the merchant check found no data.
 Output ONLY the result as a JSON object with keys: "summary" (string) and "score" (number). Do not include any text before or after the JSON object.
 Example output:
 {
   "summary": "This seems like a legitimate and good value deal from a reputable merchant, given the typical price range for this product type.",
   "score": 4
-}`;
+}${withLanguage(options.locale)}`;
 
-    const response: GenerateContentResponse = await localAi.models.generateContent({
-      model: GEMINI_MODEL_TEXT,
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      config: { responseMimeType: "application/json" }
-    });
-
-    const verificationResult = parseJsonFromText<DealVerification>(response.text, false); // Not an array
-    if (!verificationResult) {
-      console.warn("Failed to parse deal verification from AI response. Response text:", response.text.substring(0, 500));
-      return { summary: "AI could not verify this deal due to response format error.", score: 0 };
+  try {
+    // The prompt already contains everything the answer depends on, so it is the cache key. Only the AI part is cached;
+    // the local checks above always run fresh.
+    const { value: assessment } = await cachedCall(
+      verificationCache,
+      cacheKey({ model: GEMINI_MODEL_TEXT, prompt }),
+      () => requestAssessment(prompt, options),
+      { shouldStore: value => value !== null }
+    );
+    if (!assessment) {
+      return combineVerification(localFactors, null, translate(locale, 'ai.unreadable'), locale);
     }
-    return verificationResult;
+    return combineVerification(localFactors, assessment, undefined, locale);
 
   } catch (error) {
+    if (isAbortError(error)) throw error;
+    if ((error as Error).message === "API_KEY_MISSING") {
+      // Offline demo mode: catalog deals are judged against their typical price instead.
+      const demoAssessment = assessDemoDeal(deal, locale);
+      return demoAssessment
+        ? combineVerification(localFactors, demoAssessment, undefined, locale)
+        : combineVerification(localFactors, null, translate(locale, 'ai.noApiKey'), locale);
+    }
     console.error("Error verifying deal:", error);
-    if ((error as Error).message === "API_KEY_MISSING") throw error;
-    return { summary: "Failed to connect to AI for verification.", score: 0 };
+    return combineVerification(localFactors, null, translate(locale, 'ai.unreachable'), locale);
   }
 };
 
-export const startChat = (): void => {
+const describeComparedDeal = ({ deal, merchant, verificationScore, isVerified, priceTrend, historyPoints }: ComparedDeal): string => {
+  const discount = discountPercentage(deal.originalPrice, deal.discountedPrice);
+  const trend = priceTrend
+    ? `${priceTrend.direction} (${priceTrend.percentPerWeek.toFixed(1)}% per week over ${historyPoints} recorded prices)`
+    : 'no recorded price history';
+  return `- id: ${deal.id}
+  Title: ${deal.title}
+  Description: ${deal.description}
+  Price: ${formatMoney(deal.discountedPrice, 'en-US')} (was ${formatMoney(deal.originalPrice, 'en-US')}${discount !== null ? `, ${discount}% off` : ''})
+  Merchant: ${deal.merchant} (trust: ${merchant.tier}${merchant.flags.length > 0 ? `; flagged: ${merchant.flags.join('; ')}` : ''})
+  Verification score: ${verificationScore === null ? 'unknown' : `${verificationScore}/5${isVerified ? '' : ' (automated checks only)'}`}
+  Price trend: ${trend}`;
+};
+
+/**
+ * Asks the model to weigh 2-4 deals against each other and pick one. Like `verifyDeal`, it never rejects unless
+ * `options.signal` is aborted: when the model cannot be reached or answers unusably, the verdict is null with the reason.
+ * Without an API key the verdict comes from the offline demo rules.
+ */
+export const compareDeals = async (deals: ComparedDeal[], options: RequestOptions = {}): Promise<DealComparisonResult> => {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const dealIds = deals.map(compared => compared.deal.id);
+  const prompt = `Compare these deals for a shopper choosing between them:
+${deals.map(describeComparedDeal).join('\n')}
+
+Weigh price, discount, merchant trust, verification score and price trend, and whether the products are really comparable.
+Recommend the deal you would pick by its id, or null if none is clearly better. Give a short summary (2-3 sentences) of why,
+and for every deal its main pros and cons (short phrases).
+Output ONLY a JSON object with keys: "recommendedDealId" (string or null), "summary" (string) and
+"tradeOffs" (array of objects with "dealId" (string), "pros" (array of strings) and "cons" (array of strings)).${withLanguage(options.locale)}`;
+
+  try {
+    const { value: verdict } = await cachedCall(
+      comparisonCache,
+      cacheKey({ model: GEMINI_MODEL_TEXT, prompt }),
+      () => requestJsonObject(prompt, COMPARISON_RESPONSE_SCHEMA, input => {
+        const { comparison, issues } = validateComparison(input, dealIds);
+        return { value: comparison, issues };
+      }, "deal comparison", options),
+      { shouldStore: value => value !== null }
+    );
+    return verdict ? { verdict } : { verdict: null, unavailableReason: translate(locale, 'ai.unreadable') };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    if ((error as Error).message === "API_KEY_MISSING") {
+      return { verdict: compareDemoDeals(deals, locale) };
+    }
+    console.error("Error comparing deals:", error);
+    return { verdict: null, unavailableReason: translate(locale, 'ai.unreachable') };
+  }
+};
+
+const CHAT_SYSTEM_INSTRUCTION = `You are a helpful assistant for finding deals and shopping advice.
+Each user message may start with a list of the deals currently shown to the user, each with an id.
+When you mention one of those deals, reference it as [[deal:ID]] using its exact id, e.g. "The best pick is [[deal:deal-abc123]]."
+Only reference ids from the list; never invent ids.
+You can act for the user with tools: search_deals replaces their search filters and the deals shown; verify_deal, get_price_history
+and add_to_watchlist take a deal id from the list or from a search_deals result. Only use a tool when the user asks for what it does,
+then tell the user what you did and what you found.`;
+
+// Restores a persisted conversation (e.g. after a reload) so the model keeps its context.
+export const startChat = (history: ChatMessage[] = []): void => {
   // Access Vite environment variables using import.meta.env
   const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
   if (!apiKey) {
@@ -273,44 +480,97 @@ export const startChat = (): void => {
     return;
   }
   const localAi = initializeAi();
+  chatConfig = {
+    systemInstruction: CHAT_SYSTEM_INSTRUCTION,
+    tools: [{ functionDeclarations: CHAT_TOOL_DECLARATIONS }],
+  };
   chatInstance = localAi.chats.create({
     model: GEMINI_MODEL_TEXT,
-    config: {
-      systemInstruction: 'You are a helpful assistant for finding deals and shopping advice.'
-    }
+    config: chatConfig,
+    history: history.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
   });
   console.log("Chat initialized");
 };
 
-export const sendMessageToChat = async (message: string): Promise<string> => {
+export const resetChat = (): void => {
+  chatInstance = null;
+};
+
+const describeDealsForChat = (deals: Deal[]): string => {
+  if (deals.length === 0) return "No deals are currently shown to the user.";
+  const lines = deals.map(deal =>
+    `- id: ${deal.id} | ${deal.title} | ${formatMoney(deal.discountedPrice, 'en-US')} (was ${formatMoney(deal.originalPrice, 'en-US')}) | ${deal.merchant} | ${deal.category}`
+  );
+  return `Deals currently shown to the user:\n${lines.join('\n')}`;
+};
+
+export const sendMessageToChat = async (message: string, options: RequestOptions = {}): Promise<string> => {
   if (!chatInstance) {
     startChat(); 
-    if (!chatInstance) return "Chat not available. API Key might be missing.";
+    if (!chatInstance) return replyToDemoChat(message, [], undefined, options.locale);
   }
   try {
-    const response: GenerateContentResponse = await chatInstance.sendMessage({ message: message });
-    return response.text;
+    const chat = chatInstance;
+    const response: GenerateContentResponse = await callGemini(() => chat.sendMessage({ message: message }), options);
+    return response.text ?? '';
   } catch (error) {
     console.error("Error sending chat message:", error);
-    return "Error communicating with chat AI.";
+    return translate(options.locale ?? DEFAULT_LOCALE, 'ai.chatFailed');
   }
 };
 
-export const generateMockPriceHistory = (basePriceStr: string): PriceDataPoint[] => {
-  const basePrice = parseFloat(basePriceStr?.replace('$', ''));
-  if (isNaN(basePrice)) return [];
-  const history: PriceDataPoint[] = [];
-  const today = new Date();
-  for (let i = 6; i >= 0; i--) {
-    const date = new Date(today);
-    date.setDate(today.getDate() - i * 7); 
-    const priceFluctuation = (Math.random() - 0.3) * (basePrice * 0.2); 
-    let price = basePrice + priceFluctuation;
-    if (i === 0) price = basePrice; 
-    history.push({
-      date: date.toISOString().split('T')[0],
-      price: parseFloat(price.toFixed(2)),
-    });
+/**
+ * Streams the reply to `message`, calling `onText` with the accumulated reply after every chunk.
+ * The currently displayed deals are sent along with each message so the model can compare and reference them.
+ * When the model calls a tool, `executeTool` runs it and its result is sent back so the model can continue,
+ * for at most MAX_CHAT_TOOL_ROUNDS round trips. Without `executeTool` the reply ends at the first tool call.
+ * Resolves to the full reply text; failures resolve to a user-facing error message, like sendMessageToChat,
+ * and aborting `options.signal` resolves to the text received so far. Without an API key the offline demo assistant answers.
+ */
+export const sendMessageToChatStream = async (
+  message: string,
+  displayedDeals: Deal[],
+  onText: (textSoFar: string) => void,
+  history: ChatMessage[] = [],
+  executeTool?: (call: ChatToolCall) => Promise<Record<string, unknown>>,
+  options: RequestOptions = {}
+): Promise<string> => {
+  if (!chatInstance) {
+    startChat(history);
+    if (!chatInstance) {
+      // Offline demo mode answers the common questions with canned replies.
+      const reply = await replyToDemoChat(message, displayedDeals, executeTool, options.locale);
+      onText(reply);
+      return reply;
+    }
+  }
+  const chat = chatInstance;
+  let text = '';
+  try {
+    let pending: PartListUnion = `${describeDealsForChat(displayedDeals)}\n\nUser question: ${message}`;
+    for (let round = 0; round <= MAX_CHAT_TOOL_ROUNDS; round++) {
+      // A per-message config replaces the chat's own, so the tools and instructions are passed again.
+      const request = { message: pending, config: { ...chatConfig, abortSignal: options.signal } };
+      const stream = await callGemini(() => chat.sendMessageStream(request), options);
+      const calls: FunctionCall[] = [];
+      for await (const chunk of stream) {
+        text += chunk.text ?? '';
+        calls.push(...(chunk.functionCalls ?? []));
+        onText(text);
+      }
+      if (calls.length === 0 || !executeTool || round === MAX_CHAT_TOOL_ROUNDS) break;
+      // Run calls one at a time: a search followed by "add the cheapest to my watchlist" depends on the order.
+      const responses: Part[] = [];
+      for (const call of calls) {
+        const response = await executeTool({ name: call.name ?? '', args: call.args ?? {} });
+        responses.push({ functionResponse: { id: call.id, name: call.name, response } });
+      }
+      pending = responses;
+    }
+    return text;
+  } catch (error) {
+    if (isAbortError(error)) return text;
+    console.error("Error streaming chat message:", error);
+    return translate(options.locale ?? DEFAULT_LOCALE, 'ai.chatFailed');
   }
-  return history;
 };
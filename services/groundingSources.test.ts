@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { Deal, GroundingMetadata } from '../types';
+import { attributeDealSources, isSafeUrl, mergeSourceRefs } from './groundingSources';
+import { parseMoney } from './money';
+
+const makeDeal = (id: string, title: string, description: string): Deal => ({
+  id,
+  title,
+  description,
+  originalPrice: parseMoney('$399.99'),
+  discountedPrice: parseMoney('$299.99'),
+  merchant: 'BestBuy',
+  category: 'Electronics',
+});
+
+const headphones = makeDeal('deal-headphones', 'Sony WH-1000XM5 Headphones', 'Industry-leading noise cancellation, now $100 off.');
+const laptop = makeDeal('deal-laptop', 'Dell XPS 13 Laptop', 'Thin and light laptop with a 13.4" display.');
+
+const metadata: GroundingMetadata = {
+  groundingChunks: [
+    { web: { uri: 'https://www.bestbuy.com/sony-xm5', title: 'bestbuy.com' } },
+    { web: { uri: 'javascript:alert(1)', title: 'evil.example' } },
+    { web: { uri: 'https://www.sony.com/xm5', title: 'sony.com' } },
+  ],
+  groundingSupports: [
+    { segment: { text: '"title": "Sony WH-1000XM5 Headphones",' }, groundingChunkIndices: [1, 0] },
+    { segment: { text: 'noise cancellation, now $100 off' }, groundingChunkIndices: [2, 0] },
+    { segment: { text: '"merchant": "BestBuy"' }, groundingChunkIndices: [0] },
+  ],
+};
+
+describe('attributeDealSources', () => {
+  it('collects the chunks whose supports quote the deal and links the first safe one', () => {
+    const [attributed] = attributeDealSources([headphones], metadata);
+    expect(attributed.sourceRefs).toEqual([
+      { uri: 'javascript:alert(1)', title: 'evil.example' },
+      { uri: 'https://www.bestbuy.com/sony-xm5', title: 'bestbuy.com' },
+      { uri: 'https://www.sony.com/xm5', title: 'sony.com' },
+    ]);
+    expect(attributed.sourceUrl).toBe('https://www.bestbuy.com/sony-xm5');
+  });
+
+  it('leaves deals that no support quotes with no sources and no link', () => {
+    const [, attributed] = attributeDealSources([headphones, laptop], metadata);
+    expect(attributed.sourceRefs).toEqual([]);
+    expect(attributed.sourceUrl).toBeUndefined();
+    expect(attributeDealSources([laptop], undefined)[0].sourceRefs).toEqual([]);
+  });
+});
+
+describe('isSafeUrl', () => {
+  it('allows http(s) and relative links only', () => {
+    expect(isSafeUrl('https://example.com/deal')).toBe(true);
+    expect(isSafeUrl('http://example.com')).toBe(true);
+    expect(isSafeUrl('/deals/1')).toBe(true);
+    expect(isSafeUrl('javascript:alert(1)')).toBe(false);
+    expect(isSafeUrl('data:text/html,hi')).toBe(false);
+    expect(isSafeUrl('not a url')).toBe(false);
+  });
+});
+
+describe('mergeSourceRefs', () => {
+  it('combines the references of both reports without repeats', () => {
+    const a = [{ uri: 'https://a.example', title: 'a' }];
+    const b = [{ uri: 'https://a.example', title: 'a again' }, { uri: 'https://b.example', title: 'b' }];
+    expect(mergeSourceRefs(a, b)).toEqual([a[0], b[1]]);
+    expect(mergeSourceRefs(undefined, b)).toBe(b);
+    expect(mergeSourceRefs(undefined, undefined)).toBeUndefined();
+  });
+});
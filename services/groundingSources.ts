@@ -0,0 +1,61 @@
+import { Deal, DealSourceRef, GroundingChunk, GroundingMetadata } from '../types';
+
+// Ties the search results behind a grounded response to the individual deals they back.
+
+const ALLOWED_SCHEMES = ['http:', 'https:'];
+
+// Shorter matches ("Sony", "$199") say nothing about which deal a segment belongs to.
+const MIN_MATCH_LENGTH = 12;
+
+/** True for http(s) URLs and relative paths; anything else (javascript:, data:, malformed) must not become a link. */
+export const isSafeUrl = (uri: string): boolean => {
+  if (uri.startsWith('/')) return true;
+  try {
+    return ALLOWED_SCHEMES.includes(new URL(uri).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Segments are slices of the raw JSON response, so key names are dropped before comparing with the deal's text.
+const normalizeText = (text: string): string =>
+  text.replace(/"[A-Za-z]+"\s*:/g, ' ').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const refOf = (chunk: GroundingChunk | undefined): DealSourceRef | null => {
+  const source = chunk?.web ?? chunk?.retrievedContext;
+  if (!source?.uri) return null;
+  return { uri: source.uri, title: source.title || source.uri };
+};
+
+const backsDeal = (segment: string, deal: Deal): boolean =>
+  [deal.title, deal.description].map(normalizeText).some(field =>
+    (field.length >= MIN_MATCH_LENGTH && segment.includes(field)) || (segment.length >= MIN_MATCH_LENGTH && field.includes(segment)));
+
+/**
+ * Sets `sourceRefs` on every deal to the grounding chunks whose supports quote its title or description,
+ * and `sourceUrl` to the first of them that is safe to link to. Deals no support quotes get an empty `sourceRefs`.
+ */
+export const attributeDealSources = (deals: Deal[], metadata: GroundingMetadata | undefined): Deal[] => {
+  const chunks = metadata?.groundingChunks ?? [];
+  const supports = (metadata?.groundingSupports ?? [])
+    .map(support => ({ segment: normalizeText(support.segment?.text ?? ''), chunkIndices: support.groundingChunkIndices ?? [] }))
+    .filter(support => support.segment && support.chunkIndices.length > 0);
+
+  return deals.map(deal => {
+    const sourceRefs: DealSourceRef[] = [];
+    supports.filter(support => backsDeal(support.segment, deal)).forEach(support => {
+      support.chunkIndices.forEach(index => {
+        const ref = refOf(chunks[index]);
+        if (ref && !sourceRefs.some(existing => existing.uri === ref.uri)) sourceRefs.push(ref);
+      });
+    });
+    const sourceUrl = sourceRefs.find(ref => isSafeUrl(ref.uri))?.uri;
+    return { ...deal, sourceRefs, ...(sourceUrl ? { sourceUrl } : {}) };
+  });
+};
+
+/** Source references of two reports of the same product, without repeats; undefined when neither was grounded. */
+export const mergeSourceRefs = (a: DealSourceRef[] | undefined, b: DealSourceRef[] | undefined): DealSourceRef[] | undefined => {
+  if (!a || !b) return a ?? b;
+  return [...a, ...b.filter(ref => !a.some(existing => existing.uri === ref.uri))];
+};
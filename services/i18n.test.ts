@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { describeLocaleForPrompt, formatDate, matchLocale, translate } from './i18n';
+import { formatAmount } from './money';
+
+describe('translate', () => {
+  it('fills in parameters and picks the plural form by count', () => {
+    expect(translate('en-US', 'filters.showing', { shown: 1, count: 1 })).toBe('Showing 1 of 1 deal');
+    expect(translate('en-US', 'filters.showing', { shown: 2, count: 5 })).toBe('Showing 2 of 5 deals');
+    expect(translate('de-DE', 'filters.showing', { shown: 2, count: 5 })).toBe('2 von 5 Angeboten');
+    expect(translate('de-DE', 'verify.merchant')).toBe('Händler: {merchant}');
+  });
+});
+
+describe('locale formatting', () => {
+  it('formats prices and calendar days the way the locale writes them', () => {
+    expect(formatAmount(1299.5, 'EUR', 'de-DE')).toBe('1.299,50 €');
+    expect(formatAmount(1299.5, 'USD', 'en-US')).toBe('$1,299.50');
+    expect(formatDate('2024-03-01', 'de-DE')).toBe('01.03.2024');
+    expect(formatDate('2024-03-01', 'en-US')).toBe('Mar 1, 2024');
+  });
+});
+
+describe('matchLocale', () => {
+  it('falls back from a regional variant to its language, then to English', () => {
+    expect(matchLocale(['de-AT', 'en'])).toBe('de-DE');
+    expect(matchLocale(['fr-FR'])).toBe('en-US');
+  });
+});
+
+describe('describeLocaleForPrompt', () => {
+  it('asks for the language and regional currency, and adds nothing for English', () => {
+    expect(describeLocaleForPrompt('de-DE')).toContain('in German');
+    expect(describeLocaleForPrompt('de-DE')).toContain('prices in EUR');
+    expect(describeLocaleForPrompt('en-US')).toBe('');
+  });
+});
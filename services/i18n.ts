@@ -0,0 +1,81 @@
+import { LocaleCode, LocaleInfo, Message, MessageParams } from '../types';
+import { DEFAULT_LOCALE, LOCALE_STORAGE_KEY, SUPPORTED_LOCALES } from '../constants';
+import { en } from '../locales/en';
+import { de } from '../locales/de';
+import { readJson, writeJson } from './storage';
+
+// UI translation and locale-aware formatting. Message catalogs live in locales/; English is the source of the keys.
+
+export type MessageKey = keyof typeof en;
+
+const CATALOGS: Record<LocaleCode, Record<MessageKey, Message>> = {
+  'en-US': en,
+  'de-DE': de,
+};
+
+const isLocaleCode = (value: unknown): value is LocaleCode => SUPPORTED_LOCALES.some(locale => locale.code === value);
+
+export const getLocaleInfo = (locale: LocaleCode): LocaleInfo =>
+  SUPPORTED_LOCALES.find(info => info.code === locale) ?? SUPPORTED_LOCALES[0];
+
+/** The first supported locale matching a browser language ("de-AT" and "de" both pick German). */
+export const matchLocale = (languages: readonly string[]): LocaleCode => {
+  for (const language of languages) {
+    const exact = SUPPORTED_LOCALES.find(locale => locale.code.toLowerCase() === language.toLowerCase());
+    if (exact) return exact.code;
+    const sameLanguage = SUPPORTED_LOCALES.find(locale => locale.code.split('-')[0] === language.split('-')[0].toLowerCase());
+    if (sameLanguage) return sameLanguage.code;
+  }
+  return DEFAULT_LOCALE;
+};
+
+/** The locale chosen earlier, else the browser's. */
+export const loadLocale = (): LocaleCode => {
+  const stored = readJson<unknown>(LOCALE_STORAGE_KEY, null);
+  if (isLocaleCode(stored)) return stored;
+  return typeof navigator === 'undefined' ? DEFAULT_LOCALE : matchLocale(navigator.languages ?? [navigator.language]);
+};
+
+export const saveLocale = (locale: LocaleCode): void => writeJson(LOCALE_STORAGE_KEY, locale);
+
+const pluralRules = new Map<LocaleCode, Intl.PluralRules>();
+
+const pluralCategory = (locale: LocaleCode, count: number): string => {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules.select(count);
+};
+
+/** The message in `locale` with its `{name}` parameters filled in. Unknown parameters are left as written. */
+export const translate = (locale: LocaleCode, key: MessageKey, params: MessageParams = {}): string => {
+  const message = CATALOGS[locale]?.[key] ?? en[key];
+  const text = typeof message === 'string'
+    ? message
+    : pluralCategory(locale, Number(params.count ?? 0)) === 'one' ? message.one : message.other;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder);
+};
+
+export const formatNumber = (value: number, locale: LocaleCode, maximumFractionDigits = 0): string =>
+  new Intl.NumberFormat(locale, { maximumFractionDigits }).format(value);
+
+// "2024-05-01" is a calendar day (as in price histories), not midnight UTC, so it must not shift with the time zone.
+const toDate = (value: string | number | Date): Date => {
+  const day = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  return day ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3])) : new Date(value);
+};
+
+export const formatDate = (value: string | number | Date, locale: LocaleCode): string =>
+  new Intl.DateTimeFormat(locale, { dateStyle: 'medium' }).format(toDate(value));
+
+export const formatDateTime = (value: string | number | Date, locale: LocaleCode): string =>
+  new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(toDate(value));
+
+/** Prompt instruction for the model's language and, unless the search location says otherwise, its currency. Empty for English. */
+export const describeLocaleForPrompt = (locale: LocaleCode | undefined): string => {
+  if (!locale || locale === DEFAULT_LOCALE) return '';
+  const { language, currency } = getLocaleInfo(locale);
+  return `Write all text meant for the user in ${language}; keep JSON keys, enum values and ids in English. Unless the location calls for another currency, give prices in ${currency}.`;
+};
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { createJsonObjectScanner, scanJsonObjects } from './jsonScanner';
+
+describe('JSON object scanner', () => {
+  it('emits each object once it is complete, across chunk boundaries', () => {
+    const scanner = createJsonObjectScanner();
+    expect(scanner.push('```json\n[{"title": "Lap')).toEqual([]);
+    expect(scanner.push('top", "price": "$700"}, {"title": "Mo')).toEqual([{ title: 'Laptop', price: '$700' }]);
+    expect(scanner.push('use", "tags": {"a": 1}}]\n```')).toEqual([{ title: 'Mouse', tags: { a: 1 } }]);
+  });
+
+  it('ignores braces and escaped quotes inside strings', () => {
+    const text = '[{"title": "Set {of 3}", "note": "a \\"quoted} brace"}, {"title": "Next"}]';
+    expect(scanJsonObjects(text)).toEqual([{ title: 'Set {of 3}', note: 'a "quoted} brace' }, { title: 'Next' }]);
+  });
+
+  it('skips malformed objects and keeps going', () => {
+    expect(scanJsonObjects('{"title": "Broken",}, {"title": "Fine"}')).toEqual([{ title: 'Fine' }]);
+  });
+});
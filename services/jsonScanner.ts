@@ -0,0 +1,61 @@
+// Finds complete top-level JSON objects in text that arrives in pieces, such as a streamed JSON array of deals.
+// Brace depth is tracked outside string literals only, so braces inside titles or descriptions do not count.
+// Anything between objects (array brackets, commas, code fences, prose) is skipped.
+
+export interface JsonObjectScanner {
+  push: (chunk: string) => unknown[]; // The objects completed by this chunk, in order
+}
+
+export const createJsonObjectScanner = (): JsonObjectScanner => {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  return {
+    push: (chunk) => {
+      buffer += chunk;
+      const objects: unknown[] = [];
+      for (; position < buffer.length; position++) {
+        const char = buffer[position];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === '\\') escaped = true;
+          else if (char === '"') inString = false;
+          continue;
+        }
+        if (char === '"' && depth > 0) {
+          inString = true;
+        } else if (char === '{') {
+          if (depth === 0) start = position;
+          depth++;
+        } else if (char === '}' && depth > 0) {
+          depth--;
+          if (depth === 0) {
+            try {
+              objects.push(JSON.parse(buffer.slice(start, position + 1)));
+            } catch {
+              // Skip a malformed object and keep scanning for the next one
+            }
+            start = -1;
+          }
+        }
+      }
+      // Keep only the unfinished object, if any, for the next chunk.
+      if (depth === 0) {
+        buffer = '';
+        position = 0;
+      } else {
+        buffer = buffer.slice(start);
+        position -= start;
+        start = 0;
+      }
+      return objects;
+    },
+  };
+};
+
+/** Every complete top-level object in `text`. */
+export const scanJsonObjects = (text: string): unknown[] => createJsonObjectScanner().push(text);
@@ -0,0 +1,89 @@
+import { Deal, DealProvider, DealSearchOptions, DealSearchResult, UserPreferences } from '../types';
+import { DEFAULT_LOCAL_FEED_URL, IMPORTED_DEALS_STORAGE_KEY, IMPORTED_PROVIDER_ID, LOCAL_FEED_PROVIDER_ID } from '../constants';
+import { parseCsvRecords } from './csv';
+import { readJson, writeJson } from './storage';
+import { validateDeals } from './dealSchema';
+import { excludeShownDeals, fingerprintDeal } from './dealIdentity';
+import { dealDistanceKm } from './locationService';
+
+type FeedFormat = 'json' | 'csv';
+
+const getFeedUrl = (): string => import.meta.env.VITE_LOCAL_DEALS_FEED_URL || DEFAULT_LOCAL_FEED_URL;
+
+const detectFormat = (url: string, contentType: string | null): FeedFormat => {
+  if (contentType?.includes('csv') || /\.csv(\?|#|$)/i.test(url)) return 'csv';
+  return 'json';
+};
+
+// Accepts either a JSON array of deals, a JSON object with a "deals" array, or a CSV file with a header row
+// using the same column names as the Deal fields (title, description, originalPrice, discountedPrice, merchant, category, imageUrl).
+export const parseFeedDeals = (text: string, format: FeedFormat): DealSearchResult => {
+  let records: unknown[];
+  if (format === 'csv') {
+    records = parseCsvRecords(text);
+  } else {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : parsed?.deals;
+    if (!Array.isArray(list)) {
+      throw new Error("Local feed JSON must be an array of deals or an object with a \"deals\" array.");
+    }
+    records = list;
+  }
+  const { deals, report } = validateDeals(records);
+  return { deals: deals.map(deal => ({ ...deal, id: fingerprintDeal(deal) })), validation: report };
+};
+
+const matchesPreferences = (deal: Deal, preferences: UserPreferences): boolean => {
+  if (preferences.categories.length > 0 && !preferences.categories.includes(deal.category)) {
+    return false;
+  }
+  // Stores known to be outside the radius are left out; online deals are available anywhere.
+  const distance = deal.fulfillment === 'in-store' && preferences.radiusKm ? dealDistanceKm(deal, preferences.place?.coordinates) : null;
+  if (distance !== null && distance > preferences.radiusKm!) return false;
+  const keywords = preferences.keywords.toLowerCase().split(/\s+/).filter(Boolean);
+  if (keywords.length === 0) return true;
+  const haystack = `${deal.title} ${deal.description} ${deal.merchant} ${deal.category}`.toLowerCase();
+  return keywords.every(keyword => haystack.includes(keyword));
+};
+
+// Later pages continue through the list by leaving out the deals already shown.
+const searchDealList = (dealList: Deal[], preferences: UserPreferences, options: DealSearchOptions): Deal[] => {
+  const deals = excludeShownDeals(dealList.filter(deal => matchesPreferences(deal, preferences)), options.excludeDeals);
+  return options.maxResults ? deals.slice(0, options.maxResults) : deals;
+};
+
+export const localFeedProvider: DealProvider = {
+  id: LOCAL_FEED_PROVIDER_ID,
+  labelKey: 'providers.localFeed.label',
+  descriptionKey: 'providers.localFeed.description',
+  capabilities: { requiresApiKey: false, searchGrounding: false, generated: false },
+  search: async (preferences: UserPreferences, options: DealSearchOptions = {}) => {
+    const url = getFeedUrl();
+    const response = await fetch(url, { signal: options.signal });
+    if (!response.ok) {
+      throw new Error(`Local deal feed could not be loaded from ${url} (HTTP ${response.status}).`);
+    }
+    const text = await response.text();
+    const { deals: feedDeals, validation } = parseFeedDeals(text, detectFormat(url, response.headers.get('content-type')));
+    return { deals: searchDealList(feedDeals, preferences, options), validation };
+  },
+};
+
+export const loadImportedDeals = (): Deal[] => readJson<Deal[]>(IMPORTED_DEALS_STORAGE_KEY, []);
+
+export const saveImportedDeals = (deals: Deal[]): void => writeJson(IMPORTED_DEALS_STORAGE_KEY, deals);
+
+/** Parses a deal list file the user picked; the format comes from its name or type, as for the feed. */
+export const parseImportedDealFile = (text: string, fileName: string, mimeType: string = ''): DealSearchResult =>
+  parseFeedDeals(text, detectFormat(fileName, mimeType));
+
+// The same kind of list as the local feed, but from a file imported in the browser and kept in localStorage.
+export const importedDealsProvider: DealProvider = {
+  id: IMPORTED_PROVIDER_ID,
+  labelKey: 'providers.imported.label',
+  descriptionKey: 'providers.imported.description',
+  capabilities: { requiresApiKey: false, searchGrounding: false, generated: false },
+  search: async (preferences: UserPreferences, options: DealSearchOptions = {}) => ({
+    deals: searchDealList(loadImportedDeals(), preferences, options),
+  }),
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { describeSearchLocation, distanceKm, formatLocation, resolveLocation, resolveStoreLocation, withResolvedPlace } from './locationService';
+
+describe('resolveLocation', () => {
+  it('finds cities by name or alias, ignoring case and accents', () => {
+    expect(resolveLocation('bangalore')).toMatchObject({ city: 'Bengaluru', region: 'Karnataka', country: 'India' });
+    expect(resolveLocation('Sao Paulo')?.city).toBe('São Paulo');
+    expect(resolveLocation('Washington D.C.')?.region).toBe('District of Columbia');
+  });
+
+  it('checks a region or country given after the city, but not short abbreviations', () => {
+    expect(resolveLocation('Portland, Oregon')?.city).toBe('Portland');
+    expect(resolveLocation('Portland, Germany')).toBeNull();
+    expect(resolveLocation('Austin, TX')?.city).toBe('Austin');
+    expect(resolveLocation('London, UK')?.country).toBe('United Kingdom');
+  });
+
+  it('resolves regions, countries and coordinates', () => {
+    expect(resolveLocation('Bavaria')).toEqual({ region: 'Bavaria', country: 'Germany' });
+    expect(resolveLocation('USA')).toEqual({ country: 'United States' });
+    expect(resolveLocation('52.5, 13.4')).toMatchObject({ city: 'Berlin', coordinates: { lat: 52.5, lon: 13.4 } });
+    expect(resolveLocation('0, 0')).toEqual({ coordinates: { lat: 0, lon: 0 } });
+    expect(resolveLocation('Online')).toBeNull();
+  });
+});
+
+describe('distances', () => {
+  it('measures great-circle distances', () => {
+    const berlin = resolveLocation('Berlin')!.coordinates!;
+    const munich = resolveLocation('Munich')!.coordinates!;
+    expect(distanceKm(berlin, munich)).toBeGreaterThan(495);
+    expect(distanceKm(berlin, munich)).toBeLessThan(510);
+  });
+
+  it('places a store from the city in its address', () => {
+    expect(resolveStoreLocation('Alexanderplatz 9, Berlin').coordinates).toEqual({ lat: 52.52, lon: 13.405 });
+    expect(resolveStoreLocation('Main Street 1, Springfield')).toEqual({ label: 'Main Street 1, Springfield' });
+  });
+});
+
+describe('describeSearchLocation', () => {
+  it('names the resolved place and the radius around it', () => {
+    const preferences = withResolvedPlace({ keywords: '', categories: [], location: 'munchen', radiusKm: 25 });
+    expect(formatLocation(preferences.place!)).toBe('Munich, Bavaria, Germany');
+    expect(describeSearchLocation(preferences)).toBe('"Munich, Bavaria, Germany" (within 25 km of 48.135, 11.582)');
+    expect(describeSearchLocation({ keywords: '', categories: [], location: 'Springfield' })).toBe('"Springfield"');
+  });
+});
@@ -0,0 +1,131 @@
+import { Deal, GazetteerPlace, GeoPoint, StoreLocation, StructuredLocation, UserPreferences } from '../types';
+import { NEAREST_PLACE_MAX_KM } from '../constants';
+import { GAZETTEER } from '../data/gazetteer';
+
+// Locations typed by the user or given for stores, resolved offline against the bundled gazetteer; no geocoding API is called.
+
+const EARTH_RADIUS_KM = 6371;
+
+// "52.52, 13.405" or "52.52 13.405"
+const COORDINATES_PATTERN = /^(-?\d{1,2}(?:\.\d+)?)\s*[,;\s]\s*(-?\d{1,3}(?:\.\d+)?)$/;
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  'us': 'United States',
+  'usa': 'United States',
+  'united states of america': 'United States',
+  'uk': 'United Kingdom',
+  'great britain': 'United Kingdom',
+  'uae': 'United Arab Emirates',
+};
+
+// "São Paulo" and "sao paulo", "Washington D.C." and "washington dc" are the same name.
+const normalizeName = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/\./g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const cityNames = (place: GazetteerPlace): string[] => [place.city, ...place.aliases].map(normalizeName);
+
+const countryOf = (name: string): string | undefined =>
+  COUNTRY_ALIASES[name] ?? GAZETTEER.find(place => normalizeName(place.country) === name)?.country;
+
+const toStructured = (place: GazetteerPlace): StructuredLocation => ({
+  city: place.city,
+  region: place.region,
+  country: place.country,
+  coordinates: place.coordinates,
+});
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/** Great-circle (haversine) distance between two points. */
+export const distanceKm = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const nearestPlace = (point: GeoPoint): GazetteerPlace | null => {
+  let nearest: GazetteerPlace | null = null;
+  let nearestDistance = NEAREST_PLACE_MAX_KM;
+  for (const place of GAZETTEER) {
+    const distance = distanceKm(point, place.coordinates);
+    if (distance <= nearestDistance) {
+      nearest = place;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+};
+
+// A qualifier after the city ("Portland, Oregon") has to name its region or country; short abbreviations ("TX") are not checked.
+const matchesQualifier = (place: GazetteerPlace, qualifier: string): boolean =>
+  qualifier.length <= 3 && !COUNTRY_ALIASES[qualifier]
+    ? true
+    : [place.region, place.country].map(normalizeName).includes(qualifier) || countryOf(qualifier) === place.country;
+
+/**
+ * Resolves "Berlin", "Portland, Oregon", "Bangalore, India", "52.52, 13.40", a region or a country name.
+ * Coordinates get the name of the gazetteer city they are in, if any. Null when nothing matches.
+ */
+export const resolveLocation = (text: string): StructuredLocation | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const coordinateMatch = COORDINATES_PATTERN.exec(trimmed);
+  if (coordinateMatch) {
+    const coordinates = { lat: Number(coordinateMatch[1]), lon: Number(coordinateMatch[2]) };
+    if (Math.abs(coordinates.lat) > 90 || Math.abs(coordinates.lon) > 180) return null;
+    const nearest = nearestPlace(coordinates);
+    return nearest ? { ...toStructured(nearest), coordinates } : { coordinates };
+  }
+
+  const [name, ...qualifiers] = trimmed.split(',').map(normalizeName).filter(Boolean);
+  if (!name) return null;
+  const city = GAZETTEER.find(place => cityNames(place).includes(name) && qualifiers.every(qualifier => matchesQualifier(place, qualifier)));
+  if (city) return toStructured(city);
+  if (qualifiers.length > 0) return null;
+
+  const region = GAZETTEER.find(place => normalizeName(place.region) === name);
+  if (region) return { region: region.region, country: region.country };
+  const country = countryOf(name);
+  return country ? { country } : null;
+};
+
+/** The first part of a store address that names a gazetteer city ("Alexanderplatz 9, Berlin" is in Berlin). */
+export const resolveStoreLocation = (label: string): StoreLocation => {
+  const parts = label.split(',').map(normalizeName).filter(Boolean);
+  const place = parts.map(part => GAZETTEER.find(candidate => cityNames(candidate).includes(part))).find(Boolean);
+  return place ? { label, coordinates: place.coordinates } : { label };
+};
+
+/** "Berlin, Germany", "Portland, Oregon, United States", or the coordinates when no name is known. */
+export const formatLocation = (location: StructuredLocation): string => {
+  const names = [location.city, location.region, location.country].filter((name, index, all): name is string => !!name && all.indexOf(name) === index);
+  if (names.length > 0) return names.join(', ');
+  return location.coordinates ? `${location.coordinates.lat.toFixed(3)}, ${location.coordinates.lon.toFixed(3)}` : '';
+};
+
+/** Gazetteer entries as they would be typed, for the location suggestions. */
+export const listPlaceNames = (): string[] => GAZETTEER.map(place => formatLocation(toStructured(place)));
+
+/** `preferences` with `place` set from the typed location. */
+export const withResolvedPlace = (preferences: UserPreferences): UserPreferences => ({
+  ...preferences,
+  place: resolveLocation(preferences.location) ?? undefined,
+});
+
+/** Distance from the search location to the deal's store; null when either is unknown. */
+export const dealDistanceKm = (deal: Deal, origin: GeoPoint | undefined): number | null => {
+  const store = deal.storeLocation?.coordinates;
+  return origin && store ? distanceKm(origin, store) : null;
+};
+
+/** The search location for prompts, e.g. `"Berlin, Germany" (within 25 km of 52.520, 13.405)`. */
+export const describeSearchLocation = (preferences: UserPreferences): string => {
+  const location = preferences.location.trim();
+  if (!location) return '';
+  const name = preferences.place ? formatLocation(preferences.place) || location : location;
+  const coordinates = preferences.place?.coordinates;
+  const center = coordinates ? ` of ${coordinates.lat.toFixed(3)}, ${coordinates.lon.toFixed(3)}` : '';
+  return preferences.radiusKm ? `"${name}" (within ${preferences.radiusKm} km${center})` : `"${name}"`;
+};
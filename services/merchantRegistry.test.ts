@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { findMerchantRecord, lookupMerchant, setMerchantOverride } from './merchantRegistry';
+
+describe('merchant registry', () => {
+  it('finds merchants by alias, spelling variant or domain', () => {
+    expect(findMerchantRecord('BestBuy')?.id).toBe('bestbuy');
+    expect(findMerchantRecord('best buy')?.id).toBe('bestbuy');
+    expect(findMerchantRecord('https://www.amazon.co.uk/deals')?.id).toBe('amazon');
+    expect(findMerchantRecord('Corner Gadget Shop')).toBeUndefined();
+  });
+
+  it('flags or hides merchants matching scam patterns', () => {
+    expect(lookupMerchant('amaz0n-deals.com', {})).toMatchObject({ tier: 'blocked', source: 'blocklist', hidden: true });
+    expect(lookupMerchant('sneaker-outlet-store.xyz', {})).toMatchObject({ tier: 'suspicious', hidden: false, flags: ['Uses a throwaway "outlet store" domain'] });
+    expect(lookupMerchant('Amazon', {})).toMatchObject({ tier: 'trusted', source: 'registry', flags: [] });
+  });
+
+  it('blocks and warns about known bad merchants in the registry', () => {
+    expect(lookupMerchant('https://www.megadeal-liquidators.top/sale', {})).toMatchObject({ key: 'megadeal-liquidators', tier: 'blocked', source: 'registry', hidden: true });
+    expect(lookupMerchant('Luxe Brands Direct', {})).toMatchObject({ tier: 'blocked', hidden: true });
+    expect(lookupMerchant('quickshipgadgets.store', {})).toMatchObject({ tier: 'suspicious', source: 'registry', hidden: false });
+  });
+
+  it("lets the user's verdict override the registry and clear it again", () => {
+    const blocked = setMerchantOverride({}, 'walmart', 'blocked');
+    expect(lookupMerchant('Walmart.com', blocked)).toMatchObject({ tier: 'blocked', source: 'user', hidden: true });
+
+    const trusted = setMerchantOverride({}, 'cornergadgetshop', 'trusted');
+    expect(lookupMerchant('Corner Gadget Shop', trusted)).toMatchObject({ key: 'cornergadgetshop', tier: 'trusted', source: 'user' });
+
+    expect(setMerchantOverride(blocked, 'walmart', undefined)).toEqual({});
+  });
+});
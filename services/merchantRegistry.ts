@@ -0,0 +1,77 @@
+import { MerchantOverrides, MerchantRecord, MerchantReputation, ScamPattern } from '../types';
+import { MERCHANT_OVERRIDES_STORAGE_KEY } from '../constants';
+import { MERCHANT_REGISTRY, SCAM_PATTERNS } from '../data/merchants';
+import { readJson, writeJson } from './storage';
+
+export const loadMerchantOverrides = (): MerchantOverrides => readJson<MerchantOverrides>(MERCHANT_OVERRIDES_STORAGE_KEY, {});
+
+export const saveMerchantOverrides = (overrides: MerchantOverrides): void => writeJson(MERCHANT_OVERRIDES_STORAGE_KEY, overrides);
+
+// "https://www.BestBuy.com/deals" -> "bestbuy.com"; plain names are just lower-cased.
+const normalizeMerchant = (merchant: string): string =>
+  merchant.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+
+// "Best Buy", "BestBuy" and "bestbuy" all compact to "bestbuy".
+const compact = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const findMerchantRecord = (merchant: string, registry: MerchantRecord[] = MERCHANT_REGISTRY): MerchantRecord | undefined => {
+  const normalized = normalizeMerchant(merchant);
+  if (!normalized) return undefined;
+  const compacted = compact(normalized);
+  return registry.find(record =>
+    [record.name, ...record.aliases].some(name => compact(name) === compacted) ||
+    record.domains.some(domain => normalized === domain || normalized.endsWith(`.${domain}`))
+  );
+};
+
+const matchScamPatterns = (merchant: string, patterns: ScamPattern[]): ScamPattern[] => {
+  const normalized = normalizeMerchant(merchant);
+  return patterns.filter(pattern => {
+    try {
+      return new RegExp(pattern.pattern, 'i').test(normalized);
+    } catch {
+      console.warn(`Ignoring invalid scam pattern "${pattern.id}".`);
+      return false;
+    }
+  });
+};
+
+/**
+ * What is known about a merchant. The user's own verdict wins over the bundled registry,
+ * which wins over the scam patterns; pattern matches are still listed as flags either way.
+ */
+export const lookupMerchant = (merchant: string, overrides: MerchantOverrides = loadMerchantOverrides()): MerchantReputation => {
+  const record = findMerchantRecord(merchant);
+  const key = record?.id ?? compact(normalizeMerchant(merchant));
+  const name = record?.name ?? merchant.trim();
+  const matched = record ? [] : matchScamPatterns(merchant, SCAM_PATTERNS);
+  const flags = matched.map(pattern => pattern.description);
+
+  const override = key ? overrides[key] : undefined;
+  if (override) {
+    return { key, name, tier: override, source: 'user', notes: record?.notes, flags, hidden: override === 'blocked' };
+  }
+  if (record) {
+    return { key, name, tier: record.tier, source: 'registry', notes: record.notes, flags, hidden: record.tier === 'blocked' };
+  }
+  if (matched.length > 0) {
+    const hidden = matched.some(pattern => pattern.action === 'hide');
+    return { key, name, tier: hidden ? 'blocked' : 'suspicious', source: 'blocklist', flags, hidden };
+  }
+  return { key, name, tier: 'unknown', source: 'none', flags, hidden: false };
+};
+
+// Records (or with `tier` undefined, clears) the user's verdict on a merchant.
+export const setMerchantOverride = (
+  overrides: MerchantOverrides,
+  key: string,
+  tier: 'trusted' | 'blocked' | undefined
+): MerchantOverrides => {
+  const next = { ...overrides };
+  if (tier) {
+    next[key] = tier;
+  } else {
+    delete next[key];
+  }
+  return next;
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { parseMoney, formatMoney, discountPercentage, savingsAmount } from './money';
+
+describe('parseMoney', () => {
+  it.each([
+    ['$100.00', 100, 'USD'],
+    ['1,299.99', 1299.99, 'USD'],
+    ['€1.299,00', 1299, 'EUR'],
+    ['USD 40', 40, 'USD'],
+    ['40 EUR', 40, 'EUR'],
+    ['£19.5', 19.5, 'GBP'],
+    ['1 299,50 €', 1299.5, 'EUR'],
+    ['CA$ 1,050', 1050, 'CAD'],
+  ])('parses %s', (raw, amount, currency) => {
+    expect(parseMoney(raw)).toEqual({ amount, currency, raw });
+  });
+
+  it('keeps unparseable text as raw with no amount', () => {
+    expect(parseMoney('Price varies')).toEqual({ amount: null, currency: null, raw: 'Price varies' });
+    expect(parseMoney(undefined)).toEqual({ amount: null, currency: null, raw: '' });
+  });
+
+  it('does not read ordinary words as currency codes', () => {
+    expect(parseMoney('$49.99 - try it today').currency).toBe('USD');
+    expect(parseMoney('€12 rub-on tattoo').currency).toBe('EUR');
+  });
+
+  it('accepts plain numbers', () => {
+    expect(parseMoney(19.99)).toEqual({ amount: 19.99, currency: 'USD', raw: '19.99' });
+  });
+});
+
+describe('discountPercentage', () => {
+  it('computes the discount for prices in the same currency', () => {
+    expect(discountPercentage(parseMoney('€1.299,00'), parseMoney('€999,00'))).toBe(23);
+  });
+
+  it('returns null when prices are missing, not a discount or in different currencies', () => {
+    expect(discountPercentage(parseMoney('Price varies'), parseMoney('$10'))).toBeNull();
+    expect(discountPercentage(parseMoney('$10'), parseMoney('$12'))).toBeNull();
+    expect(discountPercentage(parseMoney('£100'), parseMoney('$80'))).toBeNull();
+  });
+});
+
+describe('savingsAmount', () => {
+  it('is the amount saved, or null when there is no comparable discount', () => {
+    expect(savingsAmount(parseMoney('$399.99'), parseMoney('$299.50'))).toBe(100.49);
+    expect(savingsAmount(parseMoney('£100'), parseMoney('$80'))).toBeNull();
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats parsed prices with their currency and falls back to the raw text', () => {
+    expect(formatMoney(parseMoney('USD 40'), 'en-US')).toBe('$40.00');
+    expect(formatMoney(parseMoney('Price varies'), 'en-US')).toBe('Price varies');
+  });
+});
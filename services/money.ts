@@ -0,0 +1,119 @@
+import { Money } from '../types';
+import { DEFAULT_CURRENCY } from '../constants';
+
+// Longest symbols first so "US$" wins over "$".
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'],
+  ['CA$', 'CAD'],
+  ['C$', 'CAD'],
+  ['A$', 'AUD'],
+  ['AU$', 'AUD'],
+  ['NZ$', 'NZD'],
+  ['R$', 'BRL'],
+  ['HK$', 'HKD'],
+  ['$', 'USD'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['₩', 'KRW'],
+  ['₽', 'RUB'],
+  ['₺', 'TRY'],
+  ['zł', 'PLN'],
+];
+
+const CURRENCY_CODES = new Set([
+  'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'CAD', 'AUD', 'NZD', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN',
+  'CZK', 'HUF', 'BRL', 'MXN', 'ARS', 'ZAR', 'KRW', 'SGD', 'HKD', 'TRY', 'RUB', 'AED', 'SAR', 'ILS',
+]);
+
+// Only uppercase, so ordinary words such as "try" or "rub" are not read as TRY or RUB.
+const ISO_CODE_REGEX = /\b[A-Z]{3}\b/g;
+const NUMBER_REGEX = /\d[\d.,'\s\u00a0\u202f]*/;
+
+const detectCurrency = (text: string): string | null => {
+  const code = (text.match(ISO_CODE_REGEX) ?? []).find(c => CURRENCY_CODES.has(c));
+  if (code) return code;
+  for (const [symbol, code] of CURRENCY_SYMBOLS) {
+    if (text.includes(symbol)) return code;
+  }
+  return null;
+};
+
+/**
+ * Parses the numeric part of a price written in either the "1,299.99" (en) or "1.299,99" (de/fr/es) convention.
+ * When both separators appear, the last one is the decimal separator. A single separator followed by exactly
+ * three digits ("1,299" / "1.299") is read as a thousands separator, anything else as a decimal point.
+ */
+const parseAmount = (numberText: string): number | null => {
+  const compact = numberText.replace(/[\s\u00a0\u202f']/g, '').replace(/[.,]+$/, '');
+  if (!compact) return null;
+
+  const lastDot = compact.lastIndexOf('.');
+  const lastComma = compact.lastIndexOf(',');
+  let normalized: string;
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    const decimalSeparator = lastDot > lastComma ? '.' : ',';
+    const thousandsSeparator = decimalSeparator === '.' ? ',' : '.';
+    normalized = compact.split(thousandsSeparator).join('').replace(decimalSeparator, '.');
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const parts = compact.split(separator);
+    const isThousandsGrouping = parts.length > 2 || parts[parts.length - 1].length === 3;
+    normalized = isThousandsGrouping ? parts.join('') : parts.join('.');
+  } else {
+    normalized = compact;
+  }
+
+  const amount = parseFloat(normalized);
+  return isNaN(amount) ? null : amount;
+};
+
+/**
+ * Turns a free-text price from the AI or a feed ("$1,299.99", "€1.299,00", "USD 40", "Price varies") into a Money value.
+ * Amounts without a recognisable currency fall back to `defaultCurrency`; text without a number keeps only `raw`.
+ */
+export const parseMoney = (value: unknown, defaultCurrency: string = DEFAULT_CURRENCY): Money => {
+  if (typeof value === 'number' && isFinite(value)) {
+    return { amount: value, currency: defaultCurrency, raw: String(value) };
+  }
+  const raw = typeof value === 'string' ? value.trim() : '';
+  const numberMatch = raw.match(NUMBER_REGEX);
+  const amount = numberMatch ? parseAmount(numberMatch[0]) : null;
+  if (amount === null) {
+    return { amount: null, currency: null, raw };
+  }
+  return { amount, currency: detectCurrency(raw) ?? defaultCurrency, raw };
+};
+
+export const formatAmount = (amount: number, currency: string | null, locale?: string): string => {
+  if (!currency) {
+    return new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount);
+  }
+  return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+};
+
+// Display text for a price; unparseable prices ("Price varies") are shown as the model wrote them.
+export const formatMoney = (money: Money | undefined, locale?: string): string => {
+  if (!money) return '';
+  if (money.amount === null) return money.raw;
+  return formatAmount(money.amount, money.currency, locale);
+};
+
+export const hasAmount = (money: Money | undefined): money is Money & { amount: number } =>
+  !!money && money.amount !== null;
+
+// Whole-number discount percentage, or null when the prices are missing, in different currencies or not a discount.
+export const discountPercentage = (original: Money | undefined, discounted: Money | undefined): number | null => {
+  if (!hasAmount(original) || !hasAmount(discounted)) return null;
+  if (original.currency !== discounted.currency) return null;
+  if (original.amount <= 0 || discounted.amount >= original.amount) return null;
+  return Math.round(((original.amount - discounted.amount) / original.amount) * 100);
+};
+
+// Amount saved in the deal's currency, or null under the same conditions as discountPercentage.
+export const savingsAmount = (original: Money | undefined, discounted: Money | undefined): number | null => {
+  if (!hasAmount(original) || !hasAmount(discounted) || discountPercentage(original, discounted) === null) return null;
+  return Math.round((original.amount - discounted.amount) * 100) / 100;
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Deal } from '../types';
+import { describeProfileForPrompt, emptyProfile, rankDeals, recordFeedback, scoreDeal } from './preferenceProfile';
+
+const makeDeal = (id: string, title: string, category: string, merchant: string, amount: number): Deal => ({
+  id,
+  title,
+  description: '',
+  originalPrice: { amount: amount * 2, currency: 'USD', raw: `$${amount * 2}` },
+  discountedPrice: { amount, currency: 'USD', raw: `$${amount}` },
+  merchant,
+  category,
+});
+
+const headphones = makeDeal('deal-headphones', 'Sony Wireless Headphones', 'Electronics', 'Best Buy', 199);
+const earbuds = makeDeal('deal-earbuds', 'Sony Wireless Earbuds', 'Electronics', 'Best Buy', 149);
+const blender = makeDeal('deal-blender', 'Ninja Blender', 'Home & Kitchen', 'Target', 89);
+const jacket = makeDeal('deal-jacket', 'Rain Jacket', 'Fashion', 'Macy\'s', 59);
+
+describe('recordFeedback', () => {
+  it('learns category, merchant, price band and keyword affinities from a like', () => {
+    const profile = recordFeedback(emptyProfile(), headphones, true);
+    expect(profile.categories).toEqual({ Electronics: 1 });
+    expect(profile.merchants).toEqual({ 'Best Buy': 1 });
+    expect(profile.priceBands).toEqual({ '100-500': 1 });
+    expect(profile.keywords).toMatchObject({ sony: 1, wireless: 1, headphones: 1 });
+    expect(profile.feedback).toEqual({ 'deal-headphones': true });
+  });
+
+  it('undoes the earlier rating when the user changes their mind or clears it', () => {
+    const liked = recordFeedback(emptyProfile(), headphones, true);
+    const disliked = recordFeedback(liked, headphones, false);
+    expect(disliked.categories).toEqual({ Electronics: -1 });
+    expect(disliked.feedback).toEqual({ 'deal-headphones': false });
+
+    const cleared = recordFeedback(disliked, headphones, undefined);
+    expect(cleared.categories).toEqual({});
+    expect(cleared.keywords).toEqual({});
+    expect(cleared.feedback).toEqual({});
+  });
+});
+
+describe('rankDeals', () => {
+  it('moves deals like the liked ones up and disliked ones down', () => {
+    const profile = recordFeedback(recordFeedback(emptyProfile(), headphones, true), jacket, false);
+    const ranked = rankDeals([jacket, blender, earbuds], profile);
+    expect(ranked.map(deal => deal.id)).toEqual(['deal-earbuds', 'deal-blender', 'deal-jacket']);
+    expect(ranked[0].relevance!.score).toBeGreaterThan(0);
+    expect(ranked[2].relevance!.score).toBeLessThan(0);
+    expect(ranked[2].userLiked).toBe(false);
+  });
+
+  it('keeps the provider order for deals that score the same', () => {
+    const ranked = rankDeals([jacket, blender, earbuds], emptyProfile());
+    expect(ranked.map(deal => deal.id)).toEqual(['deal-jacket', 'deal-blender', 'deal-earbuds']);
+    expect(ranked.every(deal => deal.relevance!.score === 0 && deal.relevance!.reasons.length === 1)).toBe(true);
+  });
+
+  it('weighs categories above merchants and keywords', () => {
+    const profile = recordFeedback(emptyProfile(), headphones, true);
+    const sameCategory = scoreDeal(makeDeal('a', 'Laptop Stand', 'Electronics', 'Walmart', 20), profile).score;
+    const sameMerchant = scoreDeal(makeDeal('b', 'Laptop Stand', 'Fashion', 'Best Buy', 20), profile).score;
+    expect(sameCategory).toBeGreaterThan(sameMerchant);
+  });
+
+  it('explains the ranking in the requested language', () => {
+    const profile = recordFeedback(emptyProfile(), headphones, true);
+    expect(scoreDeal(earbuds, profile).reasons[0]).toBe('You liked 1 deal in Electronics');
+    expect(scoreDeal(earbuds, profile, 'de-DE').reasons).toContain('Dir hat 1 Angebot im Preisbereich 100–500 gefallen');
+  });
+});
+
+describe('describeProfileForPrompt', () => {
+  it('summarises likes and dislikes, and says nothing without ratings', () => {
+    expect(describeProfileForPrompt(emptyProfile())).toBe('');
+    const prompt = describeProfileForPrompt(recordFeedback(recordFeedback(emptyProfile(), headphones, true), jacket, false));
+    expect(prompt).toContain('like categories: Electronics');
+    expect(prompt).toContain('dislike categories: Fashion');
+  });
+});
@@ -0,0 +1,149 @@
+import { Deal, DealRelevance, LocaleCode, Money, PreferenceProfile } from '../types';
+import { DEFAULT_LOCALE, PREFERENCE_PROFILE_STORAGE_KEY } from '../constants';
+import { readJson, writeJson } from './storage';
+import { normalizeTitle } from './dealIdentity';
+import { MessageKey, translate } from './i18n';
+
+// How much each kind of affinity contributes to a deal's relevance score.
+const WEIGHTS = { category: 1.0, merchant: 0.8, priceBand: 0.5, keyword: 0.6 };
+
+const STOPWORDS = new Set(['the', 'and', 'for', 'with', 'from', 'your', 'this', 'that', 'pack', 'set', 'inch']);
+
+// `label` is the key the band is stored under in profiles; `message` is how it is shown.
+const PRICE_BANDS: { label: string; max: number; message: MessageKey }[] = [
+  { label: 'under 25', max: 25, message: 'profile.band.under25' },
+  { label: '25-100', max: 100, message: 'profile.band.25to100' },
+  { label: '100-500', max: 500, message: 'profile.band.100to500' },
+  { label: 'over 500', max: Infinity, message: 'profile.band.over500' },
+];
+
+export const emptyProfile = (): PreferenceProfile => ({
+  categories: {},
+  merchants: {},
+  priceBands: {},
+  keywords: {},
+  feedback: {},
+});
+
+export const loadProfile = (): PreferenceProfile => ({ ...emptyProfile(), ...readJson<Partial<PreferenceProfile>>(PREFERENCE_PROFILE_STORAGE_KEY, {}) });
+
+export const saveProfile = (profile: PreferenceProfile): void => writeJson(PREFERENCE_PROFILE_STORAGE_KEY, profile);
+
+export const feedbackCount = (profile: PreferenceProfile): number => Object.keys(profile.feedback).length;
+
+const findPriceBand = (price: Money) => {
+  if (price.amount === null) return undefined;
+  const amount = price.amount;
+  return PRICE_BANDS.find(band => amount < band.max);
+};
+
+const priceBandOf = (price: Money): string | null => findPriceBand(price)?.label ?? null;
+
+const keywordsOf = (title: string): string[] =>
+  Array.from(new Set(normalizeTitle(title).split(' ').filter(word => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word))));
+
+const adjust = (weights: Record<string, number>, key: string | null, delta: number): Record<string, number> => {
+  if (!key) return weights;
+  const next = { ...weights, [key]: (weights[key] ?? 0) + delta };
+  if (next[key] === 0) delete next[key];
+  return next;
+};
+
+const applyDelta = (profile: PreferenceProfile, deal: Deal, delta: number): PreferenceProfile => ({
+  ...profile,
+  categories: adjust(profile.categories, deal.category, delta),
+  merchants: adjust(profile.merchants, deal.merchant, delta),
+  priceBands: adjust(profile.priceBands, priceBandOf(deal.discountedPrice), delta),
+  keywords: keywordsOf(deal.title).reduce((weights, word) => adjust(weights, word, delta), profile.keywords),
+});
+
+/**
+ * Folds a like (true), dislike (false) or cleared rating (undefined) into the profile.
+ * Any earlier rating of the same deal is undone first, so changing your mind does not double count.
+ */
+export const recordFeedback = (profile: PreferenceProfile, deal: Deal, liked: boolean | undefined): PreferenceProfile => {
+  const previous = profile.feedback[deal.id];
+  let next = previous === undefined ? profile : applyDelta(profile, deal, previous ? -1 : 1);
+  const feedback = { ...next.feedback };
+  if (liked === undefined) {
+    delete feedback[deal.id];
+  } else {
+    next = applyDelta(next, deal, liked ? 1 : -1);
+    feedback[deal.id] = liked;
+  }
+  return { ...next, feedback, updatedAt: new Date().toISOString() };
+};
+
+const describeAffinity = (locale: LocaleCode, weight: number, what: string): string =>
+  translate(locale, weight > 0 ? 'profile.liked' : 'profile.disliked', { count: Math.abs(weight), what });
+
+/** The deal's relevance to the profile, with the "why am I seeing this" reasons written in `locale`. */
+export const scoreDeal = (deal: Deal, profile: PreferenceProfile, locale: LocaleCode = DEFAULT_LOCALE): DealRelevance => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const categoryWeight = profile.categories[deal.category] ?? 0;
+  if (categoryWeight !== 0) {
+    score += WEIGHTS.category * categoryWeight;
+    reasons.push(describeAffinity(locale, categoryWeight, translate(locale, 'profile.inCategory', { category: deal.category })));
+  }
+  const merchantWeight = profile.merchants[deal.merchant] ?? 0;
+  if (merchantWeight !== 0) {
+    score += WEIGHTS.merchant * merchantWeight;
+    reasons.push(describeAffinity(locale, merchantWeight, translate(locale, 'profile.fromMerchant', { merchant: deal.merchant })));
+  }
+  const band = findPriceBand(deal.discountedPrice);
+  const bandWeight = band ? profile.priceBands[band.label] ?? 0 : 0;
+  if (band && bandWeight !== 0) {
+    score += WEIGHTS.priceBand * bandWeight;
+    reasons.push(describeAffinity(locale, bandWeight, translate(locale, 'profile.priced', { band: translate(locale, band.message) })));
+  }
+  const matchedKeywords = keywordsOf(deal.title).filter(word => (profile.keywords[word] ?? 0) !== 0);
+  if (matchedKeywords.length > 0) {
+    const keywordWeight = matchedKeywords.reduce((sum, word) => sum + profile.keywords[word], 0) / matchedKeywords.length;
+    score += WEIGHTS.keyword * keywordWeight;
+    reasons.push(translate(locale, keywordWeight > 0 ? 'profile.matchesLiked' : 'profile.sharesDisliked', { words: matchedKeywords.slice(0, 3).join(', ') }));
+  }
+
+  if (reasons.length === 0) {
+    reasons.push(translate(locale, feedbackCount(profile) === 0 ? 'profile.noRatings' : 'profile.nothingSimilar'));
+  }
+  return { score: Math.round(score * 100) / 100, reasons };
+};
+
+// Stable re-ranking: deals with equal scores keep the order the provider returned them in.
+export const rankDeals = (deals: Deal[], profile: PreferenceProfile, locale: LocaleCode = DEFAULT_LOCALE): Deal[] =>
+  deals
+    .map((deal, index) => ({
+      deal: { ...deal, userLiked: profile.feedback[deal.id], relevance: scoreDeal(deal, profile, locale) },
+      index,
+    }))
+    .sort((a, b) => (b.deal.relevance.score - a.deal.relevance.score) || (a.index - b.index))
+    .map(entry => entry.deal);
+
+const topKeys = (weights: Record<string, number>, sign: 1 | -1, limit: number = 3): string[] =>
+  Object.entries(weights)
+    .filter(([, weight]) => weight * sign > 0)
+    .sort(([, a], [, b]) => (b - a) * sign)
+    .slice(0, limit)
+    .map(([key]) => key);
+
+// A short natural-language summary of the learned profile for the deal generation prompt, or '' when there is nothing to say.
+export const describeProfileForPrompt = (profile: PreferenceProfile): string => {
+  const describe = (sign: 1 | -1): string => {
+    const parts = [
+      ['categories', topKeys(profile.categories, sign)],
+      ['merchants', topKeys(profile.merchants, sign)],
+      ['price ranges', topKeys(profile.priceBands, sign)],
+      ['product keywords', topKeys(profile.keywords, sign, 5)],
+    ] as const;
+    return parts.filter(([, keys]) => keys.length > 0).map(([label, keys]) => `${label}: ${keys.join(', ')}`).join('; ');
+  };
+  const likes = describe(1);
+  const dislikes = describe(-1);
+  if (!likes && !dislikes) return '';
+  let text = "Based on the user's past ratings,";
+  if (likes) text += ` they tend to like ${likes}.`;
+  if (dislikes) text += `${likes ? ' They' : ' they'} tend to dislike ${dislikes}.`;
+  return `${text} Favour similar deals, but keep some variety.`;
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { analyzePriceHistory, linearRegression, movingAverage } from './priceForecast';
+import { PriceDataPoint } from '../types';
+
+const history = (prices: number[]): PriceDataPoint[] =>
+  prices.map((price, i) => ({ date: `2024-03-${String(i + 1).padStart(2, '0')}`, price }));
+
+describe('price statistics', () => {
+  it('computes trailing moving averages and a least-squares line', () => {
+    expect(movingAverage([10, 20, 30, 40], 3)).toEqual([null, null, 20, 30]);
+    const { slope, intercept, residualStdError } = linearRegression([0, 1, 2, 3], [10, 12, 14, 16]);
+    expect(slope).toBeCloseTo(2);
+    expect(intercept).toBeCloseTo(10);
+    expect(residualStdError).toBeCloseTo(0);
+  });
+
+  it('reports trend, low/high, volatility and a widening forecast band', () => {
+    const analysis = analyzePriceHistory(history([100, 103, 98, 97, 95, 96, 92, 90]))!;
+
+    expect(analysis.trend.direction).toBe('falling');
+    expect(analysis.low).toEqual({ date: '2024-03-08', price: 90 });
+    expect(analysis.high).toEqual({ date: '2024-03-02', price: 103 });
+    expect(analysis.movingAverages.short).toBeCloseTo(92.67, 2);
+    expect(analysis.volatility).toBeGreaterThan(0);
+
+    expect(analysis.forecast).toHaveLength(7);
+    expect(analysis.forecast[0].date).toBe('2024-03-09');
+    const first = analysis.forecast[0];
+    const last = analysis.forecast[6];
+    expect(first.lower).toBeLessThan(first.price);
+    expect(first.upper).toBeGreaterThan(first.price);
+    expect(last.upper - last.lower).toBeGreaterThan(first.upper - first.lower);
+  });
+
+  it('recommends waiting on a falling price and buying at the recorded low of a rising one', () => {
+    expect(analyzePriceHistory(history([100, 97, 95, 93, 91]), { currentPrice: 95 })!.recommendation.action).toBe('wait');
+
+    const rising = analyzePriceHistory(history([80, 82, 85, 88, 90]), { currentPrice: 79 })!.recommendation;
+    expect(rising.action).toBe('buy');
+    expect(rising.reasons[0]).toBe('This is the lowest price recorded.');
+  });
+
+  it('gives its reasons in the requested language', () => {
+    const falling = analyzePriceHistory(history([100, 97, 95, 93, 91]), { currentPrice: 95, locale: 'de-DE' })!.recommendation;
+    expect(falling.reasons[0]).toMatch(/^Die Preise fallen um etwa [\d,]+ % pro Woche/);
+  });
+
+  it('declines to recommend or forecast from fewer than three prices', () => {
+    const analysis = analyzePriceHistory(history([50, 45]))!;
+    expect(analysis.recommendation.action).toBe('insufficient-data');
+    expect(analysis.forecast).toEqual([]);
+    expect(analyzePriceHistory([])).toBeNull();
+  });
+});
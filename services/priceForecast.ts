@@ -0,0 +1,145 @@
+import { LocaleCode, PriceAnalysis, PriceDataPoint, PriceForecastPoint } from '../types';
+import { DEFAULT_LOCALE } from '../constants';
+import { formatDate, formatNumber, translate } from './i18n';
+
+// Pure price statistics over a recorded history; no I/O, no randomness.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SHORT_WINDOW = 3;
+const LONG_WINDOW = 7;
+const HORIZON_DAYS = 7;
+const MIN_POINTS_FOR_FORECAST = 3;
+const BAND_Z = 1.28; // ~80% prediction interval
+const FLAT_TREND_PERCENT_PER_WEEK = 1;
+const NEAR_LOW_PERCENT = 2;
+const ABOVE_AVERAGE_PERCENT = 5;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[]): number => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
+
+const dayNumber = (date: string): number => Math.round(Date.parse(date) / DAY_MS);
+
+const addDays = (date: string, days: number): string => new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+/** Trailing moving average; null until `window` points are available. */
+export const movingAverage = (prices: number[], window: number): (number | null)[] =>
+  prices.map((_, index) => (index + 1 < window ? null : round2(mean(prices.slice(index + 1 - window, index + 1)))));
+
+/** Least-squares line through (xs, ys) with the residual standard error. */
+export const linearRegression = (xs: number[], ys: number[]): { slope: number; intercept: number; residualStdError: number } => {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const slope = sxx === 0 ? 0 : xs.reduce((sum, x, i) => sum + (x - meanX) * (ys[i] - meanY), 0) / sxx;
+  const intercept = meanY - slope * meanX;
+  const squaredResiduals = xs.reduce((sum, x, i) => sum + (ys[i] - (intercept + slope * x)) ** 2, 0);
+  const residualStdError = xs.length > 2 ? Math.sqrt(squaredResiduals / (xs.length - 2)) : 0;
+  return { slope, intercept, residualStdError };
+};
+
+const forecastPrices = (history: PriceDataPoint[], horizonDays: number): PriceForecastPoint[] => {
+  const xs = history.map(point => dayNumber(point.date) - dayNumber(history[0].date));
+  const ys = history.map(point => point.price);
+  const { slope, intercept, residualStdError } = linearRegression(xs, ys);
+  const meanX = mean(xs);
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const lastX = xs[xs.length - 1];
+  const lastDate = history[history.length - 1].date;
+
+  return Array.from({ length: horizonDays }, (_, i) => {
+    const x = lastX + i + 1;
+    const price = Math.max(0, intercept + slope * x);
+    // Prediction interval: wider the further the forecast is from the observed days.
+    const spread = BAND_Z * residualStdError * Math.sqrt(1 + 1 / xs.length + (sxx === 0 ? 0 : (x - meanX) ** 2 / sxx));
+    return { date: addDays(lastDate, i + 1), price: round2(price), lower: round2(Math.max(0, price - spread)), upper: round2(price + spread) };
+  });
+};
+
+export interface PriceAnalysisOptions {
+  currentPrice?: number | null; // Defaults to the latest recorded price
+  horizonDays?: number;
+  formatPrice?: (value: number) => string; // Used in the recommendation reasons
+  locale?: LocaleCode; // Language of the recommendation reasons
+}
+
+const recommend = (
+  history: PriceDataPoint[],
+  currentPrice: number,
+  analysis: Omit<PriceAnalysis, 'recommendation'>,
+  formatPrice: (value: number) => string,
+  locale: LocaleCode
+): PriceAnalysis['recommendation'] => {
+  if (history.length < MIN_POINTS_FOR_FORECAST) {
+    return {
+      action: 'insufficient-data',
+      reasons: [translate(locale, 'forecast.tooFew', { count: history.length, min: MIN_POINTS_FOR_FORECAST })],
+    };
+  }
+  const formatPercent = (value: number): string => formatNumber(Math.abs(value), locale, 1);
+  const buy: string[] = [];
+  const wait: string[] = [];
+  const { trend, movingAverages, low, forecast } = analysis;
+
+  // A falling price keeps setting new lows, so being at the low only argues for buying when the trend is not down.
+  if (currentPrice <= low.price * (1 + NEAR_LOW_PERCENT / 100) && trend.direction !== 'falling') {
+    buy.push(currentPrice <= low.price ? translate(locale, 'forecast.lowest') : translate(locale, 'forecast.nearLowest', { percent: NEAR_LOW_PERCENT }));
+  }
+  if (trend.direction === 'rising') {
+    buy.push(translate(locale, 'forecast.rising', { percent: formatPercent(trend.percentPerWeek) }));
+  }
+  if (trend.direction === 'falling') {
+    const expected = forecast[forecast.length - 1];
+    wait.push(translate(locale, 'forecast.falling', {
+      percent: formatPercent(trend.percentPerWeek),
+      price: formatPrice(expected.price),
+      date: formatDate(expected.date, locale),
+    }));
+  }
+  if (movingAverages.long !== null && currentPrice > movingAverages.long * (1 + ABOVE_AVERAGE_PERCENT / 100)) {
+    wait.push(translate(locale, 'forecast.aboveAverage', { percent: formatPercent((currentPrice / movingAverages.long - 1) * 100), window: LONG_WINDOW }));
+  }
+
+  if (buy.length === 0 && wait.length === 0) {
+    return { action: 'buy', reasons: [translate(locale, 'forecast.steady')] };
+  }
+  return wait.length > buy.length ? { action: 'wait', reasons: [...wait, ...buy] } : { action: 'buy', reasons: [...buy, ...wait] };
+};
+
+/**
+ * Trend, averages, volatility, low/high, a short forecast band and a buy/wait recommendation
+ * for a history sorted oldest first. Returns null for an empty history.
+ */
+export const analyzePriceHistory = (history: PriceDataPoint[], options: PriceAnalysisOptions = {}): PriceAnalysis | null => {
+  const { currentPrice = null, horizonDays = HORIZON_DAYS, formatPrice = (value: number) => value.toFixed(2), locale = DEFAULT_LOCALE } = options;
+  if (history.length === 0) return null;
+  const prices = history.map(point => point.price);
+  const average = mean(prices);
+  const canForecast = history.length >= MIN_POINTS_FOR_FORECAST;
+
+  const { slope } = linearRegression(history.map(point => dayNumber(point.date)), prices);
+  const percentPerWeek = average === 0 ? 0 : (slope * 7 / average) * 100;
+  const direction: PriceAnalysis['trend']['direction'] = !canForecast || Math.abs(percentPerWeek) < FLAT_TREND_PERCENT_PER_WEEK ? 'flat' : percentPerWeek > 0 ? 'rising' : 'falling';
+
+  const shortSeries = movingAverage(prices, SHORT_WINDOW);
+  const longSeries = movingAverage(prices, LONG_WINDOW);
+  const low = history.reduce((best, point) => (point.price < best.price ? point : best));
+  const high = history.reduce((best, point) => (point.price > best.price ? point : best));
+
+  const analysis: Omit<PriceAnalysis, 'recommendation'> = {
+    trend: { direction, slopePerDay: round2(slope), percentPerWeek: round2(percentPerWeek) },
+    movingAverages: { short: shortSeries[shortSeries.length - 1], long: longSeries[longSeries.length - 1] },
+    movingAverageSeries: shortSeries,
+    volatility: average === 0 ? 0 : round2((standardDeviation(prices) / average) * 100),
+    low,
+    high,
+    forecast: canForecast ? forecastPrices(history, horizonDays) : [],
+  };
+
+  return { ...analysis, recommendation: recommend(history, currentPrice ?? prices[prices.length - 1], analysis, formatPrice, locale) };
+};
@@ -0,0 +1,39 @@
+import { beforeEach, describe, it, expect } from 'vitest';
+import { createInMemoryPriceStore, getPriceHistory, recordDealPrices, setPriceStore } from './priceHistoryStore';
+import { Deal } from '../types';
+import { parseMoney } from './money';
+
+const makeDeal = (id: string, price: string, overrides: Partial<Deal> = {}): Deal => ({
+  id,
+  title: 'Sony WH-1000XM5 Headphones',
+  description: 'Noise cancelling headphones.',
+  originalPrice: parseMoney('$399.99'),
+  discountedPrice: parseMoney(price),
+  merchant: 'BestBuy',
+  category: 'Electronics',
+  ...overrides,
+});
+
+beforeEach(() => {
+  setPriceStore(createInMemoryPriceStore());
+});
+
+describe('price history store', () => {
+  it('follows a product across searches regardless of deal id', async () => {
+    await recordDealPrices([makeDeal('a', '$249.99')], new Date('2024-03-01T10:00:00Z'));
+    await recordDealPrices([makeDeal('b', '$229.99', { title: '  sony wh-1000xm5   headphones ' })], new Date('2024-03-05T10:00:00Z'));
+    await recordDealPrices([makeDeal('c', '$99.99', { merchant: 'Walmart' })], new Date('2024-03-05T10:00:00Z'));
+
+    expect(await getPriceHistory(makeDeal('d', '$229.99'))).toEqual([
+      { date: '2024-03-01', price: 249.99 },
+      { date: '2024-03-05', price: 229.99 },
+    ]);
+  });
+
+  it('keeps the lowest price seen on a day and skips unpriced deals', async () => {
+    await recordDealPrices([makeDeal('a', '$249.99')], new Date('2024-03-01T08:00:00Z'));
+    await recordDealPrices([makeDeal('a', '$239.99'), makeDeal('b', 'Price varies')], new Date('2024-03-01T18:00:00Z'));
+
+    expect(await getPriceHistory(makeDeal('a', '$239.99'))).toEqual([{ date: '2024-03-01', price: 239.99 }]);
+  });
+});
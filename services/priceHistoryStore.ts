@@ -0,0 +1,114 @@
+import { Deal, PriceDataPoint, PriceObservation } from '../types';
+import { PRICE_HISTORY_DB_NAME } from '../constants';
+import { fingerprintDeal } from './dealIdentity';
+
+export interface PriceObservationStore {
+  add: (observations: PriceObservation[]) => Promise<void>;
+  getByProductKey: (productKey: string) => Promise<PriceObservation[]>;
+}
+
+export const createInMemoryPriceStore = (): PriceObservationStore => {
+  const observations: PriceObservation[] = [];
+  return {
+    add: async (newObservations) => {
+      observations.push(...newObservations);
+    },
+    getByProductKey: async (productKey) => observations.filter(o => o.productKey === productKey),
+  };
+};
+
+const OBSERVATIONS_STORE = 'observations';
+const PRODUCT_KEY_INDEX = 'productKey';
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbPriceStore = (dbName: string = PRICE_HISTORY_DB_NAME): PriceObservationStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(OBSERVATIONS_STORE, { autoIncrement: true });
+      store.createIndex(PRODUCT_KEY_INDEX, PRODUCT_KEY_INDEX, { unique: false });
+    };
+    dbPromise = requestToPromise(request);
+    return dbPromise;
+  };
+
+  return {
+    add: async (observations) => {
+      if (observations.length === 0) return;
+      const db = await openDb();
+      const tx = db.transaction(OBSERVATIONS_STORE, 'readwrite');
+      const store = tx.objectStore(OBSERVATIONS_STORE);
+      observations.forEach(observation => store.add(observation));
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+    },
+    getByProductKey: async (productKey) => {
+      const db = await openDb();
+      const index = db.transaction(OBSERVATIONS_STORE, 'readonly').objectStore(OBSERVATIONS_STORE).index(PRODUCT_KEY_INDEX);
+      return requestToPromise(index.getAll(productKey) as IDBRequest<PriceObservation[]>);
+    },
+  };
+};
+
+let priceStore: PriceObservationStore | null = null;
+
+export const getPriceStore = (): PriceObservationStore => {
+  if (!priceStore) {
+    priceStore = typeof indexedDB !== 'undefined' ? createIndexedDbPriceStore() : createInMemoryPriceStore();
+  }
+  return priceStore;
+};
+
+// Swaps the backing store, e.g. for an in-memory store in tests.
+export const setPriceStore = (store: PriceObservationStore): void => {
+  priceStore = store;
+};
+
+// The same product from the same merchant maps to the same key across searches, whatever id the deal was given.
+export const getProductKey = (deal: Deal): string => fingerprintDeal(deal);
+
+export const recordDealPrices = async (deals: Deal[], observedAt: Date = new Date()): Promise<void> => {
+  const observations: PriceObservation[] = deals
+    .filter(deal => deal.discountedPrice.amount !== null)
+    .map(deal => ({
+      productKey: getProductKey(deal),
+      observedAt: observedAt.toISOString(),
+      price: deal.discountedPrice.amount as number,
+      currency: deal.discountedPrice.currency,
+      merchant: deal.merchant,
+      providerId: deal.providerId,
+    }));
+  await getPriceStore().add(observations);
+};
+
+/**
+ * Price history for a deal as recorded from past searches, one point per day.
+ * When a product was seen several times on the same day the lowest price is kept.
+ * Observations in a different currency from the deal's current price are ignored.
+ */
+export const getPriceHistory = async (deal: Deal): Promise<PriceDataPoint[]> => {
+  const observations = await getPriceStore().getByProductKey(getProductKey(deal));
+  const currency = deal.discountedPrice.currency;
+  const lowestByDay = new Map<string, number>();
+  observations
+    .filter(o => !currency || !o.currency || o.currency === currency)
+    .forEach(o => {
+      const day = o.observedAt.split('T')[0];
+      const current = lowestByDay.get(day);
+      if (current === undefined || o.price < current) lowestByDay.set(day, o.price);
+    });
+  return Array.from(lowestByDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, price]) => ({ date, price }));
+};
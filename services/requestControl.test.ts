@@ -0,0 +1,63 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { backoffDelay, createRateLimiter, isRetryableError, withRetry } from './requestControl';
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('request control', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries rate limiting, server and network errors only', () => {
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(httpError(400))).toBe(false);
+    expect(isRetryableError(new Error('API_KEY_MISSING'))).toBe(false);
+    expect(isRetryableError(new DOMException('aborted', 'AbortError'))).toBe(false);
+  });
+
+  it('backs off exponentially with jitter, up to a cap', () => {
+    expect(backoffDelay(1, () => 0)).toBe(500);
+    expect(backoffDelay(1, () => 1)).toBe(1000);
+    expect(backoffDelay(3, () => 1)).toBe(4000);
+    expect(backoffDelay(10, () => 1)).toBe(10000);
+  });
+
+  it('retries transient failures and reports each retry', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const request = vi.fn().mockRejectedValueOnce(httpError(503)).mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+
+    const result = withRetry(request, { onRetry, random: () => 0 });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('ok');
+    expect(onRetry).toHaveBeenCalledWith({ attempt: 2, maxAttempts: 3, delayMs: 500, reason: 'HTTP 503' });
+  });
+
+  it('gives up on permanent errors and stops waiting when aborted', async () => {
+    await expect(withRetry(() => Promise.reject(httpError(400)))).rejects.toThrow('HTTP 400');
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const controller = new AbortController();
+    const result = withRetry(() => Promise.reject(httpError(429)), { signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('makes callers over the limit wait for a free slot', async () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter(2, 1000);
+    const acquired: number[] = [];
+    [1, 2, 3].forEach(n => limiter.acquire().then(() => acquired.push(n)));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(acquired).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(acquired).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,102 @@
+import { LocaleCode, RequestOptions, RetryInfo } from '../types';
+import { DEFAULT_LOCALE, RETRY_BASE_DELAY_MS, RETRY_MAX_ATTEMPTS, RETRY_MAX_DELAY_MS } from '../constants';
+import { translate } from './i18n';
+
+// Cancellation, retries and client-side rate limiting for calls to remote services.
+
+export const isAbortError = (error: unknown): boolean => (error as Error | undefined)?.name === 'AbortError';
+
+const abortReason = (signal: AbortSignal): unknown => signal.reason ?? new DOMException('The request was aborted.', 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw abortReason(signal);
+};
+
+/** Resolves after `ms`, or rejects as soon as `signal` is aborted. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Rate limiting (429), server errors (5xx) and network failures are worth retrying; bad requests, a missing
+ * API key and cancellations are not. The Gemini SDK's ApiError carries the HTTP status; other errors are
+ * judged by their message.
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  const status = (error as { status?: unknown } | undefined)?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  if (error instanceof TypeError) return true; // fetch() rejects with a TypeError when the network fails
+  const message = (error as Error | undefined)?.message ?? '';
+  return /\b(429|50[0-4])\b|RESOURCE_EXHAUSTED|UNAVAILABLE|failed to fetch|network/i.test(message);
+};
+
+/** Exponential backoff with jitter: a random wait between half and all of base * 2^(retry - 1), capped. */
+export const backoffDelay = (retry: number, random: () => number = Math.random): number => {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (retry - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+};
+
+export interface RateLimiter {
+  acquire: (signal?: AbortSignal) => Promise<void>;
+}
+
+/** Allows at most `maxRequests` acquisitions in any `intervalMs` window; later callers wait for a free slot. */
+export const createRateLimiter = (maxRequests: number, intervalMs: number, now: () => number = Date.now): RateLimiter => {
+  let started: number[] = [];
+  return {
+    acquire: async (signal) => {
+      for (;;) {
+        throwIfAborted(signal);
+        const time = now();
+        started = started.filter(startedAt => time - startedAt < intervalMs);
+        if (started.length < maxRequests) {
+          started.push(time);
+          return;
+        }
+        await sleep(started[0] + intervalMs - time, signal);
+      }
+    },
+  };
+};
+
+export interface RetryOptions extends RequestOptions {
+  limiter?: RateLimiter; // Every attempt, retries included, takes a slot
+  maxAttempts?: number;
+  random?: () => number;
+}
+
+/** Runs `request`, retrying transient failures with backoff. Aborting `signal` stops waiting and rethrows at once. */
+export const withRetry = async <T,>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, onRetry, limiter, maxAttempts = RETRY_MAX_ATTEMPTS, random } = options;
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    await limiter?.acquire(signal);
+    try {
+      return await request();
+    } catch (error) {
+      throwIfAborted(signal); // Report the cancellation rather than whatever the cancelled request failed with
+      if (attempt >= maxAttempts || !isRetryableError(error)) throw error;
+      const delayMs = backoffDelay(attempt, random);
+      console.warn(`Request failed (attempt ${attempt} of ${maxAttempts}), retrying in ${delayMs} ms:`, error);
+      onRetry?.({ attempt: attempt + 1, maxAttempts, delayMs, reason: (error as Error)?.message ?? String(error) });
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+export const describeRetry = (info: RetryInfo, locale: LocaleCode = DEFAULT_LOCALE): string =>
+  translate(locale, 'common.retrying', { attempt: info.attempt, max: info.maxAttempts });
@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { cacheKey, cachedCall, createResponseCache } from './responseCache';
+
+const MINUTE = 60 * 1000;
+
+const setup = (options: { staleMs?: number; maxEntries?: number } = {}) => {
+  let time = Date.parse('2025-01-01T00:00:00Z');
+  const cache = createResponseCache<string>({ storageKey: 'test.cache', ttlMs: 10 * MINUTE, maxEntries: 3, now: () => time, ...options });
+  return { cache, advance: (ms: number) => { time += ms; } };
+};
+
+describe('response cache', () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('gives the same key for requests that differ only in key order', () => {
+    expect(cacheKey({ a: 1, b: ['x'] })).toBe(cacheKey({ b: ['x'], a: 1 }));
+    expect(cacheKey({ a: 1 })).not.toBe(cacheKey({ a: 2 }));
+  });
+
+  it('serves fresh entries, refetches expired ones and honours bypass', async () => {
+    const { cache, advance } = setup();
+    const fetcher = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second').mockResolvedValueOnce('third');
+
+    expect(await cachedCall(cache, 'k', fetcher)).toEqual({ value: 'first' });
+    expect(await cachedCall(cache, 'k', fetcher)).toMatchObject({ value: 'first', cache: { stale: false } });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    advance(11 * MINUTE);
+    expect(await cachedCall(cache, 'k', fetcher)).toEqual({ value: 'second' });
+
+    expect(await cachedCall(cache, 'k', fetcher, { bypass: true })).toEqual({ value: 'third' });
+    expect(cache.get('k')?.value).toBe('third');
+  });
+
+  it('returns a stale entry at once and hands the refreshed value to onRevalidated', async () => {
+    const { cache, advance } = setup({ staleMs: 60 * MINUTE });
+    cache.set('k', 'old');
+    advance(20 * MINUTE);
+    const onRevalidated = vi.fn();
+
+    const result = await cachedCall(cache, 'k', () => Promise.resolve('new'), { onRevalidated });
+    expect(result).toMatchObject({ value: 'old', cache: { stale: true } });
+
+    await vi.waitFor(() => expect(onRevalidated).toHaveBeenCalledWith('new'));
+    expect(cache.get('k')).toMatchObject({ value: 'new', stale: false });
+  });
+
+  it('keeps only the newest entries and skips values shouldStore rejects', async () => {
+    const { cache, advance } = setup();
+    for (const key of ['a', 'b', 'c', 'd']) {
+      cache.set(key, key);
+      advance(MINUTE);
+    }
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('d')?.value).toBe('d');
+
+    await cachedCall(cache, 'empty', () => Promise.resolve(''), { shouldStore: value => value !== '' });
+    expect(cache.get('empty')).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { CacheInfo } from '../types';
+import { readJson, writeJson } from './storage';
+import { hashString } from './dealIdentity';
+import { isAbortError } from './requestControl';
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number; // epoch ms
+}
+
+export interface ResponseCacheOptions {
+  storageKey: string;
+  ttlMs: number;
+  staleMs?: number; // How long past the TTL an entry may still be served while it is refreshed; 0 (default) disables this
+  maxEntries: number;
+  now?: () => number;
+}
+
+export interface ResponseCache<T> {
+  get: (key: string) => { value: T; storedAt: number; stale: boolean } | null;
+  set: (key: string, value: T) => void;
+  clear: () => void;
+}
+
+// JSON with object keys sorted, so requests that differ only in key order share a cache entry.
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+export const cacheKey = (request: unknown): string => hashString(stableStringify(request));
+
+/** A size-limited cache persisted in localStorage; the newest `maxEntries` entries are kept. */
+export const createResponseCache = <T,>(options: ResponseCacheOptions): ResponseCache<T> => {
+  const now = options.now ?? Date.now;
+  const maxAge = options.ttlMs + (options.staleMs ?? 0);
+  const read = () => readJson<Record<string, CacheEntry<T>>>(options.storageKey, {});
+
+  return {
+    get: (key) => {
+      const entry = read()[key];
+      if (!entry) return null;
+      const age = now() - entry.storedAt;
+      if (age > maxAge) return null;
+      return { value: entry.value, storedAt: entry.storedAt, stale: age > options.ttlMs };
+    },
+    set: (key, value) => {
+      const time = now();
+      const entries = Object.entries({ ...read(), [key]: { value, storedAt: time } })
+        .filter(([, entry]) => time - entry.storedAt <= maxAge)
+        .sort(([, a], [, b]) => b.storedAt - a.storedAt)
+        .slice(0, options.maxEntries);
+      writeJson(options.storageKey, Object.fromEntries(entries));
+    },
+    clear: () => writeJson(options.storageKey, {}),
+  };
+};
+
+export interface CachedCallOptions<T> {
+  bypass?: boolean; // Ignore cached entries; the fresh value is still stored
+  shouldStore?: (value: T) => boolean; // e.g. to keep empty or unusable responses out of the cache
+  onRevalidated?: (value: T) => void; // Enables stale-while-revalidate
+}
+
+/**
+ * Serves `fetcher` through `cache`. A fresh entry is returned as is. A stale entry is returned straight away
+ * when `onRevalidated` is given, while `fetcher` runs in the background and hands it the new value;
+ * without a callback a stale entry is refetched like a miss. Errors from a background refresh are logged
+ * (cancellations silently) and leave the stale entry in place.
+ */
+export const cachedCall = async <T,>(
+  cache: ResponseCache<T>,
+  key: string,
+  fetcher: () => Promise<T>,
+  options: CachedCallOptions<T> = {}
+): Promise<{ value: T; cache?: CacheInfo }> => {
+  const { bypass = false, shouldStore = () => true, onRevalidated } = options;
+  const fetchAndStore = async (): Promise<T> => {
+    const value = await fetcher();
+    if (shouldStore(value)) cache.set(key, value);
+    return value;
+  };
+
+  const cached = bypass ? null : cache.get(key);
+  if (cached && (!cached.stale || onRevalidated)) {
+    if (cached.stale) {
+      fetchAndStore().then(value => onRevalidated?.(value), error => {
+        if (!isAbortError(error)) console.warn("Background refresh of a cached response failed:", error);
+      });
+    }
+    return { value: cached.value, cache: { storedAt: new Date(cached.storedAt).toISOString(), stale: cached.stale } };
+  }
+  return { value: await fetchAndStore() };
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Deal, SavedSearch } from '../types';
+import { searchDeals } from './dealProviders';
+import { compareWithSeen, createSavedSearch, isSavedSearchDue, runDueSavedSearches, snapshotDeals } from './savedSearchService';
+
+vi.mock('./dealProviders', () => ({ searchDeals: vi.fn() }));
+
+const makeDeal = (id: string, title: string, amount: number): Deal => ({
+  id,
+  title,
+  description: '',
+  originalPrice: { amount: 500, currency: 'USD', raw: '$500' },
+  discountedPrice: { amount, currency: 'USD', raw: `$${amount}` },
+  merchant: 'Best Buy',
+  category: 'Electronics',
+});
+
+const laptop = makeDeal('deal-laptop', 'Dell XPS 13 Laptop', 899);
+const monitor = makeDeal('deal-monitor', 'LG 27 inch 4K Monitor', 299);
+
+const savedAt = new Date('2026-03-01T08:00:00Z');
+const baseSearch: SavedSearch = {
+  ...createSavedSearch('Work gear', { keywords: 'laptop', categories: ['Electronics'], location: '' }, ['gemini'], 6, savedAt),
+  autoRunMinutes: 60,
+  lastRunAt: savedAt.toISOString(),
+  seenDeals: snapshotDeals([laptop]),
+};
+
+describe('compareWithSeen', () => {
+  it('marks new deals and price changes and leaves unchanged ones out', () => {
+    const cheaperLaptop = { ...laptop, id: 'deal-laptop-2', discountedPrice: { amount: 849, currency: 'USD', raw: '$849' } };
+    expect(compareWithSeen([cheaperLaptop, monitor], snapshotDeals([laptop]))).toEqual({
+      'deal-laptop-2': { kind: 'price-drop', previousPrice: laptop.discountedPrice },
+      'deal-monitor': { kind: 'new' },
+    });
+    expect(compareWithSeen([laptop], snapshotDeals([laptop]))).toEqual({});
+  });
+
+  it('reports nothing for a search that was never seen', () => {
+    expect(compareWithSeen([laptop, monitor], undefined)).toEqual({});
+  });
+});
+
+describe('runDueSavedSearches', () => {
+  beforeEach(() => {
+    vi.mocked(searchDeals).mockReset();
+  });
+
+  it('only runs searches whose interval has passed', () => {
+    expect(isSavedSearchDue(baseSearch, savedAt.getTime() + 59 * 60 * 1000)).toBe(false);
+    expect(isSavedSearchDue(baseSearch, savedAt.getTime() + 60 * 60 * 1000)).toBe(true);
+    expect(isSavedSearchDue({ ...baseSearch, autoRunMinutes: undefined }, savedAt.getTime() + 1e9)).toBe(false);
+  });
+
+  it('counts unseen changes, alerts once per increase and keeps the seen baseline', async () => {
+    vi.mocked(searchDeals).mockResolvedValue({ deals: [laptop, monitor], errors: [] });
+    const later = new Date(savedAt.getTime() + 2 * 60 * 60 * 1000);
+
+    const first = await runDueSavedSearches([baseSearch], {}, later);
+    expect(searchDeals).toHaveBeenCalledWith(['gemini'], baseSearch.preferences, { maxResults: 6, bypassCache: true });
+    expect(first.searches[0]).toMatchObject({ unseenCount: 1, lastRunAt: later.toISOString(), seenDeals: baseSearch.seenDeals });
+    expect(first.alerts).toHaveLength(1);
+    expect(first.alerts[0]).toMatchObject({ kind: 'saved-search', title: 'Work gear', message: '1 new deal and 0 price changes since you last looked.' });
+
+    const evenLater = new Date(later.getTime() + 2 * 60 * 60 * 1000);
+    const second = await runDueSavedSearches(first.searches, {}, evenLater);
+    expect(second.alerts).toEqual([]);
+  });
+
+  it('searches with the preference hint and locale of an on-screen search, so its results are cached for it', async () => {
+    vi.mocked(searchDeals).mockResolvedValue({ deals: [laptop], errors: [] });
+    await runDueSavedSearches([baseSearch], { preferenceHint: 'like categories: Electronics', locale: 'de-DE' }, new Date(savedAt.getTime() + 2 * 60 * 60 * 1000));
+    expect(searchDeals).toHaveBeenCalledWith(['gemini'], baseSearch.preferences, {
+      preferenceHint: 'like categories: Electronics',
+      locale: 'de-DE',
+      maxResults: 6,
+      bypassCache: true,
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { Deal, DealChange, DealSearchOptions, DealSnapshot, LocaleCode, SavedSearch, UserPreferences, WatchlistAlert } from '../types';
+import { DEFAULT_LOCALE, SAVED_SEARCHES_STORAGE_KEY } from '../constants';
+import { readJson, writeJson } from './storage';
+import { searchDeals } from './dealProviders';
+import { isSameProduct } from './dealIdentity';
+import { translate } from './i18n';
+
+export const loadSavedSearches = (): SavedSearch[] => readJson<SavedSearch[]>(SAVED_SEARCHES_STORAGE_KEY, []);
+
+export const saveSavedSearches = (searches: SavedSearch[]): void => writeJson(SAVED_SEARCHES_STORAGE_KEY, searches);
+
+export const describeSearch = (preferences: UserPreferences, locale: LocaleCode = DEFAULT_LOCALE): string =>
+  [
+    preferences.keywords.trim(),
+    preferences.categories.join(', '),
+    preferences.location.trim() && translate(locale, preferences.radiusKm ? 'savedSearches.nearWithin' : 'savedSearches.near', {
+      location: preferences.location.trim(),
+      km: preferences.radiusKm ?? 0,
+    }),
+  ]
+    .filter(Boolean)
+    .join(' · ') || translate(locale, 'savedSearches.allDeals');
+
+export const createSavedSearch = (name: string, preferences: UserPreferences, providerIds: string[], pageSize: number, now: Date = new Date()): SavedSearch => ({
+  id: `search-${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim() || describeSearch(preferences),
+  preferences,
+  providerIds,
+  pageSize,
+  createdAt: now.toISOString(),
+});
+
+export const snapshotDeals = (deals: Deal[]): DealSnapshot[] =>
+  deals.map(({ id, title, merchant, category, discountedPrice }) => ({ id, title, merchant, category, discountedPrice }));
+
+/**
+ * How each deal differs from the deals seen last time, keyed by deal id. Unchanged deals are left out, and so is
+ * everything when the search was never seen before. Prices in different currencies are not compared.
+ */
+export const compareWithSeen = (deals: Deal[], seen?: DealSnapshot[]): Record<string, DealChange> => {
+  const changes: Record<string, DealChange> = {};
+  if (!seen) return changes;
+  deals.forEach(deal => {
+    const previous = seen.find(snapshot => isSameProduct(snapshot, deal));
+    if (!previous) {
+      changes[deal.id] = { kind: 'new' };
+      return;
+    }
+    const before = previous.discountedPrice;
+    const after = deal.discountedPrice;
+    if (before.amount === null || after.amount === null || before.currency !== after.currency || before.amount === after.amount) return;
+    changes[deal.id] = { kind: after.amount < before.amount ? 'price-drop' : 'price-rise', previousPrice: before };
+  });
+  return changes;
+};
+
+export const isSavedSearchDue = (search: SavedSearch, now: number = Date.now()): boolean =>
+  search.autoRunMinutes !== undefined && (!search.lastRunAt || now - Date.parse(search.lastRunAt) >= search.autoRunMinutes * 60 * 1000);
+
+/** The user has looked at these results: they become what the next run is compared against. */
+export const markSeen = (search: SavedSearch, deals: Deal[], now: Date = new Date()): SavedSearch => ({
+  ...search,
+  lastRunAt: now.toISOString(),
+  seenDeals: snapshotDeals(deals),
+  unseenCount: 0,
+});
+
+/**
+ * Re-runs the saved searches that are due, one after another, without touching the deals on screen. Changes are
+ * counted against what the user last saw, and an alert is raised when a run finds more of them than the one before.
+ * Fresh results are fetched (and cached), so opening the search soon afterwards shows the same deals; for that the
+ * caller passes the same preference hint and locale a search on screen would use, as both are part of the cache key.
+ * Alerts are written in that locale.
+ */
+export const runDueSavedSearches = async (
+  searches: SavedSearch[],
+  options: Pick<DealSearchOptions, 'preferenceHint' | 'locale'> = {},
+  now: Date = new Date()
+): Promise<{ searches: SavedSearch[]; alerts: WatchlistAlert[] }> => {
+  const updated: SavedSearch[] = [];
+  const alerts: WatchlistAlert[] = [];
+
+  for (const search of searches) {
+    if (!isSavedSearchDue(search, now.getTime())) {
+      updated.push(search);
+      continue;
+    }
+    const ranAt = now.toISOString();
+    try {
+      const { deals } = await searchDeals(search.providerIds, search.preferences, { ...options, maxResults: search.pageSize, bypassCache: true });
+      if (!search.seenDeals) {
+        updated.push(markSeen(search, deals, now)); // Nothing to compare with yet; this run is the starting point
+        continue;
+      }
+      const changes = Object.values(compareWithSeen(deals, search.seenDeals));
+      const unseenCount = changes.length;
+      if (unseenCount > (search.unseenCount ?? 0)) {
+        const newCount = changes.filter(change => change.kind === 'new').length;
+        const locale = options.locale ?? DEFAULT_LOCALE;
+        alerts.push({
+          id: `${search.id}-${ranAt}`,
+          dealId: search.id,
+          kind: 'saved-search',
+          title: search.name,
+          message: translate(locale, 'savedSearches.alert', {
+            newDeals: translate(locale, 'savedSearches.alert.newDeals', { count: newCount }),
+            priceChanges: translate(locale, 'savedSearches.alert.priceChanges', { count: unseenCount - newCount }),
+          }),
+          createdAt: ranAt,
+        });
+      }
+      updated.push({ ...search, lastRunAt: ranAt, unseenCount });
+    } catch (error) {
+      console.error(`Failed to re-run saved search "${search.name}":`, error);
+      updated.push({ ...search, lastRunAt: ranAt }); // Wait for the next interval rather than retrying every minute
+    }
+  }
+
+  return { searches: updated, alerts };
+};
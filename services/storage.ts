@@ -0,0 +1,32 @@
+// JSON helpers over Web Storage. Failures (private mode, quota, corrupt data) are logged and never thrown,
+// so persisted UI state can always fall back to its defaults.
+
+const getStorage = (kind: 'local' | 'session'): Storage | null => {
+  try {
+    return kind === 'local' ? window.localStorage : window.sessionStorage;
+  } catch {
+    return null;
+  }
+};
+
+export const readJson = <T,>(key: string, fallback: T, kind: 'local' | 'session' = 'local'): T => {
+  const storage = getStorage(kind);
+  if (!storage) return fallback;
+  try {
+    const text = storage.getItem(key);
+    return text === null ? fallback : (JSON.parse(text) as T);
+  } catch (e) {
+    console.error(`Failed to read "${key}" from storage:`, (e as Error).message);
+    return fallback;
+  }
+};
+
+export const writeJson = (key: string, value: unknown, kind: 'local' | 'session' = 'local'): void => {
+  const storage = getStorage(kind);
+  if (!storage) return;
+  try {
+    storage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to write "${key}" to storage:`, (e as Error).message);
+  }
+};
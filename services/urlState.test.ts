@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { UrlState } from '../types';
+import { DEFAULT_PROVIDER_IDS, GEMINI_PROVIDER_ID, GEMINI_SEARCH_PROVIDER_ID, INITIAL_DEALS_COUNT } from '../constants';
+import { EMPTY_DEAL_FILTERS } from './dealFacets';
+import { decodeUrlState, encodeUrlState, isSameSearch } from './urlState';
+import { withResolvedPlace } from './locationService';
+
+const KNOWN_PROVIDERS = [GEMINI_PROVIDER_ID, GEMINI_SEARCH_PROVIDER_ID];
+
+const defaultState: UrlState = {
+  preferences: { keywords: '', categories: [], location: '' },
+  providerIds: DEFAULT_PROVIDER_IDS,
+  pageSize: INITIAL_DEALS_COUNT,
+  sortKey: 'relevance',
+  filters: EMPTY_DEAL_FILTERS,
+  dealLink: null,
+};
+
+describe('URL state', () => {
+  it('leaves defaults out of the query', () => {
+    expect(encodeUrlState(defaultState)).toBe('');
+    expect(decodeUrlState('', KNOWN_PROVIDERS)).toEqual(defaultState);
+  });
+
+  it('round-trips a search, its result view and a deal link', () => {
+    const state: UrlState = {
+      preferences: withResolvedPlace({ keywords: 'running shoes', categories: ['Fashion', 'Sports & Outdoors'], location: 'Berlin', radiusKm: 25 }),
+      providerIds: [GEMINI_SEARCH_PROVIDER_ID],
+      pageSize: 12,
+      sortKey: 'price',
+      filters: { merchants: ['Shoes, Inc.'], categories: ['Fashion'], priceRange: { min: 20, max: 80.5 }, minDiscount: 25, availability: ['online'], maxDistanceKm: 10 },
+      dealLink: { dealId: 'deal-abc', view: 'history' },
+    };
+    const query = encodeUrlState(state);
+    expect(query).toContain('q=running+shoes');
+    expect(query).toContain('src=gemini-search');
+    expect(query).toContain('r=25');
+    expect(decodeUrlState(query, KNOWN_PROVIDERS)).toEqual(state);
+    expect(decodeUrlState(query, KNOWN_PROVIDERS).preferences.place).toMatchObject({ city: 'Berlin', country: 'Germany' });
+  });
+
+  it('falls back to defaults for unknown or malformed values', () => {
+    const state = decodeUrlState('?cat=Nonsense&src=unknown&n=7&sort=random&price=90-10&off=abc&avail=moon&deal=x&view=edit', KNOWN_PROVIDERS);
+    expect(state.preferences.categories).toEqual([]);
+    expect(state.providerIds).toEqual(DEFAULT_PROVIDER_IDS);
+    expect(state.pageSize).toBe(INITIAL_DEALS_COUNT);
+    expect(state.sortKey).toBe('relevance');
+    expect(state.filters).toEqual(EMPTY_DEAL_FILTERS);
+    expect(state.dealLink).toEqual({ dealId: 'x', view: 'verify' });
+  });
+
+  it('ignores sorting, filters and deal links when comparing searches', () => {
+    const other: UrlState = { ...defaultState, sortKey: 'discount', filters: { ...EMPTY_DEAL_FILTERS, minDiscount: 50 }, dealLink: { dealId: 'x', view: 'verify' } };
+    expect(isSameSearch(defaultState, other)).toBe(true);
+    expect(isSameSearch(defaultState, { ...defaultState, providerIds: [GEMINI_PROVIDER_ID, GEMINI_SEARCH_PROVIDER_ID] })).toBe(false);
+    expect(isSameSearch(defaultState, { ...defaultState, preferences: { ...defaultState.preferences, radiusKm: 10 } })).toBe(false);
+  });
+});
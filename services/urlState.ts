@@ -0,0 +1,90 @@
+import { DealAvailability, DealFilters, DealLink, DealLinkView, DealSortKey, UrlState } from '../types';
+import { DEAL_CATEGORIES, DEAL_PAGE_SIZE_OPTIONS, DEFAULT_PROVIDER_IDS, DISTANCE_FACET_STEPS_KM, INITIAL_DEALS_COUNT, SEARCH_RADIUS_OPTIONS_KM } from '../constants';
+import { EMPTY_DEAL_FILTERS } from './dealFacets';
+import { withResolvedPlace } from './locationService';
+
+// The search and result view as a query string, e.g. ?q=laptop&cat=Electronics&src=gemini-search&sort=price&deal=abc&view=verify.
+// Defaults are left out so a plain visit keeps a clean URL; unknown or malformed values fall back to the defaults.
+
+const SORT_KEYS: DealSortKey[] = ['relevance', 'discount', 'price', 'savings', 'score', 'merchant'];
+const AVAILABILITY_VALUES: DealAvailability[] = ['online', 'local', 'both', 'unknown'];
+const DEAL_LINK_VIEWS: DealLinkView[] = ['verify', 'history'];
+
+const sameValues = (a: string[], b: string[]): boolean => a.length === b.length && a.every(value => b.includes(value));
+
+export const encodeUrlState = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  const { preferences, filters } = state;
+  if (preferences.keywords.trim()) params.set('q', preferences.keywords.trim());
+  preferences.categories.forEach(category => params.append('cat', category));
+  if (preferences.location.trim()) params.set('loc', preferences.location.trim());
+  if (preferences.location.trim() && preferences.radiusKm) params.set('r', String(preferences.radiusKm));
+  if (!sameValues(state.providerIds, DEFAULT_PROVIDER_IDS)) state.providerIds.forEach(id => params.append('src', id));
+  if (state.pageSize !== INITIAL_DEALS_COUNT) params.set('n', String(state.pageSize));
+  if (state.sortKey !== 'relevance') params.set('sort', state.sortKey);
+  filters.merchants.forEach(merchant => params.append('merchant', merchant));
+  filters.categories.forEach(category => params.append('fcat', category));
+  if (filters.priceRange) params.set('price', `${filters.priceRange.min}-${filters.priceRange.max}`);
+  if (filters.minDiscount > 0) params.set('off', String(filters.minDiscount));
+  filters.availability.forEach(availability => params.append('avail', availability));
+  if (filters.maxDistanceKm !== null) params.set('dist', String(filters.maxDistanceKm));
+  if (state.dealLink) {
+    params.set('deal', state.dealLink.dealId);
+    params.set('view', state.dealLink.view);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+const decodePriceRange = (value: string | null): DealFilters['priceRange'] => {
+  const match = value?.match(/^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const [min, max] = [Number(match[1]), Number(match[2])];
+  return min <= max ? { min, max } : null;
+};
+
+/** `knownProviderIds` are the registered deal sources; links naming any other source fall back to the default ones. */
+export const decodeUrlState = (search: string, knownProviderIds: string[]): UrlState => {
+  const params = new URLSearchParams(search);
+  const providerIds = params.getAll('src').filter(id => knownProviderIds.includes(id));
+  const pageSize = Number(params.get('n'));
+  const sortKey = params.get('sort') as DealSortKey;
+  const minDiscount = Number(params.get('off'));
+  const radiusKm = Number(params.get('r'));
+  const maxDistanceKm = Number(params.get('dist'));
+  const dealId = params.get('deal');
+  const view = params.get('view') as DealLinkView;
+  return {
+    preferences: withResolvedPlace({
+      keywords: params.get('q') ?? '',
+      categories: params.getAll('cat').filter(category => DEAL_CATEGORIES.includes(category)),
+      location: params.get('loc') ?? '',
+      ...(params.get('loc') && SEARCH_RADIUS_OPTIONS_KM.includes(radiusKm) ? { radiusKm } : {}),
+    }),
+    providerIds: providerIds.length > 0 ? providerIds : DEFAULT_PROVIDER_IDS,
+    pageSize: DEAL_PAGE_SIZE_OPTIONS.includes(pageSize) ? pageSize : INITIAL_DEALS_COUNT,
+    sortKey: SORT_KEYS.includes(sortKey) ? sortKey : 'relevance',
+    filters: {
+      ...EMPTY_DEAL_FILTERS,
+      merchants: params.getAll('merchant'),
+      categories: params.getAll('fcat'),
+      priceRange: decodePriceRange(params.get('price')),
+      minDiscount: Number.isFinite(minDiscount) && minDiscount > 0 ? minDiscount : 0,
+      availability: params.getAll('avail').filter((value): value is DealAvailability => AVAILABILITY_VALUES.includes(value as DealAvailability)),
+      maxDistanceKm: DISTANCE_FACET_STEPS_KM.includes(maxDistanceKm) ? maxDistanceKm : null,
+    },
+    dealLink: dealId ? { dealId, view: DEAL_LINK_VIEWS.includes(view) ? view : 'verify' } : null,
+  };
+};
+
+/** Whether two states would run the same search; if not, the results have to be fetched again. */
+export const isSameSearch = (a: UrlState, b: UrlState): boolean =>
+  a.preferences.keywords.trim() === b.preferences.keywords.trim() &&
+  a.preferences.location.trim() === b.preferences.location.trim() &&
+  (a.preferences.radiusKm ?? null) === (b.preferences.radiusKm ?? null) &&
+  sameValues(a.preferences.categories, b.preferences.categories) &&
+  sameValues(a.providerIds, b.providerIds) &&
+  a.pageSize === b.pageSize;
+
+export const isSameDealLink = (a: DealLink | null, b: DealLink | null): boolean =>
+  a === b || (!!a && !!b && a.dealId === b.dealId && a.view === b.view);
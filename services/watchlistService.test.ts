@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Deal, Money, WatchlistItem } from '../types';
+import { searchDeals } from './dealProviders';
+import { checkWatchlist, createWatchlistItem, isThresholdCrossed } from './watchlistService';
+
+vi.mock('./dealProviders', () => ({ searchDeals: vi.fn() }));
+
+const usd = (amount: number): Money => ({ amount, currency: 'USD', raw: `$${amount}` });
+
+const laptop: Deal = {
+  id: 'deal-laptop',
+  title: 'Dell XPS 13 Laptop',
+  description: '',
+  originalPrice: usd(1299),
+  discountedPrice: usd(1000),
+  merchant: 'Best Buy',
+  category: 'Electronics',
+};
+
+const watched = (overrides: Partial<WatchlistItem> = {}): WatchlistItem => ({ ...createWatchlistItem(laptop), ...overrides });
+
+const priceChangesTo = (amount: number) =>
+  vi.mocked(searchDeals).mockResolvedValue({ deals: [{ ...laptop, discountedPrice: usd(amount) }], errors: [] });
+
+describe('isThresholdCrossed', () => {
+  it('triggers at or below the target price', () => {
+    expect(isThresholdCrossed(watched({ targetPrice: 900 }), usd(900))).toBe(true);
+    expect(isThresholdCrossed(watched({ targetPrice: 900 }), usd(901))).toBe(false);
+  });
+
+  it('triggers on a drop of at least the given percentage from the watched price', () => {
+    expect(isThresholdCrossed(watched({ dropPercent: 10 }), usd(900))).toBe(true);
+    expect(isThresholdCrossed(watched({ dropPercent: 10 }), usd(901))).toBe(false);
+  });
+
+  it('never triggers without thresholds, without a price or in another currency', () => {
+    expect(isThresholdCrossed(watched(), usd(1))).toBe(false);
+    expect(isThresholdCrossed(watched({ targetPrice: 900 }), { amount: null, currency: null, raw: 'Price varies' })).toBe(false);
+    expect(isThresholdCrossed(watched({ targetPrice: 900 }), { amount: 500, currency: 'EUR', raw: '€500' })).toBe(false);
+  });
+});
+
+describe('checkWatchlist', () => {
+  beforeEach(() => {
+    vi.mocked(searchDeals).mockReset();
+  });
+
+  it('searches for the product without the cache and in the given locale', async () => {
+    priceChangesTo(1000);
+    await checkWatchlist([watched()], ['gemini'], 'de-DE');
+    expect(searchDeals).toHaveBeenCalledWith(
+      ['gemini'],
+      { keywords: laptop.title, categories: [laptop.category], location: '' },
+      { bypassCache: true, locale: 'de-DE' }
+    );
+  });
+
+  it('alerts once when a threshold is crossed and again only after the price recovered', async () => {
+    priceChangesTo(850);
+    const first = await checkWatchlist([watched({ targetPrice: 900 })], ['gemini']);
+    expect(first.alerts).toHaveLength(1);
+    expect(first.alerts[0]).toMatchObject({ dealId: laptop.id, title: laptop.title });
+    expect(first.items[0]).toMatchObject({ lastPrice: usd(850), alertedAt: expect.any(String) });
+
+    const second = await checkWatchlist(first.items, ['gemini']);
+    expect(second.alerts).toEqual([]);
+
+    priceChangesTo(950);
+    const recovered = await checkWatchlist(second.items, ['gemini']);
+    expect(recovered.items[0].alertedAt).toBeUndefined();
+
+    priceChangesTo(880);
+    expect((await checkWatchlist(recovered.items, ['gemini'])).alerts).toHaveLength(1);
+  });
+
+  it('keeps the last price when the product is not found or the search fails', async () => {
+    vi.mocked(searchDeals).mockResolvedValueOnce({ deals: [], errors: [] });
+    const notFound = await checkWatchlist([watched({ lastPrice: usd(990) })], ['gemini']);
+    expect(notFound.items[0]).toMatchObject({ lastPrice: usd(990), lastCheckedAt: expect.any(String) });
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(searchDeals).mockRejectedValueOnce(new Error('offline'));
+    const item = watched();
+    expect((await checkWatchlist([item], ['gemini'])).items).toEqual([item]);
+  });
+});
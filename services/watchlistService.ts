@@ -0,0 +1,113 @@
+import { Deal, LocaleCode, Money, WatchlistAlert, WatchlistItem } from '../types';
+import { DEFAULT_LOCALE, WATCHLIST_STORAGE_KEY } from '../constants';
+import { readJson, writeJson } from './storage';
+import { searchDeals } from './dealProviders';
+import { isSameProduct } from './dealIdentity';
+import { formatMoney, formatAmount } from './money';
+import { formatNumber, translate } from './i18n';
+
+export const loadWatchlist = (): WatchlistItem[] => readJson<WatchlistItem[]>(WATCHLIST_STORAGE_KEY, []);
+
+export const saveWatchlist = (items: WatchlistItem[]): void => writeJson(WATCHLIST_STORAGE_KEY, items);
+
+export const createWatchlistItem = (deal: Deal): WatchlistItem => ({
+  dealId: deal.id,
+  deal,
+  addedAt: new Date().toISOString(),
+  baselinePrice: deal.discountedPrice,
+  lastPrice: deal.discountedPrice,
+});
+
+/**
+ * True when `price` meets the item's target price or has dropped from the price it was watched at
+ * by at least `dropPercent`. Prices in another currency than the baseline never trigger.
+ */
+export const isThresholdCrossed = (item: WatchlistItem, price: Money): boolean => {
+  if (price.amount === null || price.currency !== item.baselinePrice.currency) return false;
+  if (item.targetPrice !== undefined && price.amount <= item.targetPrice) return true;
+  const baseline = item.baselinePrice.amount;
+  if (item.dropPercent !== undefined && baseline !== null && baseline > 0) {
+    return ((baseline - price.amount) / baseline) * 100 >= item.dropPercent;
+  }
+  return false;
+};
+
+const describeAlert = (item: WatchlistItem, price: Money, locale: LocaleCode): string => {
+  const parts = [translate(locale, 'watchlist.alert.now', { price: formatMoney(price, locale), baseline: formatMoney(item.baselinePrice, locale) })];
+  if (item.targetPrice !== undefined) {
+    parts.push(translate(locale, 'watchlist.alert.target', { price: formatAmount(item.targetPrice, item.baselinePrice.currency, locale) }));
+  }
+  if (item.dropPercent !== undefined) parts.push(translate(locale, 'watchlist.alert.drop', { percent: formatNumber(item.dropPercent, locale, 1) }));
+  return parts.join(', ');
+};
+
+/**
+ * Re-queries the given providers for every watched item and records the latest price seen.
+ * Items whose threshold is crossed for the first time produce an alert; an item alerts only once
+ * until its thresholds are edited. Items are checked one after another to keep API usage modest.
+ * Searches are made in `locale`, like the user's own, so the model names and prices products the same way;
+ * alert messages are written in it too.
+ */
+export const checkWatchlist = async (
+  items: WatchlistItem[],
+  providerIds: string[],
+  locale: LocaleCode = DEFAULT_LOCALE
+): Promise<{ items: WatchlistItem[]; alerts: WatchlistAlert[] }> => {
+  const updated: WatchlistItem[] = [];
+  const alerts: WatchlistAlert[] = [];
+
+  for (const item of items) {
+    const checkedAt = new Date().toISOString();
+    try {
+      // A cached answer would hide the very price change the check is looking for.
+      const { deals } = await searchDeals(providerIds, {
+        keywords: item.deal.title,
+        categories: [item.deal.category],
+        location: '',
+      }, { bypassCache: true, locale });
+      const match = deals.find(deal => isSameProduct(deal, item.deal));
+      if (!match) {
+        updated.push({ ...item, lastCheckedAt: checkedAt });
+        continue;
+      }
+      const crossed = isThresholdCrossed(item, match.discountedPrice);
+      if (crossed && !item.alertedAt) {
+        alerts.push({
+          id: `${item.dealId}-${checkedAt}`,
+          dealId: item.dealId,
+          title: item.deal.title,
+          message: describeAlert(item, match.discountedPrice, locale),
+          createdAt: checkedAt,
+        });
+      }
+      updated.push({
+        ...item,
+        lastPrice: match.discountedPrice,
+        lastCheckedAt: checkedAt,
+        alertedAt: crossed ? item.alertedAt ?? checkedAt : undefined,
+      });
+    } catch (error) {
+      console.error(`Failed to re-check watched deal "${item.deal.title}":`, error);
+      updated.push(item);
+    }
+  }
+
+  return { items: updated, alerts };
+};
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Mirrors an in-app alert as a system notification when the user has allowed it.
+export const showBrowserNotification = (alert: WatchlistAlert, locale: LocaleCode = DEFAULT_LOCALE): void => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  try {
+    const title = translate(locale, alert.kind === 'saved-search' ? 'alerts.newDeals' : 'alerts.priceAlert', { title: alert.title });
+    new Notification(title, { body: alert.message, tag: alert.dealId });
+  } catch (error) {
+    console.error("Failed to show browser notification:", error);
+  }
+};
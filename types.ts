@@ -1,20 +1,106 @@
 
+import type { MessageKey } from './services/i18n';
+
+export interface Money {
+  amount: number | null; // null when the text holds no usable number, e.g. "Price varies"
+  currency: string | null; // ISO 4217 code; null when amount is null
+  raw: string; // The price exactly as the source wrote it
+}
+
 export interface Deal {
   id: string;
   title: string;
   description: string;
-  originalPrice: string;
-  discountedPrice: string;
+  originalPrice: Money;
+  discountedPrice: Money;
   merchant: string;
   category: string;
   imageUrl?: string; // Optional image URL
   userLiked?: boolean; // For adaptive filtering simulation
+  providerId?: string; // Id of the DealProvider that produced this deal (or its best price, once merged)
+  sources?: DealSource[]; // Every provider that reported this product, filled in when duplicates are merged
+  relevance?: DealRelevance; // Set when results are re-ranked against the learned preference profile
+  sourceUrl?: string; // Page the deal was found on, when a grounded search cites one
+  sourceRefs?: DealSourceRef[]; // Search results backing the deal; empty when a grounded search cited none for it
+  fulfillment?: DealFulfillment; // How the deal can be bought, when the source says
+  storeLocation?: StoreLocation; // Where to buy it in person
+}
+
+export type DealFulfillment = 'online' | 'in-store' | 'both';
+
+// A product of the bundled offline demo catalog; see services/demoService.ts.
+export interface DemoProduct {
+  id: string;
+  title: string;
+  description: string;
+  merchant: string;
+  category: string;
+  listPrice: number; // USD, shown as the original price
+  typicalPrice: number; // What the product usually sells for; the offline verification judges deals against it
+  fulfillment: DealFulfillment;
+  tags: string[]; // Search words beyond the title and description
+  discountRange?: [number, number]; // Percent off the list price the seeded price is drawn from; DEMO_DISCOUNT_RANGE when absent
+}
+
+export interface StoreLocation {
+  label: string; // City or address as the source gave it
+  coordinates?: GeoPoint; // Resolved from the label through the gazetteer
+}
+
+export interface DealSourceRef {
+  uri: string;
+  title: string;
+}
+
+export interface DealRelevance {
+  score: number; // Higher is more relevant; 0 means nothing rated is similar
+  reasons: string[]; // Human-readable "why am I seeing this" explanation
+}
+
+export interface PreferenceProfile {
+  // Affinity weights learned from feedback: +1 per like, -1 per dislike of a matching deal
+  categories: Record<string, number>;
+  merchants: Record<string, number>;
+  priceBands: Record<string, number>;
+  keywords: Record<string, number>;
+  feedback: Record<string, boolean>; // Deal id -> liked (true) / disliked (false)
+  updatedAt?: string;
+}
+
+export interface DealSource {
+  providerId: string;
+  originalPrice: Money;
+  discountedPrice: Money;
 }
 
 export interface UserPreferences {
   categories: string[];
-  location: string;
+  location: string; // As typed by the user
   keywords: string; // For general search terms
+  place?: StructuredLocation; // `location` resolved against the gazetteer, when it could be
+  radiusKm?: number; // Only look for stores this close to `place`
+}
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface StructuredLocation {
+  city?: string;
+  region?: string; // State, province or similar
+  country?: string;
+  coordinates?: GeoPoint;
+}
+
+// One entry of the bundled offline gazetteer.
+export interface GazetteerPlace {
+  id: string;
+  city: string;
+  region: string;
+  country: string;
+  aliases: string[];
+  coordinates: GeoPoint;
 }
 
 export interface PriceDataPoint {
@@ -22,9 +108,280 @@ export interface PriceDataPoint {
   price: number;
 }
 
-export interface DealVerification {
+export interface PriceForecastPoint {
+  date: string;
+  price: number; // Expected price
+  lower: number; // Forecast band
+  upper: number;
+}
+
+export interface PriceAnalysis {
+  trend: { direction: 'rising' | 'falling' | 'flat'; slopePerDay: number; percentPerWeek: number };
+  movingAverages: { short: number | null; long: number | null }; // Averages of the latest prices, null with too few points
+  movingAverageSeries: (number | null)[]; // Short moving average aligned with the history, for charting
+  volatility: number; // Standard deviation as a percentage of the mean price
+  low: PriceDataPoint; // All-time low/high within the recorded history
+  high: PriceDataPoint;
+  forecast: PriceForecastPoint[];
+  recommendation: { action: 'buy' | 'wait' | 'insufficient-data'; reasons: string[] };
+}
+
+export interface PriceObservation {
+  productKey: string; // Stable identity of the product, independent of the deal id
+  observedAt: string; // ISO timestamp of the search that returned the price
+  price: number;
+  currency: string | null;
+  merchant: string;
+  providerId?: string;
+}
+
+export interface WatchlistItem {
+  dealId: string;
+  deal: Deal; // Snapshot of the deal when it was added
+  addedAt: string; // ISO timestamp
+  baselinePrice: Money; // Price when the item was added; percentage drops are measured from it
+  targetPrice?: number; // Alert when the price is at or below this amount (in the baseline currency)
+  dropPercent?: number; // Alert when the price has dropped by at least this percentage
+  lastPrice?: Money;
+  lastCheckedAt?: string;
+  alertedAt?: string; // Set when a threshold was crossed; cleared when it no longer is or the thresholds change
+}
+
+export interface WatchlistAlert {
+  id: string;
+  dealId: string; // For saved-search alerts, the saved search's id
+  kind?: 'price' | 'saved-search'; // A price alert when omitted
+  title: string;
+  message: string;
+  createdAt: string;
+}
+
+// Just enough of a deal to recognise it, and its price, in a later run of the same saved search.
+export type DealSnapshot = Pick<Deal, 'id' | 'title' | 'merchant' | 'category' | 'discountedPrice'>;
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  preferences: UserPreferences;
+  providerIds: string[]; // Includes the Google Search grounding provider when it was on
+  pageSize: number;
+  createdAt: string; // ISO timestamp
+  autoRunMinutes?: number; // Re-run in the background on this interval while the app is open; manual only when omitted
+  lastRunAt?: string;
+  seenDeals?: DealSnapshot[]; // The deals shown the last time the user opened the search; runs are compared against these
+  unseenCount?: number; // New deals and price changes found by background runs since then
+}
+
+export interface DealChange {
+  kind: 'new' | 'price-drop' | 'price-rise';
+  previousPrice?: Money; // For price changes
+}
+
+// A deal as written to a CSV or JSON export. Prices keep the text the source used, so the file can be imported again
+// as a deal list, next to the parsed amounts.
+export interface ExportedDeal {
+  id: string;
+  title: string;
+  description: string;
+  merchant: string;
+  category: string;
+  originalPrice: string;
+  discountedPrice: string;
+  originalAmount: number | null;
+  discountedAmount: number | null;
+  currency: string | null;
+  discountPercent: number | null;
+  savings: number | null;
+  verificationScore: number | null; // Only for deals that were verified
+  sources: { providerId: string; discountedPrice: string; discountedAmount: number | null }[];
+  imageUrl?: string;
+  fulfillment?: DealFulfillment;
+  storeLocation?: string;
+}
+
+// Everything the app keeps in localStorage on the user's behalf.
+export interface UserData {
+  savedSearches: SavedSearch[];
+  watchlist: WatchlistItem[];
+  profile: PreferenceProfile; // Learned preferences, including every deal the user liked or disliked
+  merchantOverrides: MerchantOverrides;
+}
+
+export interface UserDataBackup extends UserData {
+  format: 'dealdigger-backup';
+  version: number;
+  exportedAt: string; // ISO timestamp
+}
+
+export type LocaleCode = 'en-US' | 'de-DE';
+
+export interface LocaleInfo {
+  code: LocaleCode;
+  label: string; // Name of the language in that language, for the switcher
+  language: string; // English name of the language, for prompts
+  currency: string; // ISO 4217 code prices are asked in when the search location does not call for another
+}
+
+// A UI message: plain text, or singular/plural forms chosen by the `count` parameter. `{name}` is replaced by a parameter.
+export type Message = string | { one: string; other: string };
+
+export type MessageParams = Record<string, string | number>;
+
+export interface StatusMessage {
+  tone: 'success' | 'error';
+  text: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  createdAt: string; // ISO timestamp
+  actions?: ChatAction[]; // Tool calls the assistant made while producing this reply
+}
+
+export interface ChatToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// A tool call shown in the conversation; undo callbacks are kept in memory only, so restored actions cannot be undone.
+export interface ChatAction {
+  id: string;
+  toolName: string;
+  summary: string;
+  status: 'done' | 'failed' | 'undone';
+}
+
+export type MerchantTrustTier = 'trusted' | 'unknown' | 'suspicious' | 'blocked';
+
+export interface MerchantRecord {
+  id: string;
+  name: string; // Canonical display name
+  aliases: string[]; // Other names the merchant appears under, e.g. "Amazon.com"
+  domains: string[];
+  tier: MerchantTrustTier;
+  notes?: string;
+}
+
+export interface ScamPattern {
+  id: string;
+  pattern: string; // Case-insensitive regular expression tested against the merchant name or domain
+  description: string;
+  action: 'flag' | 'hide';
+}
+
+// The user's own verdicts, keyed by registry id or by the compacted merchant name.
+export type MerchantOverrides = Record<string, 'trusted' | 'blocked'>;
+
+export interface MerchantReputation {
+  key: string; // Registry id, or the compacted merchant name when it is not in the registry
+  name: string;
+  tier: MerchantTrustTier;
+  source: 'user' | 'registry' | 'blocklist' | 'none';
+  notes?: string;
+  flags: string[]; // Descriptions of the scam patterns the merchant matched
+  hidden: boolean; // Deals from this merchant are left out of results
+}
+
+// The model's own judgement of a deal, before it is combined with the local checks.
+export interface AiDealAssessment {
   summary: string;
   score: number; // 1-5
+  offline?: boolean; // From the offline demo rules rather than the model
+}
+
+// One column of the comparison view; the same facts are given to the model so its verdict matches the table.
+export interface ComparedDeal {
+  deal: Deal;
+  merchant: MerchantReputation;
+  verificationScore: number | null;
+  isVerified: boolean; // The score comes from a full verification rather than the local checks alone
+  priceTrend: PriceAnalysis['trend'] | null; // From the recorded price history; null without one
+  historyPoints: number;
+}
+
+export interface DealTradeOff {
+  dealId: string;
+  pros: string[];
+  cons: string[];
+}
+
+export interface AiDealComparison {
+  recommendedDealId: string | null; // null when no deal is clearly better
+  summary: string;
+  tradeOffs: DealTradeOff[]; // One entry per compared deal the model commented on
+  offline?: boolean; // From the offline demo rules rather than the model
+}
+
+export interface DealComparisonResult {
+  verdict: AiDealComparison | null;
+  unavailableReason?: string; // Why there is no verdict
+}
+
+export type VerificationFactorId = 'discount' | 'priceHistory' | 'merchant' | 'redFlags' | 'ai';
+
+export interface VerificationFactor {
+  id: VerificationFactorId;
+  label: string;
+  status: 'pass' | 'warn' | 'fail' | 'unknown'; // 'unknown' when there was nothing to judge by
+  score: number | null; // 1-5, null for 'unknown'
+  evidence: string[];
+}
+
+export interface DealVerification {
+  summary: string;
+  // 'complete': local checks and AI; 'partial': local checks only; 'unverified': nothing could be judged.
+  status: 'complete' | 'partial' | 'unverified';
+  score: number | null; // 1-5; null only when unverified, so a low score always means a judged, poor deal
+  factors: VerificationFactor[];
+  unavailableReason?: string; // Why the AI assessment is missing, for 'partial' and 'unverified'
+}
+
+export type DealSortKey = 'relevance' | 'discount' | 'price' | 'savings' | 'score' | 'merchant';
+
+export type DealAvailability = 'online' | 'local' | 'both' | 'unknown';
+
+export interface FacetCount<T extends string = string> {
+  value: T;
+  count: number;
+}
+
+// Computed from the deals of the current search; the filters below can only select what is present.
+export interface DealFacets {
+  merchants: FacetCount[];
+  categories: FacetCount[];
+  priceBounds: { min: number; max: number } | null; // null when no deal has a price
+  discounts: FacetCount<string>[]; // value is the minimum discount, e.g. "25" for 25% off or more
+  availability: FacetCount<DealAvailability>[];
+  distances: FacetCount<string>[]; // value is the maximum distance in km; empty without a search location
+}
+
+// Empty lists and null ranges mean "no filter".
+export interface DealFilters {
+  merchants: string[];
+  categories: string[];
+  priceRange: { min: number; max: number } | null;
+  minDiscount: number;
+  availability: DealAvailability[];
+  maxDistanceKm: number | null; // Hides in-store deals farther away or at an unknown distance; deals that can be bought online always pass
+}
+
+export type DealLinkView = 'verify' | 'history';
+
+export interface DealLink {
+  dealId: string;
+  view: DealLinkView; // Which modal to open for the deal
+}
+
+// Everything the address bar records, so a search can be bookmarked, shared and restored with back/forward.
+export interface UrlState {
+  preferences: UserPreferences;
+  providerIds: string[]; // Includes the Google Search grounding provider when that is switched on
+  pageSize: number;
+  sortKey: DealSortKey;
+  filters: DealFilters;
+  dealLink: DealLink | null;
 }
 
 export interface GroundingChunkWeb {
@@ -42,7 +399,98 @@ export interface GroundingChunk {
   retrievedContext?: GroundingChunkRetrievedContext;
 }
 
+export interface GroundingSegment {
+  startIndex?: number;
+  endIndex?: number;
+  text?: string;
+}
+
+// Links a span of the response text to the grounding chunks that back it.
+export interface GroundingSupport {
+  segment?: GroundingSegment;
+  groundingChunkIndices?: number[];
+  confidenceScores?: number[];
+}
+
 export interface GroundingMetadata {
   groundingChunks?: GroundingChunk[];
+  groundingSupports?: GroundingSupport[];
   searchQueries?: string[];
 }
+
+export interface DealProviderCapabilities {
+  requiresApiKey: boolean;
+  searchGrounding: boolean; // Results are backed by live Google Search
+  generated: boolean; // Results are invented by a model rather than read from a real feed
+}
+
+export interface RetryInfo {
+  attempt: number; // The attempt about to be made, starting at 2
+  maxAttempts: number;
+  delayMs: number; // Wait before that attempt
+  reason: string; // Message of the error that is being retried
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onRetry?: (info: RetryInfo) => void; // Called before each retry of a transient failure
+  locale?: LocaleCode; // Language and regional currency the model should answer in; English when absent
+}
+
+export interface DealSearchOptions extends RequestOptions {
+  maxResults?: number; // Page size: how many deals to ask for and return
+  excludeDeals?: Deal[]; // Deals already shown; a "Load more" page must not repeat them
+  preferenceHint?: string; // Learned preference summary folded into AI prompts
+  bypassCache?: boolean; // Fetch fresh results even when cached ones exist; the fresh result is cached again
+  onRevalidated?: (result: DealSearchResult) => void; // Receives the refreshed result after stale cached results were returned
+  onProgress?: (deals: Deal[]) => void; // Receives the deals found so far while a streamed search is still running
+}
+
+// How the search form asks App to run a search.
+export interface SearchRequestOptions {
+  bypassCache: boolean;
+  pageSize: number;
+}
+
+export interface CacheInfo {
+  storedAt: string; // ISO timestamp of the cached response
+  stale: boolean; // Older than its TTL; a refresh is running in the background
+}
+
+export interface DealValidationIssue {
+  index: number; // Position of the item in the source response
+  title?: string;
+  reasons: string[];
+  providerId?: string;
+}
+
+export interface DealValidationReport {
+  received: number;
+  accepted: number;
+  rejected: DealValidationIssue[];
+  repaired: DealValidationIssue[];
+}
+
+export interface DealSearchResult {
+  deals: Deal[];
+  groundingMetadata?: GroundingMetadata;
+  validation?: DealValidationReport;
+  cache?: CacheInfo; // Present when the result was served from the response cache
+}
+
+export interface DealProvider {
+  id: string;
+  labelKey: MessageKey; // Name shown in the source picker and wherever results are attributed to the provider
+  descriptionKey: MessageKey;
+  capabilities: DealProviderCapabilities;
+  search: (preferences: UserPreferences, options?: DealSearchOptions) => Promise<DealSearchResult>;
+}
+
+export interface DealProviderError {
+  providerId: string;
+  message: string;
+}
+
+export interface MergedDealSearchResult extends DealSearchResult {
+  errors: DealProviderError[]; // Providers that failed while others succeeded
+}
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GEMINI_API_KEY?: string;
+  readonly VITE_LOCAL_DEALS_FEED_URL?: string;
+  readonly VITE_DEMO_MODE?: string;
+  readonly VITE_DEMO_SEED?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}